@@ -0,0 +1,30 @@
+/**
+ * Command-line helpers shared by the scripts
+ */
+
+/**
+ * Print a message and exit with an error status
+ */
+export function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+/**
+ * Parse `--name value` pairs; a flag without a value is 'true'
+ */
+export function parseArgs(argv: string[]): Map<string, string> {
+    const options = new Map<string, string>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) fail(`Unexpected argument "${arg}"`);
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith('--')) {
+            options.set(arg.slice(2), 'true');
+        } else {
+            options.set(arg.slice(2), next);
+            i++;
+        }
+    }
+    return options;
+}
@@ -0,0 +1,26 @@
+/**
+ * Build the packed DAWG and GADDAG binaries for every installed lexicon
+ * Usage: npm run build:dawg [-- LEXICON_ID ...]
+ */
+
+import { writeLexiconBinary } from '../src/lib/dawg-store';
+import { getAvailableLexiconSources } from '../src/lib/lexicon-registry';
+
+const requested = process.argv.slice(2);
+const lexicons = getAvailableLexiconSources()
+    .filter(({ id }) => requested.length === 0 || requested.includes(id));
+
+for (const id of requested) {
+    if (!lexicons.some(lexicon => lexicon.id === id)) {
+        console.error(`Lexicon "${id}" is not available`);
+        process.exitCode = 1;
+    }
+}
+
+for (const { id, source } of lexicons) {
+    for (const structure of ['DAWG', 'GADDAG'] as const) {
+        const start = Date.now();
+        writeLexiconBinary(source, structure);
+        console.log(`${id} ${structure} built in ${Date.now() - start}ms`);
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Learn a leave table from self-play
+ * Usage: npm run build:leaves -- [options]
+ *   --games N          Self-play games (default 500)
+ *   --personality P    Personality preset of both players (default HARD)
+ *   --leaves TABLE     Table the players value leaves with while playing (default none,
+ *                      i.e. score only; pass an earlier table to refine it)
+ *   --min-samples N    Leaves seen fewer times are estimated from shorter leaves (default 20)
+ *   --lexicon ID       Lexicon (default CSW)
+ *   --seed N           Seed of the first game (default 1)
+ *   --out NAME         Writes leaves/NAME.csv (default "default")
+ * Games stop once the bag is empty, as endgame turns say nothing about leaves
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fail, parseArgs } from './args';
+import { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay } from '../src/app/ai-actions';
+import { setWorkerLogging } from '../src/lib/move-worker-pool';
+import { createGame } from '../src/lib/gameEngine';
+import { playAiTurn, AiTurnStep } from '../src/lib/ai-turn';
+import { createLeaveStats, recordLeaves, buildLeaveTable, serializeLeaveTable } from '../src/lib/leave-values';
+import { getLeaveTablePath, loadLeaveTable } from '../src/lib/leave-store';
+import { loadPersonality } from '../src/lib/personality-store';
+import { deriveSeed, parseSeed } from '../src/lib/random';
+import { DEFAULT_LEAVE_TABLE, DEFAULT_LEXICON, NO_LEAVE_TABLE } from '../src/lib/constants';
+import { GameState, AiPersonality } from '../src/lib/types';
+
+const options = parseArgs(process.argv.slice(2));
+
+const games = Number(options.get('games') ?? 500);
+if (!Number.isInteger(games) || games < 1) fail('--games must be a positive whole number');
+
+let personality: AiPersonality;
+try {
+    personality = loadPersonality(options.get('personality') ?? 'HARD');
+} catch (error) {
+    fail((error as Error).message);
+}
+
+const leaveTable = options.get('leaves') ?? NO_LEAVE_TABLE;
+try {
+    loadLeaveTable(leaveTable);
+} catch (error) {
+    fail((error as Error).message);
+}
+
+const minSamples = Number(options.get('min-samples') ?? 20);
+if (!Number.isInteger(minSamples) || minSamples < 1) fail('--min-samples must be a positive whole number');
+
+const seed = parseSeed(options.get('seed') ?? '1');
+if (seed === null) fail('--seed must be a whole number from 0 to 4294967295');
+
+const lexicon = options.get('lexicon') ?? DEFAULT_LEXICON;
+const name = options.get('out') ?? DEFAULT_LEAVE_TABLE;
+if (!/^[\w-]+$/.test(name) || name === NO_LEAVE_TABLE) fail(`Invalid table name "${name}"`);
+
+// The move generator logs every turn; only progress is wanted here
+const log = console.log;
+console.log = () => {};
+setWorkerLogging(false);
+
+async function main() {
+    const ai = { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay };
+    const stats = createLeaveStats();
+    const start = Date.now();
+
+    for (let game = 0; game < games; game++) {
+        const dealt = createGame({ mode: 'AI_VS_AI', lexicon, seed: deriveSeed(seed!, game) });
+        let state: GameState = {
+            ...dealt,
+            players: dealt.players.map(player => ({ ...player, personality, useHeuristics: true, leaveTable })),
+        };
+
+        const steps: AiTurnStep[] = [];
+        while (!state.gameOver && state.bag.length > 0) {
+            const turn = await playAiTurn(state, ai);
+            steps.push(...turn.steps);
+            state = turn.state;
+        }
+        recordLeaves(stats, steps);
+
+        if ((game + 1) % 10 === 0 || game + 1 === games) {
+            log(`${game + 1}/${games} games, ${stats.count} leaves observed (${((Date.now() - start) / 1000).toFixed(0)}s)`);
+        }
+    }
+
+    const { table, samples } = buildLeaveTable(name, stats, minSamples);
+    const comment = `${games} ${personality.name} self-play games with leaves "${leaveTable}", seed ${seed}, ${stats.count} observations, min ${minSamples} samples`;
+    const filePath = getLeaveTablePath(name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, serializeLeaveTable(table, samples, comment));
+    log(`${table.values.size} leave values written to ${path.relative(process.cwd(), filePath)}`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
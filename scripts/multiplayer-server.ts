@@ -0,0 +1,47 @@
+/**
+ * Serve online games: rooms players join by code, over WebSockets
+ * Usage: npm run multiplayer -- [options]
+ *   --port N      Port to listen on (default 3001; the app connects here
+ *                 unless NEXT_PUBLIC_MULTIPLAYER_URL says otherwise)
+ *   --host HOST   Interface to listen on (default all)
+ *   --verbose     Keep the AI's move-generation logging
+ * Runs alongside the app (npm run dev); games live in memory only
+ */
+
+import { fail, parseArgs } from './args';
+import { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay } from '../src/app/ai-actions';
+import { setWorkerLogging } from '../src/lib/move-worker-pool';
+import { validateWords } from '../src/app/actions';
+import { createMultiplayerServer } from '../src/lib/multiplayer-server';
+import { MULTIPLAYER_PORT } from '../src/lib/constants';
+
+const options = parseArgs(process.argv.slice(2));
+
+const port = Number(options.get('port') ?? MULTIPLAYER_PORT);
+if (!Number.isInteger(port) || port < 1 || port > 65535) fail('--port must be a port number');
+const host = options.get('host');
+
+// The move generator logs every turn; only the server's own messages are wanted here
+const log = console.log;
+if (!options.has('verbose')) {
+    console.log = () => {};
+    setWorkerLogging(false);
+}
+
+const multiplayer = createMultiplayerServer({
+    ai: { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay },
+    validateWords,
+});
+
+multiplayer.server.on('error', error => fail(`Cannot listen on port ${port}: ${error.message}`));
+multiplayer.server.listen(port, host, () => {
+    log(`Multiplayer server listening on ws://${host || 'localhost'}:${port}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+        log('Shutting down');
+        multiplayer.close();
+        process.exit(0);
+    });
+}
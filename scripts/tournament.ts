@@ -0,0 +1,137 @@
+/**
+ * Play AI-vs-AI games headlessly and report the results
+ * Usage: npm run tournament -- [options]
+ *   --games N             Games to play (default 20; seats alternate each game)
+ *   --p1 SPEC, --p2 SPEC  Players as PERSONALITY[:heuristics][:DAWG|GADDAG][:leaves=TABLE]
+ *                         (EASY, MEDIUM, HARD, SIMULATION or a preset in personalities/;
+ *                         TABLE is a file in leaves/ or none), e.g. HARD:heuristics
+ *                         (defaults HARD and MEDIUM)
+ *   --variant VARIANT     Board variant (default STANDARD; MEGA is not supported)
+ *   --lexicon ID          Lexicon (default CSW)
+ *   --challenge RULE      VOID, SINGLE or DOUBLE (default VOID)
+ *   --seed N              Tournament seed (default 1)
+ *   --sim-time MS         Thinking time per move of simulating players (default: their personality's)
+ *   --out DIR             Output directory (default tournament-results)
+ *   --verbose             Keep the AI's move-generation logging
+ * Writes results.json, games.csv and summary.csv to the output directory
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fail, parseArgs } from './args';
+import { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay } from '../src/app/ai-actions';
+import { setWorkerLogging } from '../src/lib/move-worker-pool';
+import { runTournament, gamesToCsv, summaryToCsv, TournamentConfig, TournamentPlayer } from '../src/lib/tournament';
+import { isChallengeRule } from '../src/lib/challenge';
+import { parseSeed } from '../src/lib/random';
+import { loadLeaveTable } from '../src/lib/leave-store';
+import { loadPersonality } from '../src/lib/personality-store';
+import { BOARD_VARIANTS, BoardVariant, DEFAULT_LEXICON } from '../src/lib/constants';
+import { ChallengeRule, AiPersonality } from '../src/lib/types';
+
+// Load the table up front so a bad name fails before any game is played
+function loadTableName(name: string, spec: string): string {
+    try {
+        loadLeaveTable(name);
+    } catch (error) {
+        fail(`${(error as Error).message} (in "${spec}")`);
+    }
+    return name;
+}
+
+function parsePlayer(spec: string): TournamentPlayer {
+    const [name, ...flags] = spec.split(':');
+    let personality: AiPersonality;
+    try {
+        personality = loadPersonality(name);
+    } catch (error) {
+        fail(`${(error as Error).message} (in "${spec}")`);
+    }
+
+    const player: TournamentPlayer = { name: spec.toUpperCase(), personality, useHeuristics: false, moveGenerator: 'DAWG' };
+    for (const flag of flags) {
+        const upper = flag.toUpperCase();
+        if (upper === 'HEURISTICS') player.useHeuristics = true;
+        else if (upper === 'DAWG' || upper === 'GADDAG') player.moveGenerator = upper;
+        else if (upper.startsWith('LEAVES=')) player.leaveTable = loadTableName(flag.slice('leaves='.length), spec);
+        else fail(`Unknown option "${flag}" in "${spec}" (expected heuristics, DAWG, GADDAG or leaves=TABLE)`);
+    }
+    return player;
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+const games = Number(options.get('games') ?? 20);
+if (!Number.isInteger(games) || games < 1) fail('--games must be a positive whole number');
+
+const variant = (options.get('variant') ?? 'STANDARD').toUpperCase() as BoardVariant;
+if (!(variant in BOARD_VARIANTS)) fail(`Unknown variant "${variant}"`);
+if (variant === 'MEGA') fail('Tournaments are two-player; the MEGA board is for team games');
+
+const challengeRule = (options.get('challenge') ?? 'VOID').toUpperCase() as ChallengeRule;
+if (challengeRule !== 'VOID' && !isChallengeRule(challengeRule)) fail(`Unknown challenge rule "${challengeRule}"`);
+
+const seed = parseSeed(options.get('seed') ?? '1');
+if (seed === null) fail('--seed must be a whole number from 0 to 4294967295');
+
+const players: [TournamentPlayer, TournamentPlayer] = [
+    parsePlayer(options.get('p1') ?? 'HARD'),
+    parsePlayer(options.get('p2') ?? 'MEDIUM'),
+];
+
+if (options.has('sim-time')) {
+    const simulationTimeMs = Number(options.get('sim-time'));
+    if (!Number.isInteger(simulationTimeMs) || simulationTimeMs < 0) fail('--sim-time must be a whole number of milliseconds');
+    for (const player of players) {
+        if (player.personality.simulate) player.personality = { ...player.personality, thinkTimeMs: simulationTimeMs };
+    }
+}
+if (players[0].name === players[1].name) {
+    players[0].name += ' (1)';
+    players[1].name += ' (2)';
+}
+
+const config: TournamentConfig = {
+    games,
+    players,
+    variant,
+    lexicon: options.get('lexicon') ?? DEFAULT_LEXICON,
+    challengeRule,
+    seed,
+};
+const outDir = options.get('out') ?? 'tournament-results';
+
+// The move generator logs every turn; only progress is wanted here
+const log = console.log;
+if (!options.has('verbose')) {
+    console.log = () => {};
+    setWorkerLogging(false);
+}
+
+async function main() {
+    log(`${players[0].name} vs ${players[1].name}: ${games} games on ${variant} (${config.lexicon}, ${challengeRule} challenges, seed ${seed})`);
+
+    const report = await runTournament(config, { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay }, record => {
+        const result = record.winner === null ? 'tie' : `${players[record.winner].name} wins`;
+        log(`Game ${record.game + 1}/${games}: ${record.scores[0]}-${record.scores[1]}, ${result} (${record.reason})`);
+    });
+
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, 'results.json'), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(outDir, 'games.csv'), gamesToCsv(report));
+    fs.writeFileSync(path.join(outDir, 'summary.csv'), summaryToCsv(report));
+
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    log('');
+    for (const s of report.summary) {
+        log(`${s.name}: ${s.wins}W ${s.losses}L ${s.ties}T, win rate ${percent(s.winRate.value)} (95% CI ${percent(s.winRate.low)}-${percent(s.winRate.high)})`);
+        log(`  avg score ${s.averageScore.value.toFixed(1)} (±${(s.averageScore.high - s.averageScore.value).toFixed(1)}), avg spread ${s.averageSpread.value.toFixed(1)}`);
+        log(`  bingos ${s.bingosPerGame.toFixed(2)}/game (${percent(s.bingoRate)} of plays), move time mean ${s.moveMs.mean.toFixed(0)}ms, p95 ${s.moveMs.p95}ms, max ${s.moveMs.max}ms`);
+    }
+    log(`\n${games} games in ${(report.elapsedMs / 1000).toFixed(1)}s; results written to ${outDir}/`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
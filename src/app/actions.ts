@@ -1,51 +1,43 @@
 'use server';
 
-import fs from 'fs';
-import path from 'path';
+import { isValidWord } from '@/lib/dawg';
+import { getLexicon, listLexiconInfo } from '@/lib/lexicon-registry';
+import { listLeaveTableNames } from '@/lib/leave-store';
+import { listPersonalities, savePersonality } from '@/lib/personality-store';
+import { DEFAULT_LEXICON } from '@/lib/constants';
+import { LexiconInfo, AiPersonality } from '@/lib/types';
 
-// We'll use a singleton-like pattern for the dictionary set to avoid reloading it on every request
-let dictionarySet: Set<string> | null = null;
-
-const loadDictionary = async () => {
-    if (dictionarySet) return dictionarySet;
-
-    try {
-        // Load SOWPODS dictionary from file
-        const filePath = path.join(process.cwd(), 'sowpods.txt');
-
-        if (fs.existsSync(filePath)) {
-            const fileContent = fs.readFileSync(filePath, 'utf-8');
-            const words = fileContent.split('\n').map(word => word.trim().toUpperCase()).filter(word => word.length > 0);
-            dictionarySet = new Set(words);
-            console.log(`Loaded ${dictionarySet.size} words from SOWPODS dictionary`);
-            return dictionarySet;
-        } else {
-            console.warn('SOWPODS file not found, using fallback dictionary');
-            // Small fallback if file is missing
-            const fallbackList = ['HELLO', 'WORLD', 'TEST', 'SCRABBLE', 'GAME', 'PLAY', 'WIN', 'LOSE', 'CAT', 'DOG', 'THE', 'AND', 'OR', 'BUT', 'NOT', 'YES', 'NO'];
-            dictionarySet = new Set(fallbackList);
-            return dictionarySet;
-        }
-    } catch (error) {
-        console.error('Error loading dictionary:', error);
-        // Return small fallback on error
-        const fallbackList = ['HELLO', 'WORLD', 'TEST', 'SCRABBLE', 'GAME', 'PLAY', 'WIN', 'LOSE', 'CAT', 'DOG', 'THE', 'AND', 'OR', 'BUT', 'NOT', 'YES', 'NO'];
-        return new Set(fallbackList);
-    }
-};
-
-export async function validateWord(word: string): Promise<boolean> {
-    const dict = await loadDictionary();
-    return dict.has(word.toUpperCase());
+// Lexicons are the same packed DAWGs the AI generates moves from,
+// loaded once per server process. A missing lexicon throws.
+export async function validateWord(word: string, lexicon: string = DEFAULT_LEXICON): Promise<boolean> {
+    return isValidWord(getLexicon(lexicon), word.toUpperCase());
 }
 
-export async function validateWords(words: string[]): Promise<string[]> {
-    const dict = await loadDictionary();
+export async function validateWords(words: string[], lexicon: string = DEFAULT_LEXICON): Promise<string[]> {
+    const dict = getLexicon(lexicon);
     const invalidWords: string[] = [];
     for (const word of words) {
-        if (!dict.has(word.toUpperCase())) {
+        if (!isValidWord(dict, word.toUpperCase())) {
             invalidWords.push(word);
         }
     }
     return invalidWords;
 }
+
+export async function listLexicons(): Promise<LexiconInfo[]> {
+    return listLexiconInfo();
+}
+
+export async function listLeaveTables(): Promise<string[]> {
+    return listLeaveTableNames();
+}
+
+export async function listPersonalityPresets(): Promise<AiPersonality[]> {
+    return listPersonalities();
+}
+
+// Saves a custom preset and returns every preset, the saved one included
+export async function savePersonalityPreset(personality: AiPersonality): Promise<AiPersonality[]> {
+    savePersonality(personality);
+    return listPersonalities();
+}
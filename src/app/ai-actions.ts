@@ -1,484 +1,223 @@
 'use server';
 
-import { BoardState, Tile } from '@/lib/types';
-import { validateMove, PlacedTile } from '@/lib/validation';
-import { calculateScore } from '@/lib/scoring';
-import { validateWords } from './actions';
-import { buildDAWG, DAWGNode } from '@/lib/dawg';
-import { generateWordsFromRack } from '@/lib/word-generator';
-import { calculateCrossSets, getCrossSetAt } from '@/lib/cross-sets';
-import { calculateHeuristicScore, getRemainingRack, evaluateRackLeave, evaluateBoardControl } from '@/lib/heuristics';
-import { logAiMove, logHeuristicBreakdown } from '@/lib/gameLogger';
-
-import fs from 'fs';
-import path from 'path';
-
-// Cache for DAWG structure
-let dawgCache: DAWGNode | null = null;
-
-/**
- * Load and build DAWG from SOWPODS dictionary
- */
-const loadDAWG = (): DAWGNode => {
-    if (dawgCache) return dawgCache;
-
-    try {
-        const filePath = path.join(process.cwd(), 'sowpods.txt');
-
-        if (fs.existsSync(filePath)) {
-            const fileContent = fs.readFileSync(filePath, 'utf-8');
-            const words = fileContent
-                .split('\n')
-                .map(word => word.trim().toUpperCase())
-                .filter(word => word.length > 0);
-
-            console.log(`Building DAWG from ${words.length} words...`);
-            dawgCache = buildDAWG(words);
-            console.log(`DAWG built successfully`);
-            return dawgCache;
-        } else {
-            console.warn('SOWPODS not found, using fallback dictionary');
-            const fallback = ['HELLO', 'WORLD', 'CAT', 'DOG', 'QUIZ', 'JUMP', 'ZONE'];
-            dawgCache = buildDAWG(fallback);
-            return dawgCache;
-        }
-    } catch (error) {
-        console.error('Error loading DAWG:', error);
-        const fallback = ['HELLO', 'WORLD', 'CAT', 'DOG'];
-        dawgCache = buildDAWG(fallback);
-        return dawgCache;
+import { BoardState, Tile, Move, MoveGeneratorType, ChallengeRule, AiPersonality } from '@/lib/types';
+import { getLexicon } from '@/lib/lexicon-registry';
+import { isValidWord } from '@/lib/dawg';
+import { DEFAULT_LEXICON, ENDGAME_TIME_BUDGET_MS, DEFAULT_LEAVE_TABLE, INFERENCE_TIME_BUDGET_MS, AI_MOVE_DEADLINE_MS, LEGAL_PLAYS_CACHE_SIZE, HINT_COUNT, ANALYSIS_ALTERNATIVES, ANALYSIS_TIME_BUDGET_MS } from '@/lib/constants';
+import { createRandom } from '@/lib/random';
+import { EndgameSolution } from '@/lib/endgame';
+import { RackInference } from '@/lib/rack-inference';
+import { AiMoveResult, AiMoveRequest, LegalPlaysRequest, legalPlaysKey } from '@/lib/ai-move';
+import { Hint } from '@/lib/hints';
+import { GameAnalysis } from '@/lib/analysis';
+import { runInWorker, cancelWorkerJobs } from '@/lib/move-worker-pool';
+
+// How many legal plays recent positions had, by legalPlaysKey
+const legalPlaysCache = new Map<string, number>();
+
+function rememberLegalPlays(request: LegalPlaysRequest, count: number): void {
+    const key = legalPlaysKey(request);
+    legalPlaysCache.delete(key);
+    legalPlaysCache.set(key, count);
+    if (legalPlaysCache.size > LEGAL_PLAYS_CACHE_SIZE) {
+        legalPlaysCache.delete(legalPlaysCache.keys().next().value!);
     }
-};
-
-interface AiMoveResult {
-    word: string;
-    score: number; // Actual score awarded
-    tiles: PlacedTile[];
-    selectionScore?: number; // Heuristic-adjusted score for move selection only
 }
 
 /**
- * Optimized AI move generation using DAWG, rack-based generation,
- * cross-sets, and alpha-beta pruning
+ * Choose an AI's move on a move worker (see chooseAiMove)
+ * The search has the personality's thinking time (when it simulates) plus
+ * AI_MOVE_DEADLINE_MS, and then plays the best move found so far.
+ * @param searchGroup - Lets cancelAiSearches cut the search short
  */
 export async function generateAiMove(
     board: BoardState,
     rack: Tile[],
-    difficulty: 'EASY' | 'MEDIUM' | 'HARD',
+    personality: AiPersonality,
     useHeuristics: boolean = false,
     playerName?: string,
     currentPlayer?: { movesMade?: number },
-    mustStartOnStar?: boolean
+    mustStartOnStar?: boolean,
+    moveGenerator: MoveGeneratorType = 'DAWG',
+    lexicon: string = DEFAULT_LEXICON,
+    bagSize: number = 0,
+    challengeRule?: ChallengeRule,
+    seed?: number,
+    unseenTiles?: Tile[],
+    leaveTable: string = DEFAULT_LEAVE_TABLE,
+    inference?: RackInference,
+    searchGroup?: string
 ): Promise<AiMoveResult | null> {
-    const startTime = Date.now();
-
-    // Load DAWG
-    const dawg = loadDAWG();
-
-    // Find anchors
-    const anchors = findAnchors(board, mustStartOnStar, currentPlayer);
-
-    console.log(`Found ${anchors.length} anchors for ${playerName || 'AI'} (movesMade: ${currentPlayer?.movesMade}, mustStartOnStar: ${mustStartOnStar})`);
-
-    if (anchors.length === 0) {
-        console.log('No anchors found - AI cannot make a move');
-        return null;
-    }
-
-    // Calculate cross-sets for pruning
-    const crossSets = calculateCrossSets(board, dawg);
-
-    // Generate all possible words from rack using DAWG
-    const rackWords = generateWordsFromRack(rack, dawg, 15);
-    console.log(`Generated ${rackWords.length} possible words from rack`);
-
-    // Also try to use existing board tiles by attempting all dictionary words
-    // that could be formed with rack + board letters
-    const isEmptyBoard = isEmptyBoardCheck(board);
-    let allCandidateWords = [...rackWords];
-
-    // IMPORTANT: Skip board-aware expansion if player must start on star
-    // They cannot connect to existing tiles, so board letters are irrelevant
-    const skipBoardAware = mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined);
-
-    if (!isEmptyBoard && !skipBoardAware) {
-        // On non-empty boards, we need to consider words that use board tiles
-        // The tryPlaceWord function already handles this, so we just need more word candidates
-        // Load a broader set of words that could potentially use board letters
-        console.log('Board has tiles, expanding word search to include board-aware combinations');
-
-        // Generate words using rack + single board letters
-        // This helps find extensions like CAT -> CATS
-        const boardLetters = new Set<string>();
-        for (let y = 0; y < board.length; y++) {
-            for (let x = 0; x < (board[0]?.length || 0); x++) {
-                if (board[y][x].tile) {
-                    boardLetters.add(board[y][x].tile.letter);
-                }
-            }
-        }
-
-        // Try generating words with rack + each unique board letter
-        for (const boardLetter of boardLetters) {
-            const extendedRack = [...rack, {
-                id: 'temp-board',
-                letter: boardLetter,
-                score: 1,
-                isBlank: false
-            }];
-            const extendedWords = generateWordsFromRack(extendedRack as Tile[], dawg, 15);
-            allCandidateWords.push(...extendedWords);
-        }
-
-        // Remove duplicates
-        allCandidateWords = Array.from(new Set(allCandidateWords));
-        console.log(`Expanded to ${allCandidateWords.length} candidate words (including board-aware)`);
-    } else if (skipBoardAware) {
-        console.log(`Skipping board-aware expansion - player must start on star independently`);
-    }
-
-    if (allCandidateWords.length === 0) {
-        console.log('No valid words can be formed from rack');
-        return null;
-    }
-
-    // Try to place each word at each anchor
-    const possibleMoves: AiMoveResult[] = [];
-    let bestScore = 0; // For alpha-beta pruning in HARD mode
-
-    for (const word of allCandidateWords) {
-        // Alpha-beta pruning for HARD mode
-        if (difficulty === 'HARD' && possibleMoves.length > 0) {
-            // Estimate max possible score for this word
-            const maxPossible = estimateMaxScore(word, rack);
-            if (maxPossible < bestScore) {
-                continue; // Skip this word, can't beat current best
-            }
-        }
-
-        // Try both horizontal and vertical placements
-        for (const isHorizontal of [true, false]) {
-            for (const anchor of anchors) {
-                // Try different offsets (word can start before, at, or after anchor)
-                for (let offset = 0; offset < word.length; offset++) {
-                    const move = tryPlaceWord(
-                        board,
-                        word,
-                        rack,
-                        anchor.x,
-                        anchor.y,
-                        isHorizontal,
-                        offset,
-                        crossSets,
-                        mustStartOnStar,
-                        currentPlayer
-                    );
-
-                    if (move) {
-                        // Validate the move
-                        const isEmptyBoard = isEmptyBoardCheck(board);
-                        const validation = validateMove(board, move.tiles, isEmptyBoard, currentPlayer, mustStartOnStar);
-
-                        if (validation.isValid && validation.words && validation.words.length > 0) {
-                            // Validate all formed words
-                            const invalidWords = await validateWords(validation.words);
-
-                            if (invalidWords.length === 0) {
-                                const actualScore = calculateScore(board, move.tiles);
-
-                                // Calculate heuristic score for move selection (if enabled)
-                                // This is ONLY used for choosing which move to make
-                                // The actual score awarded is still the real score
-                                let selectionScore = actualScore;
-                                if (useHeuristics) {
-                                    const remainingRack = getRemainingRack(rack, move.tiles);
-                                    selectionScore = calculateHeuristicScore(
-                                        actualScore,
-                                        remainingRack,
-                                        board,
-                                        move.tiles
-                                    );
-
-                                    // Log significant heuristic adjustments
-                                    const adjustment = selectionScore - actualScore;
-                                    if (Math.abs(adjustment) > 5) {
-                                        console.log(`Heuristic adjustment: ${actualScore} → ${selectionScore.toFixed(1)} (${adjustment > 0 ? '+' : ''}${adjustment.toFixed(1)})`);
-                                    }
-                                }
-
-                                possibleMoves.push({
-                                    word: validation.words.join(', '),
-                                    score: actualScore, // ALWAYS use actual score
-                                    tiles: move.tiles,
-                                    selectionScore // Store heuristic score separately for sorting
-                                });
-
-                                // Update best score for alpha-beta pruning (use selection score)
-                                if (selectionScore > bestScore) {
-                                    bestScore = selectionScore;
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-    }
-
-    const elapsed = Date.now() - startTime;
-    console.log(`AI found ${possibleMoves.length} valid moves in ${elapsed}ms`);
-
-    // If no moves found with optimized approach, log for debugging
-    if (possibleMoves.length === 0 && !isEmptyBoardCheck(board)) {
-        console.log('AI found no moves, debugging info:');
-        console.log(`Rack: ${rack.map(t => t.letter).join('')}`);
-        console.log(`Anchors found: ${anchors.length}`);
-        console.log(`Candidate words tried: ${allCandidateWords.length}`);
-    }
-
-    if (possibleMoves.length === 0) {
-        return null;
-    }
-
-    // Shuffle for randomness in ties
-    for (let i = possibleMoves.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [possibleMoves[i], possibleMoves[j]] = [possibleMoves[j], possibleMoves[i]];
-    }
-
-    // Sort by selection score (heuristic-adjusted) if available, otherwise by actual score
-    possibleMoves.sort((a, b) => {
-        const scoreA = a.selectionScore !== undefined ? a.selectionScore : a.score;
-        const scoreB = b.selectionScore !== undefined ? b.selectionScore : b.score;
-        return scoreB - scoreA;
-    });
-
-    // Select based on difficulty
-    let selectedMove: AiMoveResult;
-    if (difficulty === 'HARD') {
-        selectedMove = possibleMoves[0];
-    } else if (difficulty === 'MEDIUM') {
-        const index = Math.floor(Math.random() * Math.ceil(possibleMoves.length / 2));
-        selectedMove = possibleMoves[index];
-    } else {
-        const index = Math.floor(Math.random() * possibleMoves.length);
-        selectedMove = possibleMoves[index];
-    }
-
-    // Log the move if heuristics were used
-    if (useHeuristics && playerName && selectedMove.selectionScore !== undefined) {
-        const remainingRack = getRemainingRack(rack, selectedMove.tiles);
-        const rackLeaveScore = evaluateRackLeave(remainingRack);
-        const boardControlScore = evaluateBoardControl(board, selectedMove.tiles);
-
-        logAiMove(
-            playerName,
-            selectedMove.word,
-            selectedMove.score,
-            selectedMove.selectionScore,
-            rack.map(t => t.letter).join(''),
-            remainingRack.map(t => t.letter).join('')
-        );
-
-        logHeuristicBreakdown(
-            playerName,
-            rackLeaveScore,
-            boardControlScore,
-            selectedMove.selectionScore - selectedMove.score
-        );
-    }
-
-    return selectedMove;
+    const request: AiMoveRequest = {
+        board,
+        rack,
+        personality,
+        useHeuristics,
+        playerName,
+        currentPlayer: currentPlayer && { movesMade: currentPlayer.movesMade },
+        mustStartOnStar,
+        moveGenerator,
+        lexicon,
+        bagSize,
+        challengeRule,
+        seed,
+        unseenTiles,
+        leaveTable,
+        inference,
+    };
+    const timeLimitMs = (personality.simulate ? personality.thinkTimeMs : 0) + AI_MOVE_DEADLINE_MS;
+    const outcome = await runInWorker('MOVE', request, timeLimitMs, searchGroup);
+    if (outcome.complete) rememberLegalPlays(request, outcome.legalPlays);
+    return outcome.move;
 }
 
 /**
- * Find all anchor positions on the board
+ * Whether a player has any legal play, for team resignation checks
+ * Positions an AI has already searched (its own turn, or an earlier check)
+ * are answered from the cache instead of searched again
  */
-function findAnchors(
+export async function canAiPlay(
     board: BoardState,
+    rack: Tile[],
+    currentPlayer?: { movesMade?: number },
     mustStartOnStar?: boolean,
-    currentPlayer?: { movesMade?: number }
-): Array<{ x: number; y: number }> {
-    const anchors: Array<{ x: number; y: number }> = [];
-    const rows = board.length;
-    const cols = board[0]?.length || 0;
-    let isEmptyBoard = true;
-
-    // Check if board has any tiles
-    for (let y = 0; y < rows; y++) {
-        for (let x = 0; x < cols; x++) {
-            if (board[y][x].tile) {
-                isEmptyBoard = false;
-                break;
-            }
-        }
-        if (!isEmptyBoard) break;
-    }
-
-    // Special case: mustStartOnStar rule and player hasn't made first move
-    // Return ONLY unoccupied star tiles, ignore all other anchors
-    if (mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined)) {
-        let totalStars = 0;
-        let occupiedStars = 0;
-
-        for (let y = 0; y < rows; y++) {
-            for (let x = 0; x < cols; x++) {
-                if (board[y][x].bonus === 'START') {
-                    totalStars++;
-                    if (board[y][x].tile) {
-                        occupiedStars++;
-                    } else {
-                        // Only include star tiles that are NOT occupied
-                        anchors.push({ x, y });
-                    }
-                }
-            }
-        }
-        return anchors;
-    }
-
-    // Normal anchor finding logic
-    if (!isEmptyBoard) {
-        for (let y = 0; y < rows; y++) {
-            for (let x = 0; x < cols; x++) {
-                if (board[y][x].tile) {
-                    // Check neighbors for empty squares
-                    const neighbors = [
-                        { x: x + 1, y }, { x: x - 1, y },
-                        { x, y: y + 1 }, { x, y: y - 1 }
-                    ];
-                    for (const n of neighbors) {
-                        if (n.x >= 0 && n.x < cols && n.y >= 0 && n.y < rows && !board[n.y][n.x].tile) {
-                            anchors.push(n);
-                        }
-                    }
-                }
-            }
-        }
-    }
-
-    // If empty board, find all START squares
-    if (isEmptyBoard) {
-        for (let y = 0; y < rows; y++) {
-            for (let x = 0; x < cols; x++) {
-                if (board[y][x].bonus === 'START') {
-                    anchors.push({ x, y });
-                }
-            }
-        }
-        // Fallback to center if no START squares
-        if (anchors.length === 0) {
-            anchors.push({ x: Math.floor(cols / 2), y: Math.floor(rows / 2) });
-        }
-    }
-
-    // Deduplicate
-    const uniqueAnchors = Array.from(new Set(anchors.map(a => `${a.x},${a.y}`)))
-        .map(s => {
-            const [x, y] = s.split(',').map(Number);
-            return { x, y };
-        });
-
-    return uniqueAnchors;
+    moveGenerator: MoveGeneratorType = 'DAWG',
+    lexicon: string = DEFAULT_LEXICON,
+    searchGroup?: string
+): Promise<boolean> {
+    const request: LegalPlaysRequest = {
+        board,
+        rack,
+        currentPlayer: currentPlayer && { movesMade: currentPlayer.movesMade },
+        mustStartOnStar,
+        moveGenerator,
+        lexicon,
+    };
+    const cached = legalPlaysCache.get(legalPlaysKey(request));
+    if (cached !== undefined) return cached > 0;
+
+    const { count, complete } = await runInWorker('LEGAL_PLAYS', request, AI_MOVE_DEADLINE_MS, searchGroup);
+    if (complete) rememberLegalPlays(request, count);
+    return count > 0;
 }
 
 /**
- * Try to place a word at a specific position
+ * The best plays for a human player's rack, for the hint panel
+ * Runs on a move worker like the AI's own searches, within AI_MOVE_DEADLINE_MS
+ * @param rack - The player's whole rack, including tiles placed but not yet played
+ * @param count - Plays to return, best first by score plus leave
  */
-function tryPlaceWord(
+export async function getHints(
     board: BoardState,
-    word: string,
     rack: Tile[],
-    anchorX: number,
-    anchorY: number,
-    isHorizontal: boolean,
-    offset: number,
-    crossSets: Map<string, any>,
+    currentPlayer?: { movesMade?: number },
     mustStartOnStar?: boolean,
-    currentPlayer?: { movesMade?: number }
-): { tiles: PlacedTile[] } | null {
-    const rows = board.length;
-    const cols = board[0]?.length || 0;
-
-    // Calculate start position
-    const startX = isHorizontal ? anchorX - offset : anchorX;
-    const startY = isHorizontal ? anchorY : anchorY - offset;
-
-    // Check bounds
-    if (startX < 0 || startY < 0) return null;
-    if (isHorizontal && startX + word.length > cols) return null;
-    if (!isHorizontal && startY + word.length > rows) return null;
-
-    // Try to place the word
-    const placedTiles: PlacedTile[] = [];
-    const tempRack = [...rack];
-
-    // Check if player must start independently on a star
-    const mustPlaceIndependently = mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined);
-
-    for (let i = 0; i < word.length; i++) {
-        const x = isHorizontal ? startX + i : startX;
-        const y = isHorizontal ? startY : startY + i;
-        const letter = word[i];
-        const boardTile = board[y][x].tile;
-
-        if (boardTile) {
-            // There's already a tile here
-            if (mustPlaceIndependently) {
-                // Player must start independently - cannot use existing tiles
-                return null;
-            }
-            // Must match existing tile
-            if (boardTile.letter !== letter) {
-                return null;
-            }
-        } else {
-            // Check cross-set
-            const validLetters = getCrossSetAt(crossSets, x, y, isHorizontal);
-            if (!validLetters.has(letter)) {
-                return null;
-            }
+    lexicon: string = DEFAULT_LEXICON,
+    leaveTable: string = DEFAULT_LEAVE_TABLE,
+    count: number = HINT_COUNT
+): Promise<Hint[]> {
+    return runInWorker('HINTS', {
+        board,
+        rack,
+        currentPlayer: currentPlayer && { movesMade: currentPlayer.movesMade },
+        mustStartOnStar,
+        moveGenerator: 'DAWG',
+        lexicon,
+        leaveTable,
+        count,
+    }, AI_MOVE_DEADLINE_MS);
+}
 
-            // Need tile from rack
-            const tileIndex = tempRack.findIndex(t => t.letter === letter || t.isBlank);
-            if (tileIndex === -1) {
-                return null;
-            }
+/**
+ * Grade every move of a finished game against the best play of its position
+ * (see analyzeGame); runs on a move worker within ANALYSIS_TIME_BUDGET_MS,
+ * and an analysis cut short by it covers the moves graded so far
+ * @param board - The final board
+ * @param players - Everyone who played, to summarize accuracy for
+ */
+export async function analyzeFinishedGame(
+    board: BoardState,
+    moveHistory: Move[],
+    players: Array<{ id: string; name: string }>,
+    mustStartOnStar?: boolean,
+    lexicon: string = DEFAULT_LEXICON,
+    leaveTable: string = DEFAULT_LEAVE_TABLE,
+    alternatives: number = ANALYSIS_ALTERNATIVES
+): Promise<GameAnalysis> {
+    return runInWorker('ANALYSIS', {
+        board,
+        moveHistory,
+        players: players.map(({ id, name }) => ({ id, name })),
+        mustStartOnStar,
+        lexicon,
+        leaveTable,
+        alternatives,
+    }, ANALYSIS_TIME_BUDGET_MS);
+}
 
-            const tile = tempRack[tileIndex];
-            placedTiles.push({
-                x,
-                y,
-                tile: { ...tile, letter: tile.isBlank ? letter : tile.letter }
-            });
-            tempRack.splice(tileIndex, 1);
-        }
-    }
+/**
+ * Stop a game's AI searches, e.g. when the game is abandoned; running ones
+ * return their best move so far
+ */
+export async function cancelAiSearches(searchGroup: string): Promise<number> {
+    return cancelWorkerJobs(searchGroup);
+}
 
-    return placedTiles.length > 0 ? { tiles: placedTiles } : null;
+/**
+ * Choose an endgame play by searching the rest of the game
+ * Only for two-player games with an empty bag, where the opponent's rack is
+ * exactly the tiles this player cannot see
+ * @returns The play (no tiles to pass) with the line of play behind it
+ */
+export async function solveAiEndgame(
+    board: BoardState,
+    rack: Tile[],
+    opponentRack: Tile[],
+    lexicon: string = DEFAULT_LEXICON,
+    timeBudgetMs: number = ENDGAME_TIME_BUDGET_MS,
+    searchGroup?: string
+): Promise<EndgameSolution> {
+    const solution = await runInWorker('ENDGAME', { board, rack, opponentRack, lexicon, timeBudgetMs }, timeBudgetMs + AI_MOVE_DEADLINE_MS, searchGroup);
+    console.log(`Endgame: ${solution.exact ? 'solved' : `searched ${solution.depth} plies`} in ${solution.elapsedMs}ms (${solution.nodes} nodes), spread ${solution.spread}`);
+    return solution;
 }
 
 /**
- * Check if board is empty
+ * Infer what a player probably kept after their last play
+ * @param unseen - Tiles the inferring player cannot see
+ * @param rackSize - Tiles on the inferred player's rack now
+ * @param leaveTable - Leave table the inferred player is assumed to play by
  */
-function isEmptyBoardCheck(board: BoardState): boolean {
-    for (const row of board) {
-        for (const square of row) {
-            if (square.tile) return false;
-        }
-    }
-    return true;
+export async function inferOpponentRack(
+    board: BoardState,
+    moveHistory: Move[],
+    playerId: string,
+    unseen: Tile[],
+    rackSize: number,
+    lexicon: string = DEFAULT_LEXICON,
+    leaveTable: string = DEFAULT_LEAVE_TABLE,
+    seed?: number,
+    searchGroup?: string
+): Promise<RackInference> {
+    const request = { board, moveHistory, playerId, unseen, rackSize, lexicon, leaveTable, seed };
+    return runInWorker('INFERENCE', request, INFERENCE_TIME_BUDGET_MS + AI_MOVE_DEADLINE_MS, searchGroup);
 }
 
 /**
- * Estimate maximum possible score for a word (for alpha-beta pruning)
+ * Decide whether an AI challenges a pending play
+ * The AI knows the lexicon, so it only challenges invalid words, and does so
+ * with its personality's challenge rate
+ * @returns Whether to challenge, and the invalid words found
  */
-function estimateMaxScore(word: string, rack: Tile[]): number {
-    // Simple heuristic: assume all triple word scores
-    let score = 0;
-    for (const letter of word) {
-        const tile = rack.find(t => t.letter === letter);
-        score += (tile?.score || 1) * 3; // Assume triple letter
-    }
-    return score * 3; // Assume triple word
+export async function decideAiChallenge(
+    words: string[],
+    challengeRate: number,
+    lexicon: string = DEFAULT_LEXICON,
+    seed?: number
+): Promise<{ challenge: boolean; invalidWords: string[] }> {
+    const random = seed === undefined ? Math.random : createRandom(seed).next;
+    const dawg = getLexicon(lexicon, 'DAWG');
+    const invalidWords = words.filter(word => !isValidWord(dawg, word.toUpperCase()));
+    const challenge = invalidWords.length > 0 && random() < challengeRate;
+    return { challenge, invalidWords };
 }
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { GameAnalysis, AnalyzedPlay } from '@/lib/analysis';
+import { Move } from '@/lib/types';
+import { attachAnalysisToLatestLog, downloadLog } from '@/lib/gameLogger';
+import styles from './AnalysisPanel.module.css';
+
+const describePlay = (play: AnalyzedPlay) => `${play.description} ${play.score} (keeps ${play.leave || '—'}, ${play.equity.toFixed(1)})`;
+
+/**
+ * Once the game is over: every move graded against the best play of its
+ * position, with each player's accuracy, for human and AI moves alike
+ */
+export const AnalysisPanel: React.FC = () => {
+    const { gameState, analyzeGame } = useGame();
+    const [analysis, setAnalysis] = useState<{ history: Move[]; result: GameAnalysis } | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!gameState.gameOver) return null;
+
+    // An analysis belongs to the game it was run on
+    const current = analysis?.history === gameState.moveHistory ? analysis.result : null;
+    const names = new Map(gameState.players.map(p => [p.id, p.name]));
+
+    const handleAnalyze = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setAnalysis({ history: gameState.moveHistory, result: await analyzeGame() });
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (!current) return;
+        const log = attachAnalysisToLatestLog(current);
+        if (log) downloadLog(log);
+        else setError('No saved game log to add the analysis to.');
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <button onClick={handleAnalyze} disabled={loading} className={styles.analyzeButton}>
+                    {loading ? 'Analyzing...' : current ? 'Analyze Again' : 'Analyze Game'}
+                </button>
+                {current && (
+                    <button onClick={handleExport} className={styles.actionButton}>Export with Game Log</button>
+                )}
+            </div>
+            {error && <div className={styles.error}>{error}</div>}
+            {current && (
+                <>
+                    {!current.complete && (
+                        <div className={styles.note}>Ran out of time: only the first {current.moves.length} moves were graded.</div>
+                    )}
+                    <table className={styles.summary}>
+                        <thead>
+                            <tr><th>Player</th><th>Best moves</th><th>Accuracy</th><th>Equity lost</th></tr>
+                        </thead>
+                        <tbody>
+                            {current.players.map(player => (
+                                <tr key={player.playerId}>
+                                    <td>{player.name}</td>
+                                    <td>{player.bestMoves}/{player.moves}</td>
+                                    <td>{player.moves > 0 ? `${Math.round(player.accuracy * 100)}%` : '—'}</td>
+                                    <td>{player.equityLost.toFixed(1)}{player.moves > 0 && ` (${(player.equityLost / player.moves).toFixed(1)}/move)`}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <ol className={styles.moves}>
+                        {current.moves.map(move => (
+                            <li key={move.moveIndex} value={move.moveIndex + 1} className={move.equityLost > 0 ? styles.lost : ''}>
+                                <div>
+                                    <span className={styles.player}>{names.get(move.playerId)}</span>{' '}
+                                    {describePlay(move.played)}
+                                    {move.equityLost > 0 && <span className={styles.loss}> −{move.equityLost.toFixed(1)}</span>}
+                                </div>
+                                <details>
+                                    <summary className={styles.alternatives}>
+                                        {move.rank === 1 ? 'Best play' : `Rank ${move.rank} of ${move.legalPlays + 1}`}
+                                    </summary>
+                                    <ol className={styles.bestPlays}>
+                                        {move.best.map(play => <li key={play.description}>{describePlay(play)}</li>)}
+                                    </ol>
+                                </details>
+                            </li>
+                        ))}
+                    </ol>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useGame } from '@/context/GameContext';
+import styles from './BlankPicker.module.css';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+export const BlankPicker: React.FC = () => {
+    const { blankToDesignate, currentMoveTiles, designateBlank, cancelBlankDesignation } = useGame();
+
+    // Type a letter to pick it, Escape to cancel
+    useEffect(() => {
+        if (!blankToDesignate) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                cancelBlankDesignation();
+            } else if (/^[a-zA-Z]$/.test(e.key)) {
+                designateBlank(e.key);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [blankToDesignate, designateBlank, cancelBlankDesignation]);
+
+    if (!blankToDesignate) return null;
+
+    const current = currentMoveTiles.find(t => t.x === blankToDesignate.x && t.y === blankToDesignate.y)?.tile.letterOverride;
+
+    return (
+        <div className={styles.overlay} onClick={cancelBlankDesignation}>
+            <div className={styles.picker} onClick={(e) => e.stopPropagation()}>
+                <h3 className={styles.header}>Choose a letter for the blank</h3>
+                <div className={styles.letters}>
+                    {LETTERS.map(letter => (
+                        <button
+                            key={letter}
+                            onClick={() => designateBlank(letter)}
+                            className={`${styles.letter} ${letter === current ? styles.selected : ''}`}
+                        >
+                            {letter}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={cancelBlankDesignation} className={styles.cancel}>
+                    {current ? 'Keep' : 'Cancel'}
+                </button>
+            </div>
+        </div>
+    );
+};
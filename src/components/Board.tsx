@@ -9,8 +9,11 @@ interface BoardProps {
 }
 
 export const Board: React.FC<BoardProps> = ({ theme = 'classic', showTeamColors = true }) => {
-    const { gameState, currentMoveTiles } = useGame();
-    const { board } = gameState;
+    const { gameState, currentMoveTiles, editBlank, ghostPlay, replay } = useGame();
+    // A replay shows its position alone, with the last move's tiles and words marked
+    const board = replay ? replay.board : gameState.board;
+    const placed = new Set(replay?.placed.map(t => `${t.x},${t.y}`));
+    const formed = new Set(replay?.words.flatMap(w => w.squares.map(s => `${s.x},${s.y}`)));
 
     if (!board || board.length === 0) return <div>Loading Board...</div>;
 
@@ -20,14 +23,20 @@ export const Board: React.FC<BoardProps> = ({ theme = 'classic', showTeamColors
                 {board.map((row, y) => (
                     <div key={y} className={styles.row}>
                         {row.map((square, x) => {
-                            const tempTile = currentMoveTiles.find(t => t.x === x && t.y === y);
-                            const displaySquare = tempTile ? { ...square, tile: tempTile.tile } : square;
+                            const tempTile = replay ? undefined : currentMoveTiles.find(t => t.x === x && t.y === y);
+                            const ghostTile = !replay && !tempTile && !square.tile ? ghostPlay?.find(t => t.x === x && t.y === y) : undefined;
+                            const key = `${x},${y}`;
+                            const shownTile = tempTile || ghostTile;
+                            const displaySquare = shownTile ? { ...square, tile: shownTile.tile } : square;
                             return (
                                 <Square
                                     key={`${x}-${y}`}
                                     square={displaySquare}
                                     players={showTeamColors ? gameState.players : undefined}
                                     gameMode={showTeamColors ? gameState.gameMode : undefined}
+                                    onTileClick={tempTile?.tile.isBlank ? () => editBlank(x, y) : undefined}
+                                    ghost={!!ghostTile}
+                                    highlight={placed.has(key) ? 'placed' : formed.has(key) ? 'word' : undefined}
                                 />
                             );
                         })}
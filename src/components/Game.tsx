@@ -6,31 +6,65 @@ import { Board } from './Board';
 import { Rack } from './Rack';
 import { Tile as DraggableTile } from './Tile';
 import { GameLogs } from './GameLogs';
+import { BlankPicker } from './BlankPicker';
+import { OpponentRack } from './OpponentRack';
+import { HintPanel } from './HintPanel';
+import { AnalysisPanel } from './AnalysisPanel';
+import { ReplayViewer } from './ReplayViewer';
+import { GameRecord } from './GameRecord';
+import { SavedGames } from './SavedGames';
+import { OnlinePanel } from './OnlinePanel';
+import { HandoffScreen } from './HandoffScreen';
+import { PersonalityEditor, presetLabel } from './PersonalityEditor';
 import { useGame } from '@/context/GameContext';
-import { BoardVariant } from '@/lib/constants';
-import { Tile } from '@/lib/types';
+import { BoardVariant, DEFAULT_LEXICON, CHALLENGE_PENALTY_POINTS, DEFAULT_LEAVE_TABLE, NO_LEAVE_TABLE, AI_DIFFICULTIES, AI_PERSONALITIES, MIN_SEATS, MAX_SEATS } from '@/lib/constants';
+import { Tile, MoveGeneratorType, LexiconInfo, ChallengeRule, AiPersonality, SeatConfig } from '@/lib/types';
+import { listLexicons, listLeaveTables, listPersonalityPresets } from '@/app/actions';
+import { parseSeed } from '@/lib/random';
 import { getPlayerColor } from '@/lib/teamColors';
 import styles from './Game.module.css';
 
+const leaveTableLabel = (name: string) => name === NO_LEAVE_TABLE ? 'None (score only)' : name;
+
 export const Game: React.FC = () => {
-    const { placeTile, submitTurn, recallAll, shuffleRack, passTurn, resignTurn, gameState, message, startGame, movePreview } = useGame();
+    const { placeTile, submitTurn, recallAll, shuffleRack, passTurn, resignTurn, challengePlay, acceptPlay, gameState, message, endgamePlan, startGame, movePreview, replay, localPlayerId } = useGame();
     const currentPlayer = gameState.players[gameState.currentPlayerIndex];
     const [selectedVariant, setSelectedVariant] = useState<BoardVariant>('STANDARD');
-    const [difficulty, setDifficulty] = useState<'EASY' | 'MEDIUM' | 'HARD'>('MEDIUM');
-    const [mode, setMode] = useState<'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS'>('HUMAN_VS_AI');
-    const [aiDifficulty2, setAiDifficulty2] = useState<'EASY' | 'MEDIUM' | 'HARD'>('HARD');
+    const [personality, setPersonality] = useState<AiPersonality>(AI_PERSONALITIES.MEDIUM);
+    const [mode, setMode] = useState<'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS' | 'HOT_SEAT'>('HUMAN_VS_AI');
+    const [personality2, setPersonality2] = useState<AiPersonality>(AI_PERSONALITIES.HARD);
+    const [presets, setPresets] = useState<AiPersonality[]>(AI_DIFFICULTIES.map(d => AI_PERSONALITIES[d]));
+    const [moveGenerator, setMoveGenerator] = useState<MoveGeneratorType>('DAWG');
+    const [moveGenerator2, setMoveGenerator2] = useState<MoveGeneratorType>('DAWG');
+    const [lexicon, setLexicon] = useState(DEFAULT_LEXICON);
+    const [lexicons, setLexicons] = useState<LexiconInfo[]>([]);
+    const [challengeRule, setChallengeRule] = useState<ChallengeRule>('VOID');
+    const [seedText, setSeedText] = useState(''); // Empty for a random seed
+    const [leaveTables, setLeaveTables] = useState<string[]>([]);
+    const [leaveTable, setLeaveTable] = useState(DEFAULT_LEAVE_TABLE);
+    const [leaveTable2, setLeaveTable2] = useState(DEFAULT_LEAVE_TABLE);
     const [theme, setTheme] = useState<'classic' | 'theme1' | 'theme2'>('classic');
     const [showTeamColors, setShowTeamColors] = useState(true); // Toggle for team tile colors
     const [mustStartOnStar, setMustStartOnStar] = useState(false); // Mega Board rule: first move must be on star
+    const [hintsAllowed, setHintsAllowed] = useState(true); // Off for competitive games
 
-    // 4x4 Team AI Configuration (8 AIs total)
+    // 4x4 Team Configuration (8 seats, AI unless a human takes them), in turn order: Red 1, Blue 1, Red 2...
     const [teamAiConfigs, setTeamAiConfigs] = useState<Array<{
-        difficulty: 'EASY' | 'MEDIUM' | 'HARD';
+        personality: AiPersonality;
         useHeuristics: boolean;
+        moveGenerator: MoveGeneratorType;
+        leaveTable: string;
+        isHuman?: boolean;
     }>>(
-        Array(8).fill({ difficulty: 'HARD', useHeuristics: false })
+        Array(8).fill({ personality: AI_PERSONALITIES.HARD, useHeuristics: false, moveGenerator: 'DAWG', leaveTable: DEFAULT_LEAVE_TABLE })
     );
 
+    // Hot-seat players in turn order; AI seats play with the AI settings
+    const [hotSeats, setHotSeats] = useState<SeatConfig[]>([
+        { name: 'Player 1', isAi: false },
+        { name: 'Player 2', isAi: false },
+    ]);
+
     // Pan/Zoom State
     const [scale, setScale] = useState(selectedVariant === 'MEGA' ? 0.33 : 1);
     const [position, setPosition] = useState({ x: 0, y: 0 });
@@ -39,6 +73,38 @@ export const Game: React.FC = () => {
 
     const isAiVsAi = mode === 'AI_VS_AI';
     const isTeams = mode === 'TEAMS';
+    const isHotSeat = mode === 'HOT_SEAT';
+
+    const updateHotSeat = (index: number, seat: SeatConfig) => {
+        setHotSeats(hotSeats.map((s, i) => i === index ? seat : s));
+    };
+
+    const handleStart = () => {
+        const seats = isHotSeat
+            ? hotSeats.map((seat, i) => ({
+                ...seat,
+                name: seat.name.trim() || `Player ${i + 1}`,
+                ...(seat.isAi ? { personality, moveGenerator, leaveTable } : {}),
+            }))
+            : undefined;
+        startGame({
+            variant: selectedVariant,
+            mode,
+            personality,
+            personality2,
+            moveGenerator,
+            moveGenerator2,
+            teamAiConfigs,
+            mustStartOnStar,
+            lexicon,
+            challengeRule,
+            seed: seed ?? undefined,
+            leaveTable,
+            leaveTable2,
+            hintsAllowed,
+            seats,
+        });
+    };
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
     useEffect(() => {
@@ -50,6 +116,23 @@ export const Game: React.FC = () => {
         setPosition({ x: 0, y: 0 });
     }, [selectedVariant]);
 
+    useEffect(() => {
+        listLexicons().then(setLexicons).catch(error => console.error('Failed to list lexicons:', error));
+        listLeaveTables().then(setLeaveTables).catch(error => console.error('Failed to list leave tables:', error));
+        listPersonalityPresets().then(setPresets).catch(error => console.error('Failed to list personalities:', error));
+    }, []);
+
+    const pendingMove = gameState.pendingMove;
+    const pendingMover = pendingMove ? gameState.players.find(p => p.id === pendingMove.playerId) : undefined;
+    const canRespondToPending = !!pendingMove && !!currentPlayer && !currentPlayer.isAi && !gameState.gameOver
+        && pendingMove.playerId !== currentPlayer.id && currentPlayer.id === localPlayerId;
+
+    const seed = parseSeed(seedText);
+    const seedInvalid = seedText.trim() !== '' && seed === null;
+
+    const selectedLexicon = lexicons.find(l => l.id === lexicon);
+    const lexiconUnavailable = selectedLexicon !== undefined && !selectedLexicon.available;
+
     const cycleTheme = () => {
         setTheme(prev => {
             if (prev === 'classic') return 'theme1';
@@ -98,6 +181,8 @@ export const Game: React.FC = () => {
 
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
+        // The board shows a past position while replaying
+        if (replay) return;
 
         if (over && over.id.toString().startsWith('cell-')) {
             const [x, y] = over.id.toString().split('-').slice(1).map(Number);
@@ -122,11 +207,7 @@ export const Game: React.FC = () => {
     };
 
     const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        setMode(e.target.value as 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS');
-    };
-
-    const handleDifficultyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        setDifficulty(e.target.value as 'EASY' | 'MEDIUM' | 'HARD');
+        setMode(e.target.value as 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS' | 'HOT_SEAT');
     };
 
     return (
@@ -144,6 +225,7 @@ export const Game: React.FC = () => {
                 </div>
 
                 {message && <div className={styles.message}>{message}</div>}
+                {endgamePlan && <div className={styles.endgamePlan}>{endgamePlan}</div>}
 
                 <div className={styles.mainContent}>
                     <div className={`${styles.boardSection} ${isFullScreen ? styles.fullScreen : ''}`}>
@@ -196,7 +278,7 @@ export const Game: React.FC = () => {
                                             <div className={styles.miniRack}>
                                                 {player.rack.map((tile, i) => (
                                                     <span key={i} className={styles.miniTile}>
-                                                        {gameState.gameMode === 'HUMAN_VS_AI' ? '◼' : tile.letter}
+                                                        {gameState.players.some(p => !p.isAi) ? '◼' : tile.letter}
                                                     </span>
                                                 ))}
                                             </div>
@@ -217,11 +299,44 @@ export const Game: React.FC = () => {
                             <div className={styles.turnIndicator}>
                                 Tiles left: {gameState.bag.length}
                             </div>
+                            {gameState.finalTally && (
+                                <div className={styles.finalTally}>
+                                    <h3>Final Tally</h3>
+                                    {gameState.players.map(player => {
+                                        const adjustment = gameState.finalTally!.scoreAdjustments[player.id] || 0;
+                                        return (
+                                            <div key={player.id}>
+                                                {player.name}: {adjustment > 0 ? '+' : ''}{adjustment}
+                                                {player.id === gameState.finalTally!.wentOutPlayerId
+                                                    ? ' (went out)'
+                                                    : ` (tiles left: ${gameState.finalTally!.rackPenalties[player.id] || 0})`}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
                         </div>
-                        {/* Rack - Only show if not in AI-only modes */}
-                        {mode !== 'AI_VS_AI' && mode !== 'TEAMS' && (
-                            <Rack showTeamColors={showTeamColors} />
+                        {pendingMove && !gameState.gameOver && (
+                            <div className={styles.pendingPlay}>
+                                <div className={styles.previewHeader}>
+                                    {pendingMover?.name} played {pendingMove.word} for {pendingMove.score}
+                                </div>
+                                {canRespondToPending ? (
+                                    <div className={styles.pendingActions}>
+                                        <button onClick={() => challengePlay()} className={`${styles.button} ${styles.resignBtn}`}>Challenge</button>
+                                        <button onClick={() => acceptPlay()} className={styles.button}>Accept</button>
+                                    </div>
+                                ) : (
+                                    <div className={styles.previewWords}>Waiting for the next player to accept or challenge</div>
+                                )}
+                            </div>
                         )}
+                        <OpponentRack />
+                        {/* Rack of the player at this screen; none in AI-only games */}
+                        <Rack showTeamColors={showTeamColors} />
+                        <HintPanel />
+                        <AnalysisPanel />
+                        <ReplayViewer />
                         {movePreview && (
                             <div className={`${styles.preview} ${movePreview.isValid ? styles.previewValid : styles.previewInvalid}`}>
                                 <div className={styles.previewHeader}>
@@ -270,34 +385,179 @@ export const Game: React.FC = () => {
                                 <select className={styles.select} value={mode} onChange={handleModeChange}>
                                     <option value="HUMAN_VS_AI">Human vs AI</option>
                                     <option value="AI_VS_AI">AI vs AI</option>
-                                    {selectedVariant === 'MEGA' && <option value="TEAMS">Teams (8 AIs)</option>}
+                                    <option value="HOT_SEAT">Hot Seat ({MIN_SEATS}-{MAX_SEATS} players, one screen)</option>
+                                    {selectedVariant === 'MEGA' && <option value="TEAMS">Teams (8 seats)</option>}
+                                </select>
+                            </div>
+
+                            <div className={styles.settingGroup}>
+                                <label className={styles.settingLabel}>Lexicon</label>
+                                <select value={lexicon} onChange={(e) => setLexicon(e.target.value)} className={styles.select}>
+                                    {lexicons.length === 0 && <option value={lexicon}>{lexicon}</option>}
+                                    {lexicons.map(l => (
+                                        <option key={l.id} value={l.id} title={l.error || l.description}>
+                                            {l.name}{l.available ? '' : ' (not installed)'}
+                                        </option>
+                                    ))}
                                 </select>
+                                {lexiconUnavailable && (
+                                    <div className={styles.previewError}>{selectedLexicon.error}</div>
+                                )}
                             </div>
 
                             <div className={styles.settingGroup}>
-                                <label className={styles.settingLabel}>AI Difficulty</label>
-                                <select value={difficulty} onChange={handleDifficultyChange} className={styles.select}>
-                                    <option value="EASY">Easy</option>
-                                    <option value="MEDIUM">Medium</option>
-                                    <option value="HARD">Hard</option>
+                                <label className={styles.settingLabel}>Challenge Rule</label>
+                                <select value={challengeRule} onChange={(e) => setChallengeRule(e.target.value as ChallengeRule)} className={styles.select}>
+                                    <option value="VOID">Void (words checked on play)</option>
+                                    <option value="SINGLE">Single (failed challenge: -{CHALLENGE_PENALTY_POINTS} pts)</option>
+                                    <option value="DOUBLE">Double (failed challenge loses turn)</option>
                                 </select>
                             </div>
 
+                            <div className={styles.settingGroup}>
+                                <label className={styles.settingLabel}>Seed</label>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={seedText}
+                                    onChange={(e) => setSeedText(e.target.value)}
+                                    placeholder="Random"
+                                    className={styles.select}
+                                    title="Same seed and AI settings replay the same game"
+                                />
+                                {seedInvalid && (
+                                    <div className={styles.previewError}>Seed must be a whole number from 0 to 4294967295</div>
+                                )}
+                            </div>
+
+                            <PersonalityEditor
+                                label={isAiVsAi ? 'AI 1' : 'AI'}
+                                personality={personality}
+                                presets={presets}
+                                onChange={setPersonality}
+                                onPresetsChange={setPresets}
+                                selectClassName={styles.select}
+                            />
+
+                            {!isTeams && (
+                                <div className={styles.settingGroup}>
+                                    <label className={styles.settingLabel}>{isAiVsAi ? 'AI 1 Move Generator' : 'AI Move Generator'}</label>
+                                    <select
+                                        value={moveGenerator}
+                                        onChange={(e) => setMoveGenerator(e.target.value as MoveGeneratorType)}
+                                        className={styles.select}
+                                    >
+                                        <option value="DAWG">DAWG</option>
+                                        <option value="GADDAG">GADDAG</option>
+                                    </select>
+                                </div>
+                            )}
+
+                            {!isTeams && leaveTables.length > 1 && (
+                                <div className={styles.settingGroup}>
+                                    <label className={styles.settingLabel}>{isAiVsAi ? 'AI 1 Leave Values' : 'AI Leave Values'}</label>
+                                    <select value={leaveTable} onChange={(e) => setLeaveTable(e.target.value)} className={styles.select}>
+                                        {leaveTables.map(name => (
+                                            <option key={name} value={name}>{leaveTableLabel(name)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            {isAiVsAi && (
+                                <PersonalityEditor
+                                    label="AI 2"
+                                    personality={personality2}
+                                    presets={presets}
+                                    onChange={setPersonality2}
+                                    onPresetsChange={setPresets}
+                                    selectClassName={styles.select}
+                                />
+                            )}
+
                             {isAiVsAi && (
                                 <div className={styles.settingGroup}>
-                                    <label className={styles.settingLabel}>AI 2 Difficulty</label>
+                                    <label className={styles.settingLabel}>AI 2 Move Generator</label>
                                     <select
-                                        value={aiDifficulty2}
-                                        onChange={(e) => setAiDifficulty2(e.target.value as 'EASY' | 'MEDIUM' | 'HARD')}
+                                        value={moveGenerator2}
+                                        onChange={(e) => setMoveGenerator2(e.target.value as MoveGeneratorType)}
                                         className={styles.select}
                                     >
-                                        <option value="EASY">Easy</option>
-                                        <option value="MEDIUM">Medium</option>
-                                        <option value="HARD">Hard</option>
+                                        <option value="DAWG">DAWG</option>
+                                        <option value="GADDAG">GADDAG</option>
+                                    </select>
+                                </div>
+                            )}
+
+                            {isAiVsAi && leaveTables.length > 1 && (
+                                <div className={styles.settingGroup}>
+                                    <label className={styles.settingLabel}>AI 2 Leave Values</label>
+                                    <select value={leaveTable2} onChange={(e) => setLeaveTable2(e.target.value)} className={styles.select}>
+                                        {leaveTables.map(name => (
+                                            <option key={name} value={name}>{leaveTableLabel(name)}</option>
+                                        ))}
                                     </select>
                                 </div>
                             )}
 
+                            {isHotSeat && (
+                                <>
+                                    <h3 className={styles.settingsHeader}>Players</h3>
+                                    {hotSeats.map((seat, i) => (
+                                        <div key={i} className={styles.aiConfigRow}>
+                                            <span>{i + 1}:</span>
+                                            <input
+                                                type="text"
+                                                value={seat.name}
+                                                onChange={(e) => updateHotSeat(i, { ...seat, name: e.target.value })}
+                                                placeholder={`Player ${i + 1}`}
+                                                maxLength={20}
+                                                className={styles.selectSmall}
+                                            />
+                                            <select
+                                                value={seat.isAi ? 'AI' : 'HUMAN'}
+                                                onChange={(e) => updateHotSeat(i, { ...seat, isAi: e.target.value === 'AI' })}
+                                                className={styles.selectSmall}
+                                                title="AI seats play with the AI settings above"
+                                            >
+                                                <option value="HUMAN">Human</option>
+                                                <option value="AI">AI</option>
+                                            </select>
+                                            {hotSeats.length > MIN_SEATS && (
+                                                <button
+                                                    onClick={() => setHotSeats(hotSeats.filter((_, j) => j !== i))}
+                                                    className={styles.selectSmall}
+                                                    title="Remove player"
+                                                >
+                                                    ✕
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {hotSeats.length < MAX_SEATS && (
+                                        <button
+                                            onClick={() => setHotSeats([...hotSeats, { name: `Player ${hotSeats.length + 1}`, isAi: false }])}
+                                            className={styles.selectSmall}
+                                        >
+                                            + Add Player
+                                        </button>
+                                    )}
+                                </>
+                            )}
+
+                            {!isAiVsAi && (
+                                <div className={styles.settingGroup}>
+                                    <label className={styles.teamColorToggle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={hintsAllowed}
+                                            onChange={(e) => setHintsAllowed(e.target.checked)}
+                                        />
+                                        Allow hints (best moves)
+                                    </label>
+                                </div>
+                            )}
+
                             {/* Mega Board Options */}
                             {selectedVariant === 'MEGA' && (
                                 <div className={styles.settingGroup}>
@@ -333,42 +593,97 @@ export const Game: React.FC = () => {
                                             <div key={team} className={styles.teamColumn}>
                                                 <h4 style={{ color: team === 'Red' ? '#e74c3c' : '#3498db' }}>{team} Team</h4>
                                                 {[1, 2, 3, 4].map((aiNum) => {
-                                                    const configIdx = teamIdx * 4 + (aiNum - 1);
+                                                    const configIdx = (aiNum - 1) * 2 + teamIdx;
                                                     const config = teamAiConfigs[configIdx];
                                                     return (
                                                         <div key={aiNum} className={styles.aiConfigRow}>
-                                                            <span>AI {aiNum}:</span>
-                                                            <select
-                                                                value={config.difficulty}
-                                                                onChange={(e) => {
-                                                                    const newConfigs = [...teamAiConfigs];
-                                                                    newConfigs[configIdx] = {
-                                                                        ...config,
-                                                                        difficulty: e.target.value as 'EASY' | 'MEDIUM' | 'HARD'
-                                                                    };
-                                                                    setTeamAiConfigs(newConfigs);
-                                                                }}
-                                                                className={styles.selectSmall}
-                                                            >
-                                                                <option value="EASY">Easy</option>
-                                                                <option value="MEDIUM">Medium</option>
-                                                                <option value="HARD">Hard</option>
-                                                            </select>
+                                                            <span>{config.isHuman ? 'Player' : 'AI'} {aiNum}:</span>
                                                             <label className={styles.checkboxLabel}>
                                                                 <input
                                                                     type="checkbox"
-                                                                    checked={config.useHeuristics}
+                                                                    checked={!!config.isHuman}
                                                                     onChange={(e) => {
                                                                         const newConfigs = [...teamAiConfigs];
                                                                         newConfigs[configIdx] = {
                                                                             ...config,
-                                                                            useHeuristics: e.target.checked
+                                                                            isHuman: e.target.checked
                                                                         };
                                                                         setTeamAiConfigs(newConfigs);
                                                                     }}
                                                                 />
-                                                                Strategic
+                                                                Human
                                                             </label>
+                                                            {!config.isHuman && (
+                                                                <>
+                                                                    <select
+                                                                        value={config.personality.name}
+                                                                        onChange={(e) => {
+                                                                            const newConfigs = [...teamAiConfigs];
+                                                                            newConfigs[configIdx] = {
+                                                                                ...config,
+                                                                                personality: presets.find(p => p.name === e.target.value) || config.personality
+                                                                            };
+                                                                            setTeamAiConfigs(newConfigs);
+                                                                        }}
+                                                                        className={styles.selectSmall}
+                                                                        title="Personality"
+                                                                    >
+                                                                        {presets.map(p => (
+                                                                            <option key={p.name} value={p.name}>{presetLabel(p.name)}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <label className={styles.checkboxLabel}>
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={config.useHeuristics}
+                                                                            onChange={(e) => {
+                                                                                const newConfigs = [...teamAiConfigs];
+                                                                                newConfigs[configIdx] = {
+                                                                                    ...config,
+                                                                                    useHeuristics: e.target.checked
+                                                                                };
+                                                                                setTeamAiConfigs(newConfigs);
+                                                                            }}
+                                                                        />
+                                                                        Strategic
+                                                                    </label>
+                                                                    <select
+                                                                        value={config.moveGenerator}
+                                                                        onChange={(e) => {
+                                                                            const newConfigs = [...teamAiConfigs];
+                                                                            newConfigs[configIdx] = {
+                                                                                ...config,
+                                                                                moveGenerator: e.target.value as MoveGeneratorType
+                                                                            };
+                                                                            setTeamAiConfigs(newConfigs);
+                                                                        }}
+                                                                        className={styles.selectSmall}
+                                                                        title="Move generator"
+                                                                    >
+                                                                        <option value="DAWG">DAWG</option>
+                                                                        <option value="GADDAG">GADDAG</option>
+                                                                    </select>
+                                                                    {leaveTables.length > 1 && (
+                                                                        <select
+                                                                            value={config.leaveTable}
+                                                                            onChange={(e) => {
+                                                                                const newConfigs = [...teamAiConfigs];
+                                                                                newConfigs[configIdx] = {
+                                                                                    ...config,
+                                                                                    leaveTable: e.target.value
+                                                                                };
+                                                                                setTeamAiConfigs(newConfigs);
+                                                                            }}
+                                                                            className={styles.selectSmall}
+                                                                            title="Leave values"
+                                                                        >
+                                                                            {leaveTables.map(name => (
+                                                                                <option key={name} value={name}>{leaveTableLabel(name)}</option>
+                                                                            ))}
+                                                                        </select>
+                                                                    )}
+                                                                </>
+                                                            )}
                                                         </div>
                                                     );
                                                 })}
@@ -379,21 +694,35 @@ export const Game: React.FC = () => {
                             )}
 
                             <button
-                                onClick={() => startGame(selectedVariant, difficulty, mode, aiDifficulty2, teamAiConfigs, mustStartOnStar)}
+                                onClick={handleStart}
                                 className={`${styles.button} ${styles.newGameBtn}`}
+                                disabled={lexiconUnavailable || seedInvalid}
                             >
-                                {isTeams && selectedVariant === 'MEGA' ? 'Start 4x4 AI Battle' : 'New Game'}
+                                {isTeams && selectedVariant === 'MEGA'
+                                    ? (teamAiConfigs.some(c => c.isHuman) ? 'Start 4x4 Team Game' : 'Start 4x4 AI Battle')
+                                    : 'New Game'}
                             </button>
                         </div>
 
                         <div className={styles.gameInfo}>
                             <div>Tiles Left: {gameState.bag.length}</div>
+                            <div>Lexicon: {gameState.lexicon || DEFAULT_LEXICON}</div>
+                            <div>Challenge Rule: {gameState.challengeRule || 'VOID'}</div>
+                            {gameState.seed !== undefined && <div>Seed: {gameState.seed}</div>}
                         </div>
+                        <OnlinePanel
+                            settings={{ variant: selectedVariant, lexicon, challengeRule, aiPersonality: personality }}
+                            disabled={lexiconUnavailable}
+                        />
+                        <GameRecord />
+                        <SavedGames />
                     </div>
                 </div>
             </div>
 
             <GameLogs />
+            <BlankPicker />
+            <HandoffScreen />
         </DndContext>
     );
 };
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { exportGcg } from '@/lib/gcg';
+import styles from './GameRecord.module.css';
+
+/**
+ * Save the current game as a GCG record, or load one to replay, analyze or
+ * play on
+ */
+export const GameRecord: React.FC = () => {
+    const { gameState, importGame } = useGame();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = () => {
+        const blob = new Blob([exportGcg(gameState)], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `game-${gameState.seed ?? Date.now()}.gcg`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // The same file can be picked again
+        if (!file) return;
+
+        setError(null);
+        try {
+            importGame(await file.text());
+        } catch (error) {
+            setError((error as Error).message);
+        }
+    };
+
+    return (
+        <div className={styles.record}>
+            <div className={styles.buttons}>
+                <button onClick={handleExport} disabled={gameState.players.length === 0} className={styles.button}>
+                    Export GCG
+                </button>
+                <button onClick={() => fileInput.current?.click()} className={styles.button}>
+                    Import GCG
+                </button>
+                <input ref={fileInput} type="file" accept=".gcg,text/plain" onChange={handleImport} className={styles.fileInput} />
+            </div>
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+};
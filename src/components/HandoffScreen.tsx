@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { useGame } from '@/context/GameContext';
+import styles from './HandoffScreen.module.css';
+
+/**
+ * Covers the game between the turns of players sharing one screen, so no one
+ * sees a rack that is not theirs; the player handed the screen uncovers it
+ */
+export const HandoffScreen: React.FC = () => {
+    const { gameState, handoffTo, takeDevice, message } = useGame();
+
+    const player = gameState.players.find(p => p.id === handoffTo);
+    if (!player) return null;
+
+    return (
+        <div className={styles.overlay}>
+            <div className={styles.card}>
+                {message && <div className={styles.lastMove}>{message}</div>}
+                <h2 className={styles.header}>Pass the device to {player.name}</h2>
+                <p className={styles.note}>Everyone else, look away while {player.name} plays.</p>
+                <button onClick={takeDevice} className={styles.ready}>
+                    I&apos;m {player.name}: show my tiles
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { Hint } from '@/lib/hints';
+import styles from './HintPanel.module.css';
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+/**
+ * The best plays for the human player's rack, on request; each request
+ * counts as a hint. A play can be shown faintly on the board or placed as
+ * this turn's tiles.
+ */
+export const HintPanel: React.FC = () => {
+    const { gameState, requestHints, ghostPlay, showGhostPlay, loadPlay } = useGame();
+    const [hints, setHints] = useState<{ turn: string; plays: Hint[] } | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const player = gameState.players[gameState.currentPlayerIndex];
+    if (gameState.hintsAllowed === false || !player || player.isAi || gameState.gameOver) return null;
+
+    // Suggestions are only good until the next move, and only for the player
+    // who asked: a play left open to challenge does not grow the history, and
+    // at a shared screen the next player must not see the last one's leaves
+    const turn = `${player.id}:${gameState.moveHistory.length}:${gameState.pendingMove ? 'pending' : ''}`;
+    const current = hints?.turn === turn ? hints.plays : null;
+
+    const handleHint = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setHints({ turn, plays: await requestHints() });
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className={styles.panel}>
+            <button onClick={handleHint} disabled={loading} className={styles.hintButton}>
+                {loading ? 'Searching...' : 'Show Best Moves'}
+            </button>
+            {!!player.hintsUsed && (
+                <span className={styles.count}>{player.hintsUsed} hint{player.hintsUsed === 1 ? '' : 's'} used</span>
+            )}
+            {error && <div className={styles.error}>{error}</div>}
+            {current && current.length === 0 && (
+                <div className={styles.note}>No play fits this rack: pass or exchange.</div>
+            )}
+            {current && current.length > 0 && (
+                <ol className={styles.plays}>
+                    {current.map(hint => {
+                        const shown = ghostPlay === hint.tiles;
+                        return (
+                            <li key={`${hint.position}-${hint.word}`} className={shown ? styles.shown : ''}>
+                                <div>
+                                    <span className={styles.position}>{hint.position}</span>{' '}
+                                    <span className={styles.word}>{hint.word}</span> {hint.score}
+                                </div>
+                                <div className={styles.leave}>
+                                    keeps {hint.leave || '—'} ({signed(hint.leaveValue)})
+                                </div>
+                                <div className={styles.actions}>
+                                    <button onClick={() => showGhostPlay(shown ? null : hint.tiles)} className={styles.actionButton}>
+                                        {shown ? 'Hide' : 'Show'}
+                                    </button>
+                                    <button onClick={() => loadPlay(hint.tiles)} className={styles.actionButton}>Place</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { OnlineSettings } from '@/lib/types';
+import { MIN_SEATS, MAX_SEATS } from '@/lib/constants';
+import styles from './OnlinePanel.module.css';
+
+interface OnlinePanelProps {
+    settings: Omit<OnlineSettings, 'seats'>;  // The game settings chosen below, for a room created here
+    disabled?: boolean;                       // The settings cannot start a game
+}
+
+const STATUS_LABELS = {
+    CONNECTING: 'Connecting…',
+    OPEN: 'Connected',
+    RECONNECTING: 'Connection lost, reconnecting…',
+    CLOSED: 'Disconnected',
+};
+
+const SEAT_COUNTS = Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_, i) => MIN_SEATS + i);
+
+/**
+ * Play people on other screens: create a room and share its code, or join
+ * one by code. Seats nobody takes are played by AIs.
+ */
+export const OnlinePanel: React.FC<OnlinePanelProps> = ({ settings, disabled = false }) => {
+    const { online, createRoom, joinRoom, startOnlineGame, leaveOnlineGame } = useGame();
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [seats, setSeats] = useState(2);
+    const [code, setCode] = useState('');
+
+    const playerName = name.trim() || 'Player';
+    const room = online?.room;
+    const mySeat = room?.seats.find(seat => seat.playerId === online?.playerId);
+
+    return (
+        <div className={styles.onlinePanel}>
+            <button onClick={() => setIsOpen(!isOpen)} className={styles.toggle}>
+                {isOpen ? '▾' : '▸'} Play Online{online ? ` (${room ? room.code : '…'})` : ''}
+            </button>
+            {isOpen && !online && (
+                <div className={styles.body}>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Your name"
+                        maxLength={20}
+                        className={styles.input}
+                    />
+                    <div className={styles.row}>
+                        <select value={seats} onChange={(e) => setSeats(Number(e.target.value))} className={styles.input} title="Players, humans and AIs">
+                            {SEAT_COUNTS.map(n => <option key={n} value={n}>{n} players</option>)}
+                        </select>
+                        <button
+                            onClick={() => createRoom(playerName, { ...settings, seats })}
+                            className={styles.button}
+                            disabled={disabled}
+                            title="Uses the board, lexicon, challenge rule and AI chosen below; the server picks the seed"
+                        >
+                            Create Room
+                        </button>
+                    </div>
+                    <div className={styles.row}>
+                        <input
+                            type="text"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value.toUpperCase())}
+                            placeholder="Room code"
+                            maxLength={4}
+                            className={styles.input}
+                        />
+                        <button onClick={() => joinRoom(code, playerName)} className={styles.button} disabled={code.trim().length === 0}>
+                            Join
+                        </button>
+                    </div>
+                </div>
+            )}
+            {isOpen && online && (
+                <div className={styles.body}>
+                    <div className={online.status === 'OPEN' ? styles.status : styles.statusDown}>
+                        {STATUS_LABELS[online.status]}
+                    </div>
+                    {room && (
+                        <>
+                            <div className={styles.code}>Room {room.code}</div>
+                            <ul className={styles.seats}>
+                                {room.seats.map(seat => (
+                                    <li key={seat.playerId} className={seat === mySeat ? styles.mySeat : ''}>
+                                        {seat.name ?? (room.started ? 'AI' : 'Open seat')}
+                                        {seat.host && ' (host)'}
+                                        {seat.name && !seat.isAi && !seat.connected && ' — disconnected'}
+                                        {seat.isAi && seat.name && ' — AI'}
+                                    </li>
+                                ))}
+                            </ul>
+                            {!room.started && (
+                                <div className={styles.details}>
+                                    {mySeat?.host ? 'Share the code; open seats are played by AIs once you start.' : 'Waiting for the host to start.'}
+                                </div>
+                            )}
+                        </>
+                    )}
+                    <div className={styles.row}>
+                        {room && !room.started && mySeat?.host && (
+                            <button onClick={startOnlineGame} className={styles.button}>Start</button>
+                        )}
+                        <button onClick={leaveOnlineGame} className={styles.button}>Leave</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
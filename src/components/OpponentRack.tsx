@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { inferOpponentRack } from '@/app/ai-actions';
+import { getUnseenTiles } from '@/lib/gameEngine';
+import { RackInference } from '@/lib/rack-inference';
+import styles from './OpponentRack.module.css';
+
+const SHOWN_LEAVES = 5;
+const SHOWN_LETTERS = 8;
+
+const percent = (probability: number) => `${Math.round(probability * 100)}%`;
+
+/**
+ * What the AI opponent probably kept after their last play, read from the
+ * play they chose (Human vs AI only)
+ */
+export const OpponentRack: React.FC = () => {
+    const { gameState } = useGame();
+    const [inference, setInference] = useState<{ turn: number; result: RackInference } | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const viewer = gameState.players.find(p => !p.isAi);
+    const opponent = gameState.players.find(p => p.isAi);
+    if (gameState.gameMode !== 'HUMAN_VS_AI' || !viewer || !opponent || gameState.gameOver) return null;
+
+    // A guess is only good until the next move
+    const turn = gameState.moveHistory.length;
+    const current = inference?.turn === turn ? inference.result : null;
+
+    const handleInfer = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const result = await inferOpponentRack(
+                gameState.board,
+                gameState.moveHistory,
+                opponent.id,
+                getUnseenTiles(gameState, viewer.id),
+                opponent.rack.length,
+                gameState.lexicon,
+                opponent.leaveTable
+            );
+            setInference({ turn, result });
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const letters = current
+        ? Object.entries(current.letters).sort((a, b) => b[1] - a[1]).slice(0, SHOWN_LETTERS)
+        : [];
+
+    return (
+        <div className={styles.panel}>
+            <button onClick={handleInfer} disabled={loading} className={styles.inferButton}>
+                {loading ? 'Reading...' : `Guess ${opponent.name}'s Rack`}
+            </button>
+            {error && <div className={styles.error}>{error}</div>}
+            {current && !current.move && (
+                <div className={styles.note}>No play to read yet: any tiles are as likely as the bag makes them.</div>
+            )}
+            {current?.move && (
+                <>
+                    <div className={styles.note}>
+                        After {current.move.word} ({current.move.score}), {opponent.name} probably kept:
+                    </div>
+                    <ol className={styles.leaves}>
+                        {current.leaves.slice(0, SHOWN_LEAVES).map(({ leave, probability }) => (
+                            <li key={leave}>
+                                <span className={styles.leave}>{leave}</span> {percent(probability)}
+                            </li>
+                        ))}
+                    </ol>
+                    <div className={styles.letters}>
+                        {letters.map(([letter, probability]) => (
+                            <span key={letter} className={styles.letter}>{letter} {percent(probability)}</span>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AiPersonality } from '@/lib/types';
+import { AI_DIFFICULTIES, MEGA_BOARD_SIZE } from '@/lib/constants';
+import { savePersonalityPreset } from '@/app/actions';
+import styles from './PersonalityEditor.module.css';
+
+type NumberField = { [K in keyof AiPersonality]: AiPersonality[K] extends number ? K : never }[keyof AiPersonality];
+type BooleanField = { [K in keyof AiPersonality]: AiPersonality[K] extends boolean ? K : never }[keyof AiPersonality];
+
+const NUMBER_FIELDS: Array<{ field: NumberField; label: string; min: number; max: number; step: number; title: string }> = [
+    { field: 'vocabulary', label: 'Vocabulary', min: 0, max: 1, step: 0.05, title: 'Share of words over 3 letters the AI knows' },
+    { field: 'maxWordLength', label: 'Max word length', min: 0, max: MEGA_BOARD_SIZE, step: 1, title: 'Longest word it will form (0 for no limit)' },
+    { field: 'bingoAwareness', label: 'Bingo awareness', min: 0, max: 1, step: 0.05, title: 'Chance it spots a play using its whole rack' },
+    { field: 'defensiveness', label: 'Defensiveness', min: 0, max: 10, step: 0.5, title: 'Points given up per premium square a play opens (TW counts 3, DW 2)' },
+    { field: 'exchangeWillingness', label: 'Exchange willingness', min: -20, max: 20, step: 1, title: 'Points an exchange is credited with against the best play' },
+    { field: 'blunderRate', label: 'Blunder rate', min: 0, max: 1, step: 0.05, title: 'Chance of picking at random instead of taking the best play' },
+    { field: 'blunderRange', label: 'Blunder range', min: 0, max: 1, step: 0.05, title: 'Share of the plays, best first, a blunder picks from' },
+    { field: 'thinkTimeMs', label: 'Think time (ms)', min: 0, max: 10000, step: 100, title: 'Simulation budget per move, or the pause before moving' },
+    { field: 'challengeRate', label: 'Challenge rate', min: 0, max: 1, step: 0.05, title: 'Chance of challenging a play it knows is invalid' },
+    { field: 'phonyRate', label: 'Phony rate', min: 0, max: 1, step: 0.05, title: 'Chance of bluffing with a phony when plays can be challenged' },
+];
+
+const BOOLEAN_FIELDS: Array<{ field: BooleanField; label: string }> = [
+    { field: 'simulate', label: 'Simulate replies' },
+    { field: 'solveEndgames', label: 'Solve endgames' },
+];
+
+/**
+ * Name of a preset as offered: built-in ones by difficulty, e.g. "Hard"
+ */
+export const presetLabel = (name: string) => (
+    AI_DIFFICULTIES.some(d => d === name) ? name.charAt(0) + name.slice(1).toLowerCase() : name
+);
+
+const sameProfile = (a: AiPersonality, b: AiPersonality) => (
+    (Object.keys(a) as Array<keyof AiPersonality>).every(key => a[key] === b[key])
+);
+
+interface PersonalityEditorProps {
+    label: string;                  // Whose personality, e.g. "AI 1"
+    personality: AiPersonality;
+    presets: AiPersonality[];
+    onChange: (personality: AiPersonality) => void;
+    onPresetsChange: (presets: AiPersonality[]) => void;
+    selectClassName?: string;
+}
+
+/**
+ * Pick an AI's personality preset, adjust it field by field, and save the
+ * result as a new preset
+ */
+export const PersonalityEditor: React.FC<PersonalityEditorProps> = ({ label, personality, presets, onChange, onPresetsChange, selectClassName }) => {
+    const [open, setOpen] = useState(false);
+    const [saveName, setSaveName] = useState('');
+    const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+
+    const preset = presets.find(p => p.name === personality.name);
+    const edited = !preset || !sameProfile(preset, personality);
+
+    const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const chosen = presets.find(p => p.name === e.target.value);
+        if (chosen) onChange(chosen);
+        setStatus(null);
+    };
+
+    const handleSave = async () => {
+        const name = saveName.trim();
+        try {
+            onPresetsChange(await savePersonalityPreset({ ...personality, name }));
+            onChange({ ...personality, name });
+            setSaveName('');
+            setStatus({ error: false, text: `Saved "${name}"` });
+        } catch (error) {
+            setStatus({ error: true, text: (error as Error).message });
+        }
+    };
+
+    return (
+        <div className={styles.editor}>
+            <label className={styles.label}>{label} Personality</label>
+            <div className={styles.presetRow}>
+                <select value={edited ? '' : personality.name} onChange={handlePresetChange} className={selectClassName}>
+                    {edited && <option value="">{presetLabel(personality.name)} (edited)</option>}
+                    {presets.map(p => (
+                        <option key={p.name} value={p.name}>{presetLabel(p.name)}</option>
+                    ))}
+                </select>
+                <button onClick={() => setOpen(!open)} className={styles.toggle} title="Adjust this personality">
+                    {open ? 'Done' : 'Customize'}
+                </button>
+            </div>
+
+            {open && (
+                <div className={styles.fields}>
+                    {NUMBER_FIELDS.map(({ field, label, min, max, step, title }) => (
+                        <label key={field} className={styles.field} title={title}>
+                            <span>{label}</span>
+                            <input
+                                type="number"
+                                min={min}
+                                max={max}
+                                step={step}
+                                value={personality[field]}
+                                onChange={(e) => {
+                                    const value = Number(e.target.value);
+                                    if (e.target.value !== '' && Number.isFinite(value)) {
+                                        onChange({ ...personality, [field]: Math.min(max, Math.max(min, value)) });
+                                    }
+                                }}
+                                className={styles.number}
+                            />
+                        </label>
+                    ))}
+                    {BOOLEAN_FIELDS.map(({ field, label }) => (
+                        <label key={field} className={styles.checkbox}>
+                            <input
+                                type="checkbox"
+                                checked={personality[field]}
+                                onChange={(e) => onChange({ ...personality, [field]: e.target.checked })}
+                            />
+                            {label}
+                        </label>
+                    ))}
+
+                    <div className={styles.saveRow}>
+                        <input
+                            type="text"
+                            value={saveName}
+                            onChange={(e) => setSaveName(e.target.value)}
+                            placeholder="Preset name"
+                            className={styles.nameInput}
+                        />
+                        <button onClick={handleSave} disabled={saveName.trim() === ''} className={styles.toggle}>
+                            Save Preset
+                        </button>
+                    </div>
+                    {status && <div className={status.error ? styles.error : styles.saved}>{status.text}</div>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useGame } from '@/context/GameContext';
 import { Tile } from './Tile';
 import { useDroppable } from '@dnd-kit/core';
+import { MIN_BAG_SIZE_FOR_EXCHANGE } from '@/lib/constants';
 import styles from './Rack.module.css';
 
 interface RackProps {
@@ -9,21 +10,68 @@ interface RackProps {
 }
 
 export const Rack: React.FC<RackProps> = ({ showTeamColors = true }) => {
-    const { gameState } = useGame();
-    const player = gameState.players[0]; // Assuming human is always index 0 for now
+    const { gameState, localPlayerId } = useGame();
+    // The rack of the player at this screen; none while it is being passed on
+    const player = gameState.players.find(p => p.id === localPlayerId);
 
     const { setNodeRef } = useDroppable({
         id: 'rack',
     });
 
-    const { shuffleRack, recallAll } = useGame();
+    const { shuffleRack, recallAll, exchangeTiles } = useGame();
+
+    // Exchange mode: tiles are picked by clicking instead of dragged
+    const [isExchanging, setIsExchanging] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
     if (!player) return null;
 
+    const canExchange = !player.isAi && gameState.players[gameState.currentPlayerIndex]?.id === player.id && !gameState.gameOver &&
+        gameState.bag.length >= MIN_BAG_SIZE_FOR_EXCHANGE;
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const startExchange = () => {
+        recallAll();
+        setSelectedIds(new Set());
+        setIsExchanging(true);
+    };
+
+    const cancelExchange = () => {
+        setSelectedIds(new Set());
+        setIsExchanging(false);
+    };
+
+    const confirmExchange = () => {
+        exchangeTiles(player.rack.filter(t => selectedIds.has(t.id)));
+        cancelExchange();
+    };
+
     return (
         <div className={styles.rackContainer}>
             <div ref={setNodeRef} className={styles.rack}>
-                {player.rack.map((tile) => (
+                {player.rack.map((tile) => isExchanging ? (
+                    <div
+                        key={tile.id}
+                        className={`${styles.selectable} ${selectedIds.has(tile.id) ? styles.selected : ''}`}
+                        onClick={() => toggleSelected(tile.id)}
+                    >
+                        <Tile
+                            tile={tile}
+                            id={tile.id}
+                            disabled
+                            players={showTeamColors ? gameState.players : undefined}
+                            gameMode={showTeamColors ? gameState.gameMode : undefined}
+                        />
+                    </div>
+                ) : (
                     <Tile
                         key={tile.id}
                         tile={tile}
@@ -34,12 +82,38 @@ export const Rack: React.FC<RackProps> = ({ showTeamColors = true }) => {
                 ))}
             </div>
             <div className={styles.rackControls}>
-                <button className={styles.button} onClick={shuffleRack} title="Shuffle Rack">
-                    🔀
-                </button>
-                <button className={styles.button} onClick={recallAll} title="Return Tiles">
-                    ⬇️
-                </button>
+                {isExchanging ? (
+                    <>
+                        <button
+                            className={styles.button}
+                            onClick={confirmExchange}
+                            disabled={selectedIds.size === 0}
+                            title={`Exchange ${selectedIds.size} tile${selectedIds.size === 1 ? '' : 's'}`}
+                        >
+                            ✔️
+                        </button>
+                        <button className={styles.button} onClick={cancelExchange} title="Cancel Exchange">
+                            ✖️
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button className={styles.button} onClick={shuffleRack} title="Shuffle Rack">
+                            🔀
+                        </button>
+                        <button className={styles.button} onClick={recallAll} title="Return Tiles">
+                            ⬇️
+                        </button>
+                        <button
+                            className={styles.button}
+                            onClick={startExchange}
+                            disabled={!canExchange}
+                            title={canExchange ? 'Exchange Tiles' : `Exchange needs ${MIN_BAG_SIZE_FOR_EXCHANGE}+ tiles in the bag`}
+                        >
+                            🔁
+                        </button>
+                    </>
+                )}
             </div>
         </div>
     );
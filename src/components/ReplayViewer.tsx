@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useGame } from '@/context/GameContext';
+import { replayLength, ReplayPosition } from '@/lib/replay';
+import { REPLAY_STEP_MS, REPLAY_SPEEDS } from '@/lib/constants';
+import { getPlayerColor } from '@/lib/teamColors';
+import styles from './ReplayViewer.module.css';
+
+/**
+ * What the move shown did, for the replay's caption
+ */
+function describeMove(position: ReplayPosition, names: Map<string, string>): string {
+    const { move } = position;
+    if (!move) return 'Start of the game';
+    const name = names.get(move.playerId) || move.playerId;
+
+    switch (move.type) {
+        case 'PASS':
+            return `${name} passed`;
+        case 'EXCHANGE':
+            return `${name} exchanged ${move.exchangedCount ?? move.exchanged?.length ?? 0} tiles`;
+        case 'CHALLENGE': {
+            const challenged = names.get(move.challengedPlayerId || '') || 'the last play';
+            if (move.challengeUpheld) return `${name} challenged ${challenged} successfully: ${move.word}`;
+            const cost = move.turnLost ? ', losing the turn' : move.score < 0 ? ` for ${move.score}` : '';
+            return `${name} challenged ${move.word} and failed${cost}`;
+        }
+        default:
+            if (move.withdrawn) return `${name} played ${move.word}, withdrawn after a challenge`;
+            return `${name} played ${move.word} for ${move.score}${position.pending ? ' (open to challenge)' : ''}`;
+    }
+}
+
+/**
+ * Steps through the game move by move on the board: a scrubber over the
+ * moves, single steps and autoplay, with the tiles each move placed and the
+ * words it formed marked. The game goes on meanwhile; a replay of a game
+ * being played takes in each new move.
+ */
+export const ReplayViewer: React.FC = () => {
+    const { gameState, replay, showReplay } = useGame();
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+
+    // A new game ends the replay, and with it autoplay
+    if (!replay && playing) setPlaying(false);
+
+    const length = replayLength(gameState);
+    const index = replay?.index;
+
+    useEffect(() => {
+        if (!playing || index === undefined) return;
+        const timer = setTimeout(() => {
+            if (index < length) showReplay(index + 1);
+            if (index + 1 >= length) setPlaying(false);
+        }, REPLAY_STEP_MS / speed);
+        return () => clearTimeout(timer);
+    }, [playing, index, length, speed, showReplay]);
+
+    if (!replay) {
+        return (
+            <div className={styles.panel}>
+                <button onClick={() => showReplay(0)} disabled={length === 0} className={styles.replayButton}>
+                    Replay Game
+                </button>
+            </div>
+        );
+    }
+
+    const names = new Map(gameState.players.map(p => [p.id, p.name]));
+    const step = (to: number) => {
+        setPlaying(false);
+        showReplay(Math.max(0, Math.min(to, length)));
+    };
+    const handlePlay = () => {
+        if (playing) {
+            setPlaying(false);
+            return;
+        }
+        // From the end, autoplay starts over
+        if (replay.index >= length) showReplay(0);
+        setPlaying(true);
+    };
+    const handleClose = () => {
+        setPlaying(false);
+        showReplay(null);
+    };
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.title}>Replay: move {replay.index} of {length}</span>
+                <button onClick={handleClose} className={styles.controlButton}>Back to Game</button>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={length}
+                value={replay.index}
+                onChange={e => step(Number(e.target.value))}
+                className={styles.scrubber}
+            />
+            <div className={styles.controls}>
+                <button onClick={() => step(0)} disabled={replay.index === 0} className={styles.controlButton} title="Start">⏮</button>
+                <button onClick={() => step(replay.index - 1)} disabled={replay.index === 0} className={styles.controlButton} title="Step back">‹</button>
+                <button onClick={handlePlay} className={styles.controlButton} title={playing ? 'Pause' : 'Play'}>
+                    {playing ? '⏸' : '▶'}
+                </button>
+                <button onClick={() => step(replay.index + 1)} disabled={replay.index >= length} className={styles.controlButton} title="Step forward">›</button>
+                <button onClick={() => step(length)} disabled={replay.index >= length} className={styles.controlButton} title="End">⏭</button>
+                <select value={speed} onChange={e => setSpeed(Number(e.target.value))} className={styles.speed} title="Autoplay speed">
+                    {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+                </select>
+            </div>
+            <div className={styles.caption}>{describeMove(replay, names)}</div>
+            {replay.words.length > 0 && (
+                <div className={styles.words}>
+                    {replay.words.map((w, i) => (
+                        <span key={`${w.word}-${i}`} className={i === 0 ? styles.mainWord : styles.word}>{w.word}</span>
+                    ))}
+                </div>
+            )}
+            <div className={styles.scores}>
+                {gameState.players.map((p, i) => (
+                    <div
+                        key={p.id}
+                        style={gameState.gameMode === 'TEAMS' ? { color: getPlayerColor(p.teamId, i) } : undefined}
+                    >
+                        {p.name}: {replay.scores[p.id] ?? 0}
+                    </div>
+                ))}
+                {replay.teamScores && Object.entries(replay.teamScores).map(([teamId, score]) => (
+                    <div key={teamId} className={styles.teamScore}>{teamId}: {score}</div>
+                ))}
+                {replay.final && <div className={styles.note}>Final scores, after the end adjustments</div>}
+            </div>
+        </div>
+    );
+};
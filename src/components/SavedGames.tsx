@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGame } from '@/context/GameContext';
+import { listSavedGames, deleteSavedGame, SavedGameSummary } from '@/lib/savedGames';
+import styles from './SavedGames.module.css';
+
+/**
+ * Games saved in this browser, latest first; any can be resumed from its
+ * last turn
+ */
+export const SavedGames: React.FC = () => {
+    const { gameState, resumeGame, currentSaveId } = useGame();
+    const [isOpen, setIsOpen] = useState(false);
+    const [saves, setSaves] = useState<SavedGameSummary[]>([]);
+    const [listedAt, setListedAt] = useState(gameState.moveHistory);
+    const [error, setError] = useState<string | null>(null);
+
+    // Read again after each turn, when the current game is saved
+    if (isOpen && listedAt !== gameState.moveHistory) {
+        setListedAt(gameState.moveHistory);
+        setSaves(listSavedGames());
+    }
+
+    const handleToggle = () => {
+        if (!isOpen) setSaves(listSavedGames());
+        setIsOpen(!isOpen);
+    };
+
+    const handleResume = (id: string) => {
+        setError(null);
+        try {
+            resumeGame(id);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const handleDelete = (id: string) => {
+        deleteSavedGame(id);
+        setSaves(listSavedGames());
+    };
+
+    return (
+        <div className={styles.savedGames}>
+            <button onClick={handleToggle} className={styles.toggle}>
+                {isOpen ? '▾' : '▸'} Saved Games
+            </button>
+            {error && <div className={styles.error}>{error}</div>}
+            {isOpen && saves.length === 0 && <div className={styles.empty}>Games are saved here after their first turn.</div>}
+            {isOpen && saves.length > 0 && (
+                <ul className={styles.list}>
+                    {saves.map(save => {
+                        const current = save.id === currentSaveId;
+                        return (
+                            <li key={save.id} className={current ? styles.current : ''}>
+                                <div className={styles.players}>
+                                    {save.players.map(p => `${p.name} ${p.score}`).join(' – ')}
+                                </div>
+                                <div className={styles.details}>
+                                    {save.mode} · {save.variant || 'STANDARD'} · {save.moves} moves ·{' '}
+                                    {save.gameOver ? (save.winner ? `${save.winner} won` : 'tie') : `${save.toMove} to play`}
+                                </div>
+                                <div className={styles.details}>Saved {new Date(save.savedAt).toLocaleString()}</div>
+                                <div className={styles.actions}>
+                                    {current ? (
+                                        <span className={styles.playing}>Playing</span>
+                                    ) : (
+                                        <button onClick={() => handleResume(save.id)} className={styles.button}>
+                                            {save.gameOver ? 'Open' : 'Resume'}
+                                        </button>
+                                    )}
+                                    <button onClick={() => handleDelete(save.id)} className={styles.button}>Delete</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
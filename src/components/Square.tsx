@@ -8,9 +8,12 @@ interface SquareProps {
     square: SquareType;
     players?: Player[];
     gameMode?: string;
+    onTileClick?: () => void; // e.g. re-designate a blank placed this turn
+    ghost?: boolean; // The tile is part of a suggested play, not on the board
+    highlight?: 'placed' | 'word'; // Replay: placed by the move shown, or part of a word it formed
 }
 
-export const Square: React.FC<SquareProps> = ({ square, players, gameMode }) => {
+export const Square: React.FC<SquareProps> = ({ square, players, gameMode, onTileClick, ghost, highlight }) => {
     const { isOver, setNodeRef } = useDroppable({
         id: `cell-${square.x}-${square.y}`,
         data: square,
@@ -33,7 +36,9 @@ export const Square: React.FC<SquareProps> = ({ square, players, gameMode }) =>
     return (
         <div
             ref={setNodeRef}
-            className={`${styles.square} ${bonusClass} ${isOver ? styles.over : ''}`}
+            className={`${styles.square} ${bonusClass} ${isOver ? styles.over : ''} ${ghost ? styles.ghost : ''} ${highlight ? styles[highlight] : ''}`}
+            onClick={onTileClick}
+            style={onTileClick ? { cursor: 'pointer' } : undefined}
         >
             {!square.tile && square.bonus && (
                 <span className={styles.bonusLabel}>{getBonusLabel()}</span>
@@ -41,7 +46,7 @@ export const Square: React.FC<SquareProps> = ({ square, players, gameMode }) =>
             {square.tile && (
                 <Tile
                     tile={square.tile}
-                    id={`board-${square.tile.id}`}
+                    id={`${ghost ? 'ghost' : 'board'}-${square.tile.id}`}
                     disabled
                     players={players}
                     gameMode={gameMode}
@@ -3,6 +3,7 @@ import { Tile as TileType, Player } from '@/lib/types';
 import { useDraggable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 import { getPlayerColor } from '@/lib/teamColors';
+import { getTileLetter } from '@/lib/gameUtils';
 import styles from './Tile.module.css';
 
 interface TileProps {
@@ -44,8 +45,11 @@ export const Tile: React.FC<TileProps> = ({ tile, id, disabled, players, gameMod
             {...listeners}
             {...attributes}
             className={`${styles.tile} ${tile.isBlank ? styles.blank : ''}`}
+            title={tile.isBlank ? (tile.letterOverride ? `Blank as ${tile.letterOverride}` : 'Blank') : undefined}
         >
-            <span className={styles.letter}>{tile.letter === '_' ? '' : tile.letter}</span>
+            <span className={`${styles.letter} ${tile.letterOverride ? styles.designated : ''}`}>
+                {tile.isBlank && !tile.letterOverride ? '' : getTileLetter(tile)}
+            </span>
             <span className={styles.score}>{tile.score}</span>
         </div>
     );
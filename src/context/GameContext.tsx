@@ -1,10 +1,10 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { GameState, Player, BoardState, Tile } from '@/lib/types';
-import { initializeBoard, createTileBag, drawTiles } from '@/lib/gameUtils';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo } from 'react';
+import { GameState, GameConfig, GameMode, Tile, GameAction, ClientMessage, ServerMessage, OnlineSettings, RoomInfo } from '@/lib/types';
+import { clearBlankDesignation, isBoardEmpty } from '@/lib/gameUtils';
 
-import { BOARD_VARIANTS, BoardVariant } from '@/lib/constants';
+import { AI_PERSONALITIES } from '@/lib/constants';
 
 interface MovePreview {
     isValid: boolean;
@@ -13,19 +13,51 @@ interface MovePreview {
     errorMessage?: string;
 }
 
+interface OnlineSession {
+    status: ConnectionStatus;
+    playerId: string | null;    // Seat taken, once the server has confirmed it
+    room: RoomInfo | null;
+}
+
 interface GameContextType {
     gameState: GameState;
     currentMoveTiles: PlacedTile[];
     movePreview: MovePreview | null;
     placeTile: (tile: Tile, x: number, y: number) => void;
+    blankToDesignate: { x: number; y: number } | null;
+    editBlank: (x: number, y: number) => void;
+    designateBlank: (letter: string) => void;
+    cancelBlankDesignation: () => void;
     recallTile: (x: number, y: number) => void;
     recallAll: () => void;
     shuffleRack: () => void;
     passTurn: () => void;
+    exchangeTiles: (tiles: Tile[]) => void;
     resignTurn: () => void;
+    challengePlay: () => Promise<void>;
+    acceptPlay: () => void;
     submitTurn: () => Promise<void>;
-    startGame: (variant?: BoardVariant, difficulty?: 'EASY' | 'MEDIUM' | 'HARD', mode?: 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS', difficulty2?: 'EASY' | 'MEDIUM' | 'HARD', teamAiConfigs?: Array<{ difficulty: 'EASY' | 'MEDIUM' | 'HARD'; useHeuristics: boolean }>, mustStartOnStar?: boolean) => void;
+    requestHints: () => Promise<Hint[]>;
+    analyzeGame: () => Promise<GameAnalysis>;
+    ghostPlay: PlacedTile[] | null; // A suggested play shown faintly on the board
+    showGhostPlay: (tiles: PlacedTile[] | null) => void;
+    loadPlay: (tiles: PlacedTile[]) => void;
+    replay: ReplayPosition | null; // Position shown on the board in place of the game, while replaying
+    showReplay: (index: number | null) => void; // Show the position after this many moves, or the game again
+    importGame: (gcg: string) => void;
+    resumeGame: (saveId: string) => void;
+    currentSaveId: string; // Id the current game is saved under after every turn
+    localPlayerId: string | null; // Player at this screen: the seat taken online, else the human player
+    handoffTo: string | null; // With several humans at one screen, the one to pass it to before their rack is shown
+    takeDevice: () => void; // The player handed the screen is ready to play
+    online: OnlineSession | null; // Set from creating or joining an online room until leaving it
+    createRoom: (name: string, settings: OnlineSettings) => void;
+    joinRoom: (code: string, name: string) => void;
+    startOnlineGame: () => void;
+    leaveOnlineGame: () => void;
+    startGame: (config?: GameConfig & { mode?: Exclude<GameMode, 'ONLINE'> }) => void; // Online games are started from a room
     message: string | null;
+    endgamePlan: string | null; // How the last AI endgame move was meant to play out
 }
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
@@ -33,7 +65,53 @@ const GameContext = createContext<GameContextType | undefined>(undefined);
 import { validateMove, PlacedTile } from '@/lib/validation';
 import { calculateScore } from '@/lib/scoring';
 import { validateWords } from '@/app/actions';
-import { initGameLog, logGameEnd } from '@/lib/gameLogger';
+import { cancelAiSearches, getHints, analyzeFinishedGame } from '@/app/ai-actions';
+import { initGameLog, logGameEnd, logHint } from '@/lib/gameLogger';
+import { getWinnerName, describeGameEnd } from '@/lib/gameEnd';
+import { isChallengeRule } from '@/lib/challenge';
+import { createGame, applyAction, describeAction, recordHint } from '@/lib/gameEngine';
+import { playAiTurn } from '@/lib/ai-turn';
+import { describeEndgame } from '@/lib/endgame';
+import { Hint } from '@/lib/hints';
+import { importGcg } from '@/lib/gcg';
+import { saveGame, loadSavedGame, listSavedGames } from '@/lib/savedGames';
+import { GameAnalysis } from '@/lib/analysis';
+import { replayPosition, ReplayPosition } from '@/lib/replay';
+import { connectOnline, loadOnlineSeat, saveOnlineSeat, ConnectionStatus, OnlineConnection } from '@/lib/multiplayer-client';
+
+/**
+ * Save the end of a finished game to the game log, keyed by player name
+ */
+function logFinishedGame(state: GameState): void {
+    const tally = state.finalTally;
+    if (!tally) return;
+
+    const byName = (values: Record<string, number>) => {
+        const named: Record<string, number> = {};
+        state.players.forEach(p => named[p.name] = values[p.id]);
+        return named;
+    };
+
+    const hintsUsed: Record<string, number> = {};
+    state.players.forEach(p => {
+        if (p.hintsUsed) hintsUsed[p.name] = p.hintsUsed;
+    });
+
+    logGameEnd(getWinnerName(state), byName(tally.finalScores), {
+        ...tally,
+        rackPenalties: byName(tally.rackPenalties),
+        scoreAdjustments: byName(tally.scoreAdjustments),
+        finalScores: byName(tally.finalScores),
+    }, hintsUsed);
+}
+
+/**
+ * A rack as the server dealt it, in the order the player had arranged their tiles
+ */
+function inRackOrder(previous: Tile[], next: Tile[]): Tile[] {
+    const order = new Map(previous.map((tile, i) => [tile.id, i]));
+    return [...next].sort((a, b) => (order.get(a.id) ?? previous.length) - (order.get(b.id) ?? previous.length));
+}
 
 export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [gameState, setGameState] = useState<GameState>({
@@ -47,261 +125,284 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
     const [currentMoveTiles, setCurrentMoveTiles] = useState<PlacedTile[]>([]);
     const [message, setMessage] = useState<string | null>(null);
+    const [endgamePlan, setEndgamePlan] = useState<string | null>(null);
     const [movePreview, setMovePreview] = useState<MovePreview | null>(null);
+    const [blankToDesignate, setBlankToDesignate] = useState<{ x: number; y: number } | null>(null);
+    const [ghostPlay, setGhostPlay] = useState<PlacedTile[] | null>(null);
+    const [replayIndex, setReplayIndex] = useState<number | null>(null);
+    const [online, setOnline] = useState<OnlineSession | null>(null);
+    // Human holding the screen of a game several humans share; their rack is the one shown
+    const [deviceHolder, setDeviceHolder] = useState<string | null>(null);
+    // Tags the current game's AI searches, so a new game can cancel them and ignore their results
+    const searchGroup = useRef('');
+    // Id the current game is saved under
+    const saveId = useRef('');
+    // Connection to the multiplayer server, and the seat it plays
+    const connection = useRef<OnlineConnection | null>(null);
+    const onlinePlayerId = useRef<string | null>(null);
+    // A local game is dealt if the seat kept from before a reload cannot be taken back
+    const dealIfRejoinFails = useRef(false);
+
+    const startGame = (config: GameConfig = {}) => {
+        beginGame(createGame(config));
+    };
 
-    const startGame = (
-        variant: BoardVariant = 'STANDARD',
-        difficulty: 'EASY' | 'MEDIUM' | 'HARD' = 'MEDIUM',
-        mode: 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS' = 'HUMAN_VS_AI',
-        difficulty2: 'EASY' | 'MEDIUM' | 'HARD' = 'HARD',
-        teamAiConfigs?: Array<{ difficulty: 'EASY' | 'MEDIUM' | 'HARD'; useHeuristics: boolean }>,
-        mustStartOnStar: boolean = false
-    ) => {
-        const newBag = createTileBag(variant);
-        let players: Player[] = [];
-        let bag = newBag;
-        let teamScores: Record<string, number> = {};
-
-        if (mode === 'TEAMS' && variant === 'MEGA') {
-            // 4x4 AI Battle: 2 Teams of 4 Players (8 total)
-            const teams = ['Red', 'Blue'];
-            teamScores = { Red: 0, Blue: 0 };
-
-            let playerIndex = 0;
-            // Interleave players: Red 1, Blue 1, Red 2, Blue 2...
-            for (let i = 0; i < 4; i++) {
-                for (const team of teams) {
-                    const playerId = `p${playerIndex}`;
-                    const config = teamAiConfigs?.[playerIndex] || { difficulty: 'MEDIUM', useHeuristics: false };
-                    const { drawn, newBag } = drawTiles(bag, 7, playerId);
-                    bag = newBag;
-                    players.push({
-                        id: playerId,
-                        name: `${team} AI ${i + 1}`,
-                        rack: drawn,
-                        score: 0,
-                        isAi: true,
-                        difficulty: config.difficulty,
-                        useHeuristics: config.useHeuristics,
-                        teamId: team,
-                        movesMade: 0,
-                    });
-                    playerIndex++;
-                }
-            }
-        } else {
-            // Standard 2 player setup
-            const player1Id = 'p0';
-            const player2Id = 'p1';
-
-            const { drawn: p1Tiles, newBag: bagAfterP1 } = drawTiles(bag, 7, player1Id);
-            const { drawn: p2Tiles, newBag: bagAfterP2 } = drawTiles(bagAfterP1, 7, player2Id);
-            bag = bagAfterP2;
-
-            const player1: Player = {
-                id: player1Id,
-                name: mode === 'AI_VS_AI' ? 'AI 1' : 'You',
-                rack: p1Tiles,
-                score: 0,
-                isAi: mode === 'AI_VS_AI',
-                difficulty: mode === 'AI_VS_AI' ? difficulty : undefined,
-                teamId: 'Team 1',
-                movesMade: 0,
-            };
-
-            const player2: Player = {
-                id: player2Id,
-                name: 'AI 2',
-                rack: p2Tiles,
-                score: 0,
-                isAi: true,
-                difficulty: mode === 'AI_VS_AI' ? difficulty2 : difficulty,
-                teamId: 'Team 2',
-                movesMade: 0,
-            };
-            players = [player1, player2];
-            teamScores = { 'Team 1': 0, 'Team 2': 0 };
+    // End the AI searches of the game on screen; results tagged with its group are ignored from now on
+    const newSearchGroup = (tag: string) => {
+        if (searchGroup.current) {
+            cancelAiSearches(searchGroup.current).catch(error => console.error('Failed to cancel AI searches:', error));
         }
+        searchGroup.current = `${tag}-${Date.now()}`;
+    };
 
-        const newBoard = initializeBoard(variant);
-
-        // Initialize game log (client-side, saved to localStorage)
-        initGameLog(mode, variant);
-
-        setGameState({
-            board: newBoard,
-            players: players,
-            currentPlayerIndex: 0,
-            bag: bag,
-            gameOver: false,
-            winner: null,
-            moveHistory: [],
-            gameMode: mode,
-            teamScores: teamScores,
-            mustStartOnStar: mustStartOnStar,
-        });
+    /**
+     * Make a game the current one, ending the last game's AI searches
+     * @param resumedId - Save the game was resumed from; a new game gets a save of its own
+     */
+    const beginGame = (state: GameState, message: string | null = null, resumedId?: string) => {
+        if (connection.current) leaveOnlineGame();
+        newSearchGroup(`${state.seed}`);
+        saveId.current = resumedId || `game-${Date.now()}`;
+
+        // Initialize game log (client-side, saved to localStorage); a resumed game's log starts afresh
+        initGameLog(state.gameMode || 'HUMAN_VS_AI', state.variant || 'STANDARD', state.lexicon, state.seed, state.hintsAllowed);
+        if (state.gameOver && !resumedId) logFinishedGame(state);
+        // A new game is saved from its first turn on
+        if (!resumedId && state.moveHistory.length > 0) saveGame(saveId.current, state);
+
+        setGameState(state);
         setCurrentMoveTiles([]);
-        setMessage(null);
+        setBlankToDesignate(null);
+        setGhostPlay(null);
+        setReplayIndex(null);
+        setDeviceHolder(null);
+        setMessage(message);
+        setEndgamePlan(null);
+    };
+
+    /**
+     * Load a game from a GCG record, to replay, analyze or play on
+     * @throws Error if the record cannot be read or does not fit the rules
+     */
+    const importGame = (gcg: string) => {
+        const state = importGcg(gcg);
+        beginGame(state, state.gameOver ? describeGameEnd(state) : `Game imported: ${state.players[state.currentPlayerIndex].name} to play.`);
+    };
+
+    /**
+     * Continue a saved game from its last turn
+     * @throws Error if the save is gone or cannot be read
+     */
+    const resumeGame = (id: string) => {
+        const state = loadSavedGame(id);
+        const toMove = state.players[state.currentPlayerIndex];
+        beginGame(state, state.gameOver ? describeGameEnd(state) : `Game resumed: ${toMove?.name} to play.`, id);
     };
 
+    // Take back this tab's online seat after a reload; else pick up the last
+    // game where it stopped if it is unfinished, or deal a new one
     useEffect(() => {
+        const seat = loadOnlineSeat();
+        if (seat) {
+            dealIfRejoinFails.current = true;
+            goOnline({ type: 'REJOIN', code: seat.code, token: seat.token });
+            return;
+        }
+        const latest = listSavedGames()[0];
+        try {
+            if (latest && !latest.gameOver) {
+                resumeGame(latest.id);
+                return;
+            }
+        } catch (error) {
+            console.error('Failed to resume the last game:', error);
+        }
         startGame();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    /**
+     * A game from the multiplayer server: it replaces the game on screen,
+     * keeping the order the player had put their rack in
+     */
+    const receiveOnlineState = (state: GameState, message: string | null) => {
+        setGameState(prev => {
+            const mine = (game: GameState) => game.players.find(p => p.id === onlinePlayerId.current);
+            const before = mine(prev);
+            const after = mine(state);
+            if (!before || !after || prev.gameMode !== 'ONLINE') return state;
+            return { ...state, players: state.players.map(p => p === after ? { ...p, rack: inRackOrder(before.rack, p.rack) } : p) };
+        });
+        setCurrentMoveTiles([]);
+        setBlankToDesignate(null);
+        setGhostPlay(null);
+        setMessage(message);
+        setEndgamePlan(null);
+    };
+
+    const handleServerMessage = (message: ServerMessage) => {
+        switch (message.type) {
+            case 'JOINED':
+                dealIfRejoinFails.current = false;
+                onlinePlayerId.current = message.playerId;
+                saveOnlineSeat({ code: message.code, token: message.token });
+                setOnline(prev => prev && { ...prev, playerId: message.playerId });
+                break;
+            case 'ROOM':
+                setOnline(prev => prev && { ...prev, room: message.room });
+                break;
+            case 'STATE':
+                receiveOnlineState(message.state, message.message);
+                break;
+            case 'ERROR':
+                if (message.fatal) {
+                    leaveOnlineGame();
+                    if (dealIfRejoinFails.current) {
+                        dealIfRejoinFails.current = false;
+                        startGame();
+                    }
+                }
+                setMessage(message.message);
+                break;
+        }
+    };
+
+    /**
+     * Connect to the multiplayer server and send the first message; after a
+     * dropped connection the seat is taken back by its token
+     */
+    const goOnline = (first: ClientMessage) => {
+        if (connection.current) leaveOnlineGame();
+        newSearchGroup('online');
+        setReplayIndex(null);
+        setOnline({ status: 'CONNECTING', playerId: null, room: null });
+
+        let firstMessage: ClientMessage | null = first;
+        const opened = connectOnline({
+            onOpen: () => {
+                const seat = loadOnlineSeat();
+                if (firstMessage) opened.send(firstMessage);
+                else if (seat) opened.send({ type: 'REJOIN', code: seat.code, token: seat.token });
+                firstMessage = null;
+            },
+            onMessage: handleServerMessage,
+            onStatus: status => setOnline(prev => prev && { ...prev, status }),
+        });
+        connection.current = opened;
+    };
+
+    const createRoom = (name: string, settings: OnlineSettings) => goOnline({ type: 'CREATE', name, settings });
+
+    const joinRoom = (code: string, name: string) => goOnline({ type: 'JOIN', code: code.trim().toUpperCase(), name });
+
+    const startOnlineGame = () => connection.current?.send({ type: 'START' });
+
+    // The game on screen stays as it was; an AI takes the seat over if the game had started
+    const leaveOnlineGame = () => {
+        connection.current?.send({ type: 'LEAVE' });
+        connection.current?.close();
+        connection.current = null;
+        onlinePlayerId.current = null;
+        saveOnlineSeat(null);
+        setOnline(null);
+    };
+
+    /**
+     * Apply an action of the player at the keyboard
+     * Tiles placed this turn go back to the rack first; an illegal action
+     * only shows why and leaves the board as it is
+     * @returns true if the action was taken
+     */
+    const dispatch = (action: GameAction): boolean => {
+        const before = withCurrentMoveRecalled(gameState);
+
+        // Online, the server applies the action and sends back the game
+        if (gameState.gameMode === 'ONLINE') {
+            if (!connection.current) {
+                setMessage('You are no longer connected to this game.');
+                return false;
+            }
+            setGameState(before);
+            setCurrentMoveTiles([]);
+            setBlankToDesignate(null);
+            connection.current.send({ type: 'ACTION', action });
+            return true;
+        }
+
+        let after: GameState;
+        try {
+            after = applyAction(before, action);
+        } catch (error) {
+            setMessage((error as Error).message);
+            return false;
+        }
+
+        setCurrentMoveTiles([]);
+        setBlankToDesignate(null);
+        if (after.gameOver) logFinishedGame(after);
+        saveGame(saveId.current, after);
+        setGameState(after);
+        setMessage(describeAction(before, action, after));
+        return true;
+    };
+
+    /**
+     * State with the tiles placed this turn back on the current player's rack
+     */
+    const withCurrentMoveRecalled = (state: GameState): GameState => {
+        if (currentMoveTiles.length === 0) return state;
+
+        const players = [...state.players];
+        const player = players[state.currentPlayerIndex];
+        players[state.currentPlayerIndex] = {
+            ...player,
+            rack: [...player.rack, ...currentMoveTiles.map(t => clearBlankDesignation(t.tile))],
+        };
+        return { ...state, players };
+    };
+
     // AI Turn Logic
     useEffect(() => {
         const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-        if (currentPlayer && currentPlayer.isAi && !gameState.gameOver) {
+        // Online, the server plays the AI seats
+        if (currentPlayer && currentPlayer.isAi && !gameState.gameOver && gameState.gameMode !== 'ONLINE') {
             const performAiTurn = async () => {
-                // Small delay for realism
-                await new Promise(resolve => setTimeout(resolve, 500)); // Faster for 16 players
+                // Small delay for realism; AIs that do not simulate take their thinking time here
+                const personality = currentPlayer.personality || AI_PERSONALITIES.MEDIUM;
+                await new Promise(resolve => setTimeout(resolve, personality.simulate ? 500 : personality.thinkTimeMs));
 
+                const group = searchGroup.current;
                 try {
-                    const { generateAiMove } = await import('@/app/ai-actions');
-                    const bestMove = await generateAiMove(
-                        gameState.board,
-                        currentPlayer.rack,
-                        currentPlayer.difficulty || 'MEDIUM',
-                        currentPlayer.useHeuristics || false,
-                        currentPlayer.name,
-                        currentPlayer,
-                        gameState.mustStartOnStar
-                    );
-
-                    // Helper function to check if any teammate can play
-                    const canTeammatePlay = async (teamId: string, currentPlayerId: string) => {
-                        const teammates = gameState.players.filter(
-                            p => p.teamId === teamId && p.id !== currentPlayerId && p.isAi && !p.resigned
-                        );
-                        for (const teammate of teammates) {
-                            const teammateMove = await generateAiMove(
-                                gameState.board,
-                                teammate.rack,
-                                teammate.difficulty || 'MEDIUM',
-                                teammate.useHeuristics || false,
-                                teammate.name
-                            );
-                            if (teammateMove) {
-                                return true;
-                            }
-                        }
-                        return false;
-                    };
-
-                    if (bestMove) {
-                        // Apply move
-                        const newBoard = [...gameState.board];
-                        bestMove.tiles.forEach(({ x, y, tile }) => {
-                            newBoard[y] = [...newBoard[y]];
-                            newBoard[y][x] = { ...newBoard[y][x], tile };
-                        });
-
-                        // Refill rack
-                        const tilesNeeded = 7 - (currentPlayer.rack.length - bestMove.tiles.length);
-                        const { drawn, newBag } = drawTiles(gameState.bag, tilesNeeded, currentPlayer.id);
-
-                        // Remove used tiles from rack
-                        const usedIds = new Set(bestMove.tiles.map(t => t.tile.id));
-                        const remainingRack = currentPlayer.rack.filter(t => !usedIds.has(t.id));
-                        const newRack = [...remainingRack, ...drawn];
-
-                        const newPlayers = [...gameState.players];
-                        const newScore = currentPlayer.score + bestMove.score;
-
-                        newPlayers[gameState.currentPlayerIndex] = {
-                            ...currentPlayer,
-                            rack: newRack,
-                            score: newScore,
-                            movesMade: (currentPlayer.movesMade || 0) + 1,
-                        };
-
-                        // Update Team Score
-                        const newTeamScores = { ...gameState.teamScores };
-                        if (currentPlayer.teamId) {
-                            newTeamScores[currentPlayer.teamId] = (newTeamScores[currentPlayer.teamId] || 0) + bestMove.score;
-                        }
-
-                        const move = {
-                            playerId: currentPlayer.id,
-                            word: bestMove.word,
-                            score: bestMove.score,
-                            tiles: bestMove.tiles.map(t => ({ ...t, tile: t.tile }))
-                        };
-
-                        setGameState(prev => ({
-                            ...prev,
-                            board: newBoard,
-                            players: newPlayers,
-                            bag: newBag,
-                            moveHistory: [...prev.moveHistory, move],
-                            currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length,
-                            teamScores: newTeamScores,
-                        }));
-
-                        setMessage(`${currentPlayer.name} played ${bestMove.word} for ${bestMove.score} points.`);
-                    } else {
-                        // AI has no valid moves
-                        const newPlayers = [...gameState.players];
-                        newPlayers[gameState.currentPlayerIndex] = {
-                            ...currentPlayer,
-                            resigned: true
-                        };
-
-                        // Check if entire team should be resigned
-                        if (gameState.gameMode === 'TEAMS' && currentPlayer.teamId) {
-                            const teamPlayers = newPlayers.filter(p => p.teamId === currentPlayer.teamId);
-                            const allTeamResigned = teamPlayers.every(p => p.resigned);
-
-                            if (allTeamResigned) {
-                                // Resign entire team
-                                setMessage(`All ${currentPlayer.teamId} Team players have resigned!`);
-                            }
-                        }
-
-                        // Check if all players have resigned
-                        const allResigned = newPlayers.every(p => p.resigned);
-
-                        if (allResigned) {
-                            // Game over - find winner
-                            let winnerId: string | null = null;
-
-                            if (gameState.gameMode === 'TEAMS') {
-                                // Find winning team
-                                const winningTeam = Object.entries(gameState.teamScores || {}).reduce((a, b) => a[1] > b[1] ? a : b)[0];
-                                winnerId = winningTeam;
-                                setMessage(`Game Over! Team ${winningTeam} wins!`);
-                            } else {
-                                const winner = newPlayers.reduce((prev, current) =>
-                                    (prev.score > current.score) ? prev : current
-                                );
-                                winnerId = winner.id;
-                                setMessage(`Game Over! ${winner.name} wins with ${winner.score} points!`);
-                            }
-
-                            setGameState(prev => ({
-                                ...prev,
-                                players: newPlayers,
-                                gameOver: true,
-                                winner: winnerId
-                            }));
-                        } else {
-                            setGameState(prev => ({
-                                ...prev,
-                                players: newPlayers,
-                                currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length
-                            }));
-                            if (!allResigned) {
-                                setMessage(`${currentPlayer.name} has resigned (no valid moves).`);
-                            }
-                        }
+                    const turn = await playAiTurn(gameState, await import('@/app/ai-actions'), group);
+                    // A new game was started while the AI was thinking
+                    if (group !== searchGroup.current) return;
+
+                    if (turn.state.gameOver) logFinishedGame(turn.state);
+                    saveGame(saveId.current, turn.state);
+                    setGameState(turn.state);
+                    if (turn.endgame) {
+                        const opponent = turn.state.players.find(p => p.id !== currentPlayer.id);
+                        setEndgamePlan(describeEndgame(turn.endgame, currentPlayer.name, opponent?.name || 'Opponent'));
                     }
+
+                    // Accepting a play goes unmentioned; a challenge is reported before the move
+                    setMessage(turn.state.gameOver
+                        ? describeGameEnd(turn.state)
+                        : turn.steps
+                            .filter(step => step.action.type !== 'ACCEPT')
+                            .map(step => describeAction(step.before, step.action, step.after))
+                            .join(' '));
                 } catch (error) {
+                    if (group !== searchGroup.current) return;
                     console.error('AI Error:', error);
-                    // Skip turn on error to avoid loop
-                    setGameState(prev => ({
-                        ...prev,
-                        currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length
-                    }));
+                    // Pass instead, through the engine, so a pending play is accepted and the game can end
+                    const passed = applyAction(gameState, { type: 'PASS', playerId: currentPlayer.id });
+                    if (passed.gameOver) logFinishedGame(passed);
+                    saveGame(saveId.current, passed);
+                    setGameState(passed);
+                    setMessage(passed.gameOver
+                        ? describeGameEnd(passed)
+                        : `${currentPlayer.name} could not move and passed: ${(error as Error).message}`);
                 }
             };
 
@@ -309,6 +410,11 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     }, [gameState.currentPlayerIndex, gameState.gameOver, gameState.board, gameState.players, gameState.bag]);
 
+    // A suggested play is only shown for the turn it was suggested in
+    useEffect(() => {
+        setGhostPlay(null);
+    }, [gameState.currentPlayerIndex, gameState.moveHistory]);
+
     // Live Preview Logic
     useEffect(() => {
         if (currentMoveTiles.length === 0) {
@@ -317,7 +423,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
 
         const computePreview = async () => {
-            const isFirstMove = gameState.moveHistory.length === 0;
+            const isFirstMove = isBoardEmpty(gameState.board);
             const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
             // Validate placement
@@ -333,11 +439,21 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 return;
             }
 
-            // Validate words
+            // Validate words (not shown when plays can be challenged)
             let wordValid = true;
             let invalidWordsList: string[] = [];
-            if (validation.words && validation.words.length > 0) {
-                invalidWordsList = await validateWords(validation.words);
+            if (validation.words && validation.words.length > 0 && !isChallengeRule(gameState.challengeRule)) {
+                try {
+                    invalidWordsList = await validateWords(validation.words, gameState.lexicon);
+                } catch (error) {
+                    setMovePreview({
+                        isValid: false,
+                        score: 0,
+                        words: validation.words,
+                        errorMessage: `Lexicon error: ${(error as Error).message}`,
+                    });
+                    return;
+                }
                 wordValid = invalidWordsList.length === 0;
             }
 
@@ -356,7 +472,8 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }, [currentMoveTiles, gameState.board, gameState.moveHistory]);
 
     const placeTile = (tile: Tile, x: number, y: number) => {
-        if (gameState.gameOver) return;
+        if (gameState.gameOver || handoffTo) return;
+        if (gameState.gameMode === 'ONLINE' && gameState.players[gameState.currentPlayerIndex]?.id !== onlinePlayerId.current) return;
 
         // Check if square is occupied
         if (gameState.board[y][x].tile || currentMoveTiles.some(t => t.x === x && t.y === y)) {
@@ -374,6 +491,41 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setGameState(prev => ({ ...prev, players: newPlayers }));
         setCurrentMoveTiles(prev => [...prev, { x, y, tile }]);
         setMessage(null);
+
+        // A blank needs a letter before the move can be validated
+        if (tile.isBlank) {
+            setBlankToDesignate({ x, y });
+        }
+    };
+
+    // Re-open the letter picker for a blank placed this turn
+    const editBlank = (x: number, y: number) => {
+        const placed = currentMoveTiles.find(t => t.x === x && t.y === y);
+        if (placed && placed.tile.isBlank) {
+            setBlankToDesignate({ x, y });
+        }
+    };
+
+    const designateBlank = (letter: string) => {
+        if (!blankToDesignate) return;
+        const { x, y } = blankToDesignate;
+
+        setCurrentMoveTiles(prev => prev.map(t =>
+            t.x === x && t.y === y ? { ...t, tile: { ...t.tile, letterOverride: letter.toUpperCase() } } : t
+        ));
+        setBlankToDesignate(null);
+    };
+
+    // Closing the picker on a blank that was never given a letter sends it back to the rack
+    const cancelBlankDesignation = () => {
+        if (!blankToDesignate) return;
+        const { x, y } = blankToDesignate;
+        const placed = currentMoveTiles.find(t => t.x === x && t.y === y);
+
+        setBlankToDesignate(null);
+        if (placed && !placed.tile.letterOverride) {
+            recallTile(x, y);
+        }
     };
 
     const recallTile = (x: number, y: number) => {
@@ -385,7 +537,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         // Add back to rack
         const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-        const newRack = [...currentPlayer.rack, tileToRecall.tile];
+        const newRack = [...currentPlayer.rack, clearBlankDesignation(tileToRecall.tile)];
 
         const newPlayers = [...gameState.players];
         newPlayers[gameState.currentPlayerIndex] = { ...currentPlayer, rack: newRack };
@@ -397,7 +549,7 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (currentMoveTiles.length === 0) return;
 
         const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-        const tiles = currentMoveTiles.map(t => t.tile);
+        const tiles = currentMoveTiles.map(t => clearBlankDesignation(t.tile));
         const newRack = [...currentPlayer.rack, ...tiles];
 
         const newPlayers = [...gameState.players];
@@ -405,11 +557,13 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         setGameState(prev => ({ ...prev, players: newPlayers }));
         setCurrentMoveTiles([]);
+        setBlankToDesignate(null);
     };
 
     const shuffleRack = () => {
-        const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-        const newRack = [...currentPlayer.rack];
+        const index = gameState.players.findIndex(p => p.id === localPlayerId);
+        if (index < 0) return;
+        const newRack = [...gameState.players[index].rack];
         // Fisher-Yates shuffle
         for (let i = newRack.length - 1; i > 0; i--) {
             const j = Math.floor(Math.random() * (i + 1));
@@ -417,70 +571,111 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
 
         const newPlayers = [...gameState.players];
-        newPlayers[gameState.currentPlayerIndex] = { ...currentPlayer, rack: newRack };
+        newPlayers[index] = { ...gameState.players[index], rack: newRack };
         setGameState(prev => ({ ...prev, players: newPlayers }));
     };
 
     const passTurn = () => {
-        recallAll();
-        // Switch turn
-        setGameState(prev => ({
-            ...prev,
-            currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length
-        }));
+        const player = gameState.players[gameState.currentPlayerIndex];
+        if (gameState.gameOver || !player) return;
+        dispatch({ type: 'PASS', playerId: player.id });
+    };
+
+    const exchangeTiles = (tiles: Tile[]) => {
+        const player = gameState.players[gameState.currentPlayerIndex];
+        if (gameState.gameOver || !player || player.isAi) return;
+        dispatch({ type: 'EXCHANGE', playerId: player.id, tiles });
     };
 
     const resignTurn = () => {
-        const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+        const player = gameState.players[gameState.currentPlayerIndex];
+        if (gameState.gameOver || !player) return;
+        dispatch({ type: 'RESIGN', playerId: player.id });
+    };
 
-        // Mark player as resigned
-        const newPlayers = [...gameState.players];
-        newPlayers[gameState.currentPlayerIndex] = { ...currentPlayer, resigned: true };
-
-        // Check if all players have resigned
-        const allResigned = newPlayers.every(p => p.resigned);
-
-        if (allResigned) {
-            // Game over - find winner
-            let winnerId: string | null = null;
-
-            if (gameState.gameMode === 'TEAMS') {
-                const winningTeam = Object.entries(gameState.teamScores || {}).reduce((a, b) => a[1] > b[1] ? a : b)[0];
-                winnerId = winningTeam;
-                setMessage(`Game Over! Team ${winningTeam} wins!`);
-            } else {
-                const winner = newPlayers.reduce((max, p) => p.score > max.score ? p : max, newPlayers[0]);
-
-                // Log game end
-                const finalScores: Record<string, number> = {};
-                newPlayers.forEach(p => finalScores[p.name] = p.score);
-                logGameEnd(winner.name, finalScores);
-
-                setMessage(`Game Over! Winner: ${winner.name} with ${winner.score} points`);
-                setGameState(prev => ({
-                    ...prev,
-                    players: newPlayers,
-                    gameOver: true,
-                    winner: winner.name
-                }));
-            }
-        } else {
-            // Move to next player
-            setMessage(`${currentPlayer.name} has resigned.`);
-            setGameState(prev => ({
-                ...prev,
-                players: newPlayers,
-                currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length
-            }));
+    // Accept the previous player's provisional play and keep the turn
+    const acceptPlay = () => {
+        const player = gameState.players[gameState.currentPlayerIndex];
+        if (!gameState.pendingMove || gameState.gameOver || !player) return;
+        dispatch({ type: 'ACCEPT', playerId: player.id });
+    };
+
+    const challengePlay = async () => {
+        const pending = gameState.pendingMove;
+        const challenger = gameState.players[gameState.currentPlayerIndex];
+        if (!pending || !challenger || pending.playerId === challenger.id || gameState.gameOver) return;
+
+        // Online, the server rules on the challenge
+        if (gameState.gameMode === 'ONLINE') {
+            dispatch({ type: 'CHALLENGE', playerId: challenger.id, invalidWords: [] });
+            return;
         }
 
-        setCurrentMoveTiles([]);
+        let invalidWords: string[];
+        try {
+            invalidWords = await validateWords(pending.words, gameState.lexicon);
+        } catch (error) {
+            setMessage(`Lexicon error: ${(error as Error).message}`);
+            return;
+        }
+
+        dispatch({ type: 'CHALLENGE', playerId: challenger.id, invalidWords });
+    };
+
+    /**
+     * Best plays for the human player to move, counted as a hint
+     * Tiles placed this turn count as part of the rack
+     * @throws Error if hints are off in this game or the search fails
+     */
+    const requestHints = async (): Promise<Hint[]> => {
+        const player = gameState.players[gameState.currentPlayerIndex];
+        if (!player || player.isAi || gameState.gameOver) return [];
+
+        // Saved at once, as after a turn, so reloading the page does not undo the count
+        const counted = recordHint(gameState, player.id);
+        saveGame(saveId.current, withCurrentMoveRecalled(counted));
+        setGameState(counted);
+        const rack = [...player.rack, ...currentMoveTiles.map(t => clearBlankDesignation(t.tile))];
+        const hints = await getHints(gameState.board, rack, player, gameState.mustStartOnStar, gameState.lexicon);
+        logHint(player.name, gameState.moveHistory.length, hints.map(h => `${h.position} ${h.word} ${h.score}`));
+        return hints;
+    };
+
+    /**
+     * Grade every move of the finished game against the best play there was
+     * @throws Error if the game is not over or the analysis fails
+     */
+    const analyzeGame = async (): Promise<GameAnalysis> => {
+        if (!gameState.gameOver) throw new Error('Games can only be analyzed once they are over.');
+        return analyzeFinishedGame(gameState.board, gameState.moveHistory, gameState.players, gameState.mustStartOnStar, gameState.lexicon);
+    };
+
+    // Make a suggested play this turn's tiles, in place of any placed so far
+    const loadPlay = (tiles: PlacedTile[]) => {
+        const state = withCurrentMoveRecalled(gameState);
+        const player = state.players[state.currentPlayerIndex];
+        if (state.gameOver || !player || player.isAi) return;
+
+        const ids = new Set(tiles.map(t => t.tile.id));
+        const fits = tiles.every(t => !state.board[t.y][t.x].tile && player.rack.some(r => r.id === t.tile.id));
+        if (!fits) {
+            setMessage('That play no longer fits the board and your rack.');
+            return;
+        }
+
+        const players = [...state.players];
+        players[state.currentPlayerIndex] = { ...player, rack: player.rack.filter(t => !ids.has(t.id)) };
+        setGameState({ ...state, players });
+        setCurrentMoveTiles(tiles);
+        setBlankToDesignate(null);
+        setGhostPlay(null);
+        setMessage(null);
     };
 
     const submitTurn = async () => {
         if (currentMoveTiles.length === 0) return;
 
-        const isFirstMove = gameState.moveHistory.length === 0;
+        const isFirstMove = isBoardEmpty(gameState.board);
         const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
         // 1. Validate placement
@@ -490,79 +685,84 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({ children
             return;
         }
 
-        // 2. Validate words
-        if (validation.words && validation.words.length > 0) {
-            const invalidWords = await validateWords(validation.words);
+        // 2. Validate words (unless the play can be challenged instead)
+        if (validation.words && validation.words.length > 0 && !isChallengeRule(gameState.challengeRule)) {
+            let invalidWords: string[];
+            try {
+                invalidWords = await validateWords(validation.words, gameState.lexicon);
+            } catch (error) {
+                setMessage(`Lexicon error: ${(error as Error).message}`);
+                return;
+            }
             if (invalidWords.length > 0) {
                 setMessage(`Invalid words: ${invalidWords.join(', ')}`);
                 return;
             }
         }
 
-        // 3. Calculate Score
-        const score = calculateScore(gameState.board, currentMoveTiles);
-
-        // 4. Commit move
-        const newBoard = [...gameState.board];
-        currentMoveTiles.forEach(({ x, y, tile }) => {
-            newBoard[y] = [...newBoard[y]];
-            newBoard[y][x] = { ...newBoard[y][x], tile };
-        });
-
-        // 5. Refill rack
-        const tilesNeeded = 7 - currentPlayer.rack.length;
-        const { drawn, newBag } = drawTiles(gameState.bag, tilesNeeded, currentPlayer.id);
-        const newRack = [...currentPlayer.rack, ...drawn];
-
-        const newPlayers = [...gameState.players];
-        newPlayers[gameState.currentPlayerIndex] = {
-            ...currentPlayer,
-            rack: newRack,
-            score: currentPlayer.score + score,
-            movesMade: (currentPlayer.movesMade || 0) + 1,
-        };
-
-        // Update Team Score
-        const newTeamScores = { ...gameState.teamScores };
-        if (currentPlayer.teamId) {
-            newTeamScores[currentPlayer.teamId] = (newTeamScores[currentPlayer.teamId] || 0) + score;
-        }
-
-        const move = {
-            playerId: currentPlayer.id,
-            word: validation.words ? validation.words.join(', ') : '',
-            score,
-            tiles: currentMoveTiles
-        };
-
-        setGameState(prev => ({
-            ...prev,
-            board: newBoard,
-            players: newPlayers,
-            bag: newBag,
-            moveHistory: [...prev.moveHistory, move],
-            currentPlayerIndex: (prev.currentPlayerIndex + 1) % prev.players.length,
-            teamScores: newTeamScores,
-        }));
-
-        setCurrentMoveTiles([]);
-        setMessage(null);
+        // 3. Play it: the engine scores the move and refills the rack
+        dispatch({ type: 'PLACE', playerId: currentPlayer.id, tiles: currentMoveTiles });
     };
 
+    // With several humans at one screen, a rack is only shown once its player
+    // has been handed the screen, and none while an AI moves
+    const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+    const humanToMove = currentPlayer && !currentPlayer.isAi ? currentPlayer : undefined;
+    const sharedScreen = gameState.gameMode !== 'ONLINE' && gameState.players.filter(p => !p.isAi).length > 1;
+    const handoffTo = sharedScreen && humanToMove && !gameState.gameOver && humanToMove.id !== deviceHolder ? humanToMove.id : null;
+    let localPlayerId: string | null;
+    if (gameState.gameMode === 'ONLINE') localPlayerId = online?.playerId ?? null;
+    else if (sharedScreen) localPlayerId = handoffTo ? null : humanToMove?.id ?? null;
+    else localPlayerId = (humanToMove ?? gameState.players.find(p => !p.isAi))?.id ?? null;
+
+    const takeDevice = () => setDeviceHolder(handoffTo);
+
+    // Rebuilt as the game goes on, so a replay of the game being played takes in each new move
+    const replay = useMemo(
+        () => replayIndex === null ? null : replayPosition(gameState, replayIndex),
+        [gameState, replayIndex]
+    );
+
     return (
         <GameContext.Provider value={{
             gameState,
             currentMoveTiles,
             movePreview,
             placeTile,
+            blankToDesignate,
+            editBlank,
+            designateBlank,
+            cancelBlankDesignation,
             recallTile,
             recallAll,
             shuffleRack,
             passTurn,
+            exchangeTiles,
             resignTurn,
+            challengePlay,
+            acceptPlay,
             submitTurn,
+            requestHints,
+            analyzeGame,
+            ghostPlay,
+            showGhostPlay: setGhostPlay,
+            loadPlay,
+            replay,
+            showReplay: setReplayIndex,
             startGame,
-            message
+            importGame,
+            resumeGame,
+            currentSaveId: saveId.current,
+            localPlayerId,
+            handoffTo,
+            takeDevice,
+            online,
+            createRoom,
+            joinRoom,
+            startOnlineGame,
+            leaveOnlineGame,
+            message,
+            endgamePlan
         }}>
             {children}
         </GameContext.Provider>
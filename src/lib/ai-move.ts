@@ -0,0 +1,320 @@
+/**
+ * AI move choice
+ * What generateAiMove does, as plain functions the move workers run:
+ * generating the legal plays, narrowing them to what the personality would
+ * find, and choosing one by equity, simulation or a deliberate blunder.
+ * Generation and simulation poll `shouldStop` (the move's deadline or its
+ * cancellation) and choose from what they have found so far.
+ */
+
+import { BoardState, Tile, MoveGeneratorType, MoveType, ChallengeRule, AiPersonality } from './types';
+import { validateMove, PlacedTile } from './validation';
+import { calculateScore } from './scoring';
+import { getLexicon } from './lexicon-registry';
+import { isChallengeRule } from './challenge';
+import { MIN_BAG_SIZE_FOR_EXCHANGE, RACK_SIZE, SIMULATION_CANDIDATES, SIMULATION_PLIES } from './constants';
+import { isBoardEmpty, getTileLetter } from './gameUtils';
+import { createRandom, RandomSource } from './random';
+import { BoardIndex, getBoardIndex, getIndexAnchors } from './board-index';
+import { generateMoves, generateMovesGADDAG } from './move-generator';
+import { calculateHeuristicScore, getRemainingRack, evaluateRackLeave, chooseExchangeTiles } from './heuristics';
+import { loadLeaveTable } from './leave-store';
+import { simulateCandidates, staticEquity } from './simulation';
+import { RackInference } from './rack-inference';
+import { knowsWord, evaluateOpenings } from './personality';
+import { logAiMove, logHeuristicBreakdown } from './gameLogger';
+
+export interface AiMoveResult {
+    type: MoveType;
+    word: string;
+    words: string[]; // Every word formed (PLAY only)
+    score: number; // Actual score awarded
+    tiles: PlacedTile[];
+    selectionScore?: number; // Equity (score plus leave) for move selection only
+    exchangeTiles?: Tile[]; // Rack tiles to return to the bag (EXCHANGE only)
+}
+
+/**
+ * Everything an AI move depends on (see generateAiMove)
+ */
+export interface AiMoveRequest {
+    board: BoardState;
+    rack: Tile[];
+    personality: AiPersonality;
+    useHeuristics: boolean;
+    playerName?: string;
+    currentPlayer?: { movesMade?: number };
+    mustStartOnStar?: boolean;
+    moveGenerator: MoveGeneratorType;
+    lexicon: string;
+    bagSize: number;
+    challengeRule?: ChallengeRule;
+    seed?: number;
+    unseenTiles?: Tile[];
+    leaveTable: string;
+    inference?: RackInference;
+}
+
+/**
+ * A position whose legal plays are wanted, without choosing among them
+ */
+export type LegalPlaysRequest = Pick<AiMoveRequest, 'board' | 'rack' | 'playerName' | 'currentPlayer' | 'mustStartOnStar' | 'moveGenerator' | 'lexicon'>;
+
+/**
+ * Identifies a LegalPlaysRequest's position: the tiles on the board, the
+ * rack, the lexicon and generator, and whether the play must stand alone
+ */
+export function legalPlaysKey(request: LegalPlaysRequest): string {
+    const { board, rack, currentPlayer, mustStartOnStar, moveGenerator, lexicon } = request;
+    const independent = !!(mustStartOnStar && currentPlayer && !currentPlayer.movesMade);
+    const tiles: string[] = [];
+    for (const row of board) {
+        for (const square of row) {
+            if (square.tile) tiles.push(`${square.x},${square.y}${getTileLetter(square.tile)}${square.tile.isBlank ? '?' : ''}`);
+        }
+    }
+    const letters = rack.map(t => t.isBlank ? '?' : t.letter).sort().join('');
+    return `${lexicon}|${moveGenerator}|${independent}|${letters}|${tiles.join(';')}`;
+}
+
+export interface AiMoveOutcome {
+    move: AiMoveResult | null;
+    legalPlays: number;     // Plays the lexicon allows, before the personality narrows them
+    complete: boolean;      // false if generation stopped before trying every anchor
+}
+
+/**
+ * Every legal play, using DAWG or GADDAG, anchor-based move generation and
+ * the board's index of cross-sets and anchors
+ * @returns The plays found (words checked, score set), whether the search finished, and the board's index
+ */
+export function findLegalPlays(request: LegalPlaysRequest, shouldStop: () => boolean): { plays: AiMoveResult[]; complete: boolean; index: BoardIndex } {
+    const { board, rack, playerName, currentPlayer, mustStartOnStar, moveGenerator, lexicon } = request;
+    const startTime = Date.now();
+
+    // Load the game's lexicon (built once and read from its binary file)
+    const dawg = getLexicon(lexicon, 'DAWG');
+
+    // Cross-sets and anchors, updated from an earlier turn's index where possible
+    const index = getBoardIndex(board, dawg);
+    const anchors = getIndexAnchors(index, mustStartOnStar, currentPlayer);
+
+    console.log(`Found ${anchors.length} anchors for ${playerName || 'AI'} (movesMade: ${currentPlayer?.movesMade}, mustStartOnStar: ${mustStartOnStar})`);
+
+    if (anchors.length === 0) {
+        console.log('No anchors found - AI cannot make a play');
+    }
+
+    // A player who must start on a star cannot connect to existing tiles
+    const independent = !!(mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined));
+
+    // Generate every legal play from the anchors
+    const generationStart = Date.now();
+    const generatedMoves = moveGenerator === 'GADDAG'
+        ? generateMovesGADDAG(board, rack, getLexicon(lexicon, 'GADDAG'), index.crossSets, anchors, { independent, shouldStop })
+        : generateMoves(board, rack, dawg, index.crossSets, anchors, { independent, shouldStop });
+    const complete = !shouldStop();
+    console.log(`${moveGenerator} generated ${generatedMoves.length} candidate plays in ${Date.now() - generationStart}ms${complete ? '' : ' (stopped early)'}`);
+
+    const isEmptyBoard = isBoardEmpty(board);
+    const plays: AiMoveResult[] = [];
+
+    for (const move of generatedMoves) {
+        // Cross-sets already guarantee valid words; this collects them and checks placement rules
+        const validation = validateMove(board, move.tiles, isEmptyBoard, currentPlayer, mustStartOnStar, index);
+        if (!validation.isValid || !validation.words || validation.words.length === 0) {
+            continue;
+        }
+
+        plays.push({
+            type: 'PLAY',
+            word: validation.words.join(', '),
+            words: validation.words,
+            score: calculateScore(board, move.tiles, index), // ALWAYS use actual score
+            tiles: move.tiles,
+        });
+    }
+
+    console.log(`AI found ${plays.length} valid moves in ${Date.now() - startTime}ms`);
+
+    // If no moves found with optimized approach, log for debugging
+    if (plays.length === 0 && !isEmptyBoard) {
+        console.log('AI found no moves, debugging info:');
+        console.log(`Rack: ${rack.map(t => t.letter).join('')}`);
+        console.log(`Anchors found: ${anchors.length}`);
+    }
+
+    return { plays, complete, index };
+}
+
+/**
+ * Choose an AI's move
+ * The personality limits the plays the AI sees (vocabulary, word length,
+ * bingos), penalizes plays that open premium squares, and decides how often
+ * it blunders or bluffs with a phony when plays can be challenged.
+ * With at least MIN_BAG_SIZE_FOR_EXCHANGE tiles in the bag, the AI exchanges
+ * instead when no play's score plus rack leave beats the leave of an exchange
+ * (plus the personality's exchange willingness).
+ * Random choices come from `seed` when given, so seeded games replay exactly.
+ * Simulating personalities compare the best few plays by simulating the
+ * opponent's reply with racks drawn from `unseenTiles` (weighted by
+ * `inference` when given), for up to the personality's thinking time.
+ * Leaves are valued with the `leaveTable` file from leaves/
+ */
+export function chooseAiMove(request: AiMoveRequest, shouldStop: () => boolean): AiMoveOutcome {
+    const { board, rack, personality, useHeuristics, playerName, currentPlayer, mustStartOnStar, bagSize, challengeRule, seed, unseenTiles, inference } = request;
+    const startTime = Date.now();
+    const random = seed === undefined ? Math.random : createRandom(seed).next;
+    const leaves = loadLeaveTable(request.leaveTable);
+
+    const { plays, complete, index } = findLegalPlays(request, shouldStop);
+    const isEmptyBoard = isBoardEmpty(board);
+    const possibleMoves: AiMoveResult[] = [];
+
+    for (const play of plays) {
+        // Plays the personality would not find: unknown or overlong words, overlooked bingos
+        const { vocabulary, maxWordLength, bingoAwareness } = personality;
+        if (!play.words.every(word => knowsWord(word, vocabulary) && (maxWordLength === 0 || word.length <= maxWordLength))) {
+            continue;
+        }
+        if (play.tiles.length === RACK_SIZE && bingoAwareness < 1 && random() >= bingoAwareness) {
+            continue;
+        }
+
+        // Equity (score plus leave) for move selection (if enabled)
+        // This is ONLY used for choosing which move to make
+        // The actual score awarded is still the real score
+        let selectionScore = play.score;
+        if (useHeuristics) {
+            const remainingRack = getRemainingRack(rack, play.tiles);
+            selectionScore = calculateHeuristicScore(play.score, remainingRack, leaves);
+        }
+        if (personality.defensiveness > 0) {
+            selectionScore -= personality.defensiveness * evaluateOpenings(board, play.tiles);
+        }
+
+        possibleMoves.push({ ...play, selectionScore }); // Store heuristic score separately for sorting
+    }
+
+    const outcome = (move: AiMoveResult | null): AiMoveOutcome => ({ move, legalPlays: plays.length, complete });
+
+    if (bagSize >= MIN_BAG_SIZE_FOR_EXCHANGE) {
+        const exchange = chooseExchangeTiles(rack, leaves);
+        // Not Math.max(...plays): a Mega Board rack with blanks has more plays than fit in a call's arguments
+        const bestPlayEquity = possibleMoves.reduce(
+            (best, move) => Math.max(best, move.score + evaluateRackLeave(getRemainingRack(rack, move.tiles), leaves)),
+            -Infinity
+        );
+
+        // Exchanges score nothing, so only the leave counts
+        if (possibleMoves.length === 0 || bestPlayEquity < exchange.leaveScore + personality.exchangeWillingness) {
+            console.log(`${playerName || 'AI'} exchanges ${exchange.tiles.length} tiles (best play equity ${bestPlayEquity}, exchange leave ${exchange.leaveScore}, willingness ${personality.exchangeWillingness})`);
+            return outcome({
+                type: 'EXCHANGE',
+                word: '',
+                words: [],
+                score: 0,
+                tiles: [],
+                exchangeTiles: exchange.tiles,
+            });
+        }
+    }
+
+    if (possibleMoves.length === 0) {
+        return outcome(null);
+    }
+
+    // Shuffle for randomness in ties
+    for (let i = possibleMoves.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [possibleMoves[i], possibleMoves[j]] = [possibleMoves[j], possibleMoves[i]];
+    }
+
+    // Sort by selection score (heuristic-adjusted) if available, otherwise by actual score
+    possibleMoves.sort((a, b) => {
+        const scoreA = a.selectionScore !== undefined ? a.selectionScore : a.score;
+        const scoreB = b.selectionScore !== undefined ? b.selectionScore : b.score;
+        return scoreB - scoreA;
+    });
+
+    // Select based on personality
+    let selectedMove: AiMoveResult;
+    if (personality.simulate && unseenTiles) {
+        const candidates = [...possibleMoves]
+            .sort((a, b) => staticEquity(rack, b, leaves) - staticEquity(rack, a, leaves))
+            .slice(0, SIMULATION_CANDIDATES);
+        const simulation = simulateCandidates(index, rack, candidates, unseenTiles, {
+            timeBudgetMs: Math.max(0, personality.thinkTimeMs - (Date.now() - startTime)),
+            plies: SIMULATION_PLIES,
+            random,
+            leaves,
+            inference,
+            shouldStop,
+        });
+        console.log(`${playerName || 'AI'} simulated ${simulation.samples} continuations of ${candidates.length} plays in ${simulation.elapsedMs}ms`);
+        selectedMove = simulation.best;
+    } else if (personality.blunderRate > 0 && random() < personality.blunderRate) {
+        // A blunder: any of the better plays, the best included
+        const range = Math.max(1, Math.ceil(possibleMoves.length * personality.blunderRange));
+        selectedMove = possibleMoves[Math.floor(random() * range)];
+    } else {
+        selectedMove = possibleMoves[0];
+    }
+
+    if (isChallengeRule(challengeRule) && random() < personality.phonyRate) {
+        selectedMove = makePhony(board, rack, selectedMove, random, isEmptyBoard, currentPlayer, mustStartOnStar);
+    }
+
+    // Log the move if heuristics were used
+    if (useHeuristics && playerName && selectedMove.selectionScore !== undefined) {
+        const remainingRack = getRemainingRack(rack, selectedMove.tiles);
+        const rackLeaveScore = evaluateRackLeave(remainingRack, leaves);
+
+        logAiMove(
+            playerName,
+            selectedMove.word,
+            selectedMove.score,
+            selectedMove.selectionScore,
+            rack.map(t => t.letter).join(''),
+            remainingRack.map(t => t.letter).join('')
+        );
+
+        logHeuristicBreakdown(playerName, rackLeaveScore);
+    }
+
+    return outcome(selectedMove);
+}
+
+/**
+ * Turn a play into a phony by swapping one placed tile for a different
+ * letter from the rack. The placement stays legal; the words usually do not
+ */
+function makePhony(
+    board: BoardState,
+    rack: Tile[],
+    move: AiMoveResult,
+    random: RandomSource,
+    isEmptyBoard: boolean,
+    currentPlayer?: { movesMade?: number },
+    mustStartOnStar?: boolean
+): AiMoveResult {
+    const usedIds = new Set(move.tiles.map(t => t.tile.id));
+    const index = Math.floor(random() * move.tiles.length);
+    const swaps = rack.filter(t => !usedIds.has(t.id) && !t.isBlank && t.letter !== move.tiles[index].tile.letterOverride && t.letter !== move.tiles[index].tile.letter);
+    if (swaps.length === 0) return move;
+
+    const tiles = [...move.tiles];
+    tiles[index] = { ...tiles[index], tile: swaps[Math.floor(random() * swaps.length)] };
+
+    const validation = validateMove(board, tiles, isEmptyBoard, currentPlayer, mustStartOnStar);
+    if (!validation.isValid || !validation.words) return move;
+
+    console.log(`AI bluffs with ${validation.words.join(', ')} instead of ${move.word}`);
+    return {
+        ...move,
+        word: validation.words.join(', '),
+        words: validation.words,
+        score: calculateScore(board, tiles),
+        tiles,
+    };
+}
@@ -0,0 +1,131 @@
+/**
+ * One AI turn through the game engine
+ * Responds to the previous player's pending play, chooses a move and applies
+ * it. Shared by the browser (which passes the server actions) and headless
+ * runners (which call the same functions directly).
+ */
+
+import type { generateAiMove, decideAiChallenge, solveAiEndgame, inferOpponentRack, canAiPlay } from '../app/ai-actions';
+import { GameState, GameAction } from './types';
+import { applyAction, getDecisionSeed, getUnseenTiles } from './gameEngine';
+import { EndgameSolution } from './endgame';
+import { AI_PERSONALITIES } from './constants';
+
+export interface AiActions {
+    generateAiMove: typeof generateAiMove;
+    decideAiChallenge: typeof decideAiChallenge;
+    solveAiEndgame: typeof solveAiEndgame;
+    inferOpponentRack: typeof inferOpponentRack;
+    canAiPlay: typeof canAiPlay;
+}
+
+export interface AiTurnStep {
+    before: GameState;
+    action: GameAction;
+    after: GameState;
+}
+
+export interface AiTurn {
+    state: GameState;
+    steps: AiTurnStep[]; // Actions applied, in order (a challenge or acceptance, then the move)
+    thinkMs: number;     // Time spent choosing the move (0 if the turn ended before one was needed)
+    endgame?: EndgameSolution; // The endgame search behind the move, when one was run
+}
+
+/**
+ * Play the current (AI) player's turn
+ * @param searchGroup - Tags the turn's searches so the caller can cancel them
+ * @throws Error if the engine refuses the AI's action
+ */
+export async function playAiTurn(state: GameState, ai: AiActions, searchGroup?: string): Promise<AiTurn> {
+    const steps: AiTurnStep[] = [];
+    const apply = (action: GameAction) => {
+        const after = applyAction(state, action);
+        steps.push({ before: state, action, after });
+        state = after;
+    };
+
+    const player = state.players[state.currentPlayerIndex];
+    const pending = state.pendingMove;
+    if (pending && pending.playerId !== player.id) {
+        // Teammates' plays are never challenged
+        const mover = state.players.find(p => p.id === pending.playerId);
+        const isTeammate = !!mover?.teamId && mover.teamId === player.teamId;
+        const decision = isTeammate
+            ? { challenge: false, invalidWords: [] }
+            : await ai.decideAiChallenge(pending.words, (player.personality || AI_PERSONALITIES.MEDIUM).challengeRate, state.lexicon, getDecisionSeed(state, 'CHALLENGE'));
+
+        const turnIndex = state.currentPlayerIndex;
+        apply(decision.challenge
+            ? { type: 'CHALLENGE', playerId: player.id, invalidWords: decision.invalidWords }
+            : { type: 'ACCEPT', playerId: player.id });
+
+        // The resolved play may have ended the game, or a failed challenge the turn
+        if (state.gameOver || state.currentPlayerIndex !== turnIndex) {
+            return { state, steps, thinkMs: 0 };
+        }
+    }
+
+    const mover = state.players[state.currentPlayerIndex];
+    const personality = mover.personality || AI_PERSONALITIES.MEDIUM;
+    const start = Date.now();
+
+    // With the bag empty and one opponent, strong AIs search the rest of the game
+    const opponents = state.players.filter(p => p.id !== mover.id);
+    if (state.bag.length === 0 && opponents.length === 1 && personality.solveEndgames) {
+        const endgame = await ai.solveAiEndgame(state.board, mover.rack, opponents[0].rack, state.lexicon, undefined, searchGroup);
+        const thinkMs = Date.now() - start;
+        apply(endgame.tiles.length > 0
+            ? { type: 'PLACE', playerId: mover.id, tiles: endgame.tiles }
+            : { type: 'PASS', playerId: mover.id });
+        return { state, steps, thinkMs, endgame };
+    }
+
+    // Simulating AIs read the opponent's last play to guess what they kept
+    const unseen = personality.simulate ? getUnseenTiles(state, mover.id) : undefined;
+    const inference = unseen && opponents.length === 1
+        ? await ai.inferOpponentRack(state.board, state.moveHistory, opponents[0].id, unseen, opponents[0].rack.length, state.lexicon, mover.leaveTable, getDecisionSeed(state, 'INFERENCE'), searchGroup)
+        : undefined;
+
+    const bestMove = await ai.generateAiMove(
+        state.board,
+        mover.rack,
+        personality,
+        mover.useHeuristics || false,
+        mover.name,
+        mover,
+        state.mustStartOnStar,
+        mover.moveGenerator,
+        state.lexicon,
+        state.bag.length,
+        state.challengeRule,
+        getDecisionSeed(state, 'MOVE'),
+        unseen,
+        mover.leaveTable,
+        inference,
+        searchGroup
+    );
+    const thinkMs = Date.now() - start;
+
+    // With no valid moves the AI resigns, and the turn counts as a pass; in a
+    // team game it only passes while a teammate can still play (a human
+    // teammate who has not resigned is taken to)
+    if (!bestMove) {
+        let teammateCanPlay = false;
+        if (state.gameMode === 'TEAMS') {
+            const teammates = state.players.filter(p => p.teamId === mover.teamId && p.id !== mover.id && !p.resigned);
+            teammateCanPlay = teammates.some(p => !p.isAi);
+            for (const teammate of teammates) {
+                if (teammateCanPlay) break;
+                teammateCanPlay = await ai.canAiPlay(state.board, teammate.rack, teammate, state.mustStartOnStar, teammate.moveGenerator, state.lexicon, searchGroup);
+            }
+        }
+        apply({ type: teammateCanPlay ? 'PASS' : 'RESIGN', playerId: mover.id });
+    } else if (bestMove.type === 'EXCHANGE') {
+        apply({ type: 'EXCHANGE', playerId: mover.id, tiles: bestMove.exchangeTiles || [] });
+    } else {
+        apply({ type: 'PLACE', playerId: mover.id, tiles: bestMove.tiles });
+    }
+
+    return { state, steps, thinkMs };
+}
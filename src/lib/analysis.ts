@@ -0,0 +1,173 @@
+/**
+ * Post-game analysis
+ * Replays a finished game's history position by position, finds every legal
+ * play for the mover's rack and grades the move made by equity (score plus
+ * the value of the tiles kept) against the best of them. A pass keeps the
+ * whole rack and an exchange the tiles it did not return; neither scores,
+ * and a pass is always an alternative. Exchanges are not offered as
+ * alternatives, as past positions do not record how full the bag was.
+ */
+
+import { BoardState, Move, Tile } from './types';
+import { findLegalPlays } from './ai-move';
+import { loadLeaveTable } from './leave-store';
+import { LeaveTable, leaveKey } from './leave-values';
+import { getRemainingRack, evaluateRackLeave } from './heuristics';
+import { boardBeforeMove, isBoardPlay, describePosition } from './gameUtils';
+import { ANALYSIS_TOLERANCE } from './constants';
+
+export interface AnalyzedPlay {
+    description: string;    // e.g. "8H KERRY", "Pass", "Exchange 3"
+    score: number;
+    leave: string;          // Tiles kept, sorted, '?' for a blank
+    equity: number;         // Score plus the value of the leave
+}
+
+export interface MoveAnalysis {
+    moveIndex: number;      // Index into the game's moveHistory
+    playerId: string;
+    played: AnalyzedPlay;
+    best: AnalyzedPlay[];   // Best alternatives first; may include the move made
+    equityLost: number;     // Best equity minus the move's, never below 0
+    rank: number;           // Place of the move among the alternatives by equity, 1 = best
+    legalPlays: number;
+}
+
+export interface PlayerAccuracy {
+    playerId: string;
+    name: string;
+    moves: number;          // Moves graded
+    bestMoves: number;      // Moves within ANALYSIS_TOLERANCE of the best
+    equityLost: number;     // Total over the graded moves
+    accuracy: number;       // bestMoves / moves, from 0 to 1
+}
+
+export interface GameAnalysis {
+    moves: MoveAnalysis[];
+    players: PlayerAccuracy[];
+    leaveTable: string;
+    complete: boolean;      // false if the time ran out before the last move
+}
+
+export interface AnalysisRequest {
+    board: BoardState;      // The final board
+    moveHistory: Move[];
+    players: Array<{ id: string; name: string }>;
+    mustStartOnStar?: boolean;
+    lexicon: string;
+    leaveTable: string;     // Values every leave, for every player alike
+    alternatives: number;   // Alternatives to keep per move
+}
+
+const rackLeave = (tiles: Tile[], leaves: LeaveTable) => ({ leave: leaveKey(tiles), leaveValue: evaluateRackLeave(tiles, leaves) });
+
+/**
+ * The move as made, valued like the alternatives
+ * @returns null for moves that cannot be graded (challenges, or no rack recorded)
+ */
+function playedMove(move: Move, board: BoardState, leaves: LeaveTable): AnalyzedPlay | null {
+    const rack = move.rack;
+    if (!rack) return null;
+
+    if (move.type === 'EXCHANGE') {
+        if (!move.exchanged) return null;
+        const exchangedIds = new Set(move.exchanged.map(t => t.id));
+        const { leave, leaveValue } = rackLeave(rack.filter(t => !exchangedIds.has(t.id)), leaves);
+        return { description: `Exchange ${move.exchanged.length}`, score: 0, leave, equity: leaveValue };
+    }
+    if (move.type === 'PASS') {
+        const { leave, leaveValue } = rackLeave(rack, leaves);
+        return { description: 'Pass', score: 0, leave, equity: leaveValue };
+    }
+    if (move.type === 'CHALLENGE') return null;
+
+    // A withdrawn play took its tiles back: the rack is kept whole, for no score
+    if (move.withdrawn) {
+        const { leave, leaveValue } = rackLeave(rack, leaves);
+        return { description: `${move.word} (withdrawn)`, score: 0, leave, equity: leaveValue };
+    }
+    const { leave, leaveValue } = rackLeave(getRemainingRack(rack, move.tiles), leaves);
+    return {
+        description: `${describePosition(board, move.tiles)} ${move.word}`,
+        score: move.score,
+        leave,
+        equity: move.score + leaveValue,
+    };
+}
+
+/**
+ * Grade every move of a game against the best play of its position
+ * @param request - The finished game, and how to value leaves
+ * @param shouldStop - Ends the analysis early with the moves graded so far
+ */
+export function analyzeGame(request: AnalysisRequest, shouldStop: () => boolean): GameAnalysis {
+    const { moveHistory, mustStartOnStar, lexicon } = request;
+    const leaves = loadLeaveTable(request.leaveTable);
+    const moves: MoveAnalysis[] = [];
+    const playsMade = new Map<string, number>(); // Plays on the board so far, by player
+    let complete = true;
+
+    for (let i = 0; i < moveHistory.length; i++) {
+        const move = moveHistory[i];
+        const movesMade = playsMade.get(move.playerId) || 0;
+        if (isBoardPlay(move) && move.tiles.length > 0) {
+            playsMade.set(move.playerId, movesMade + 1);
+        }
+
+        const board = boardBeforeMove(request.board, moveHistory, i);
+        const played = playedMove(move, board, leaves);
+        if (!played || !move.rack) continue;
+        if (shouldStop()) {
+            complete = false;
+            break;
+        }
+
+        const { plays, complete: searched } = findLegalPlays({
+            board,
+            rack: move.rack,
+            currentPlayer: { movesMade },
+            mustStartOnStar,
+            moveGenerator: 'DAWG',
+            lexicon,
+        }, shouldStop);
+        if (!searched) {
+            complete = false;
+            break;
+        }
+
+        const pass = rackLeave(move.rack, leaves);
+        const alternatives: AnalyzedPlay[] = [
+            ...plays.map(play => {
+                const { leave, leaveValue } = rackLeave(getRemainingRack(move.rack!, play.tiles), leaves);
+                return { description: `${describePosition(board, play.tiles)} ${play.word}`, score: play.score, leave, equity: play.score + leaveValue };
+            }),
+            { description: 'Pass', score: 0, leave: pass.leave, equity: pass.leaveValue },
+        ].sort((a, b) => b.equity - a.equity);
+
+        const bestEquity = Math.max(alternatives[0].equity, played.equity);
+        moves.push({
+            moveIndex: i,
+            playerId: move.playerId,
+            played,
+            best: alternatives.slice(0, request.alternatives),
+            equityLost: bestEquity - played.equity,
+            rank: 1 + alternatives.filter(a => a.equity > played.equity).length,
+            legalPlays: plays.length,
+        });
+    }
+
+    const players = request.players.map(({ id, name }) => {
+        const graded = moves.filter(m => m.playerId === id);
+        const bestMoves = graded.filter(m => m.equityLost <= ANALYSIS_TOLERANCE).length;
+        return {
+            playerId: id,
+            name,
+            moves: graded.length,
+            bestMoves,
+            equityLost: graded.reduce((sum, m) => sum + m.equityLost, 0),
+            accuracy: graded.length > 0 ? bestMoves / graded.length : 0,
+        };
+    });
+
+    return { moves, players, leaveTable: request.leaveTable, complete };
+}
@@ -0,0 +1,220 @@
+/**
+ * Board index
+ * What move generation, scoring and validation need to know about the empty
+ * squares of a board, kept between turns instead of rescanned: the
+ * cross-set of each square (letters that make a valid perpendicular word),
+ * that word's existing letters and their face value, and the anchors. A play
+ * only changes these at the two ends of every run of tiles it extends, so an
+ * index is updated after a move by recomputing those squares alone.
+ */
+
+import { BoardState, Tile } from './types';
+import { PackedDAWG } from './dawg';
+import { CrossSet, calculateCrossSetAt } from './cross-sets';
+import { findAnchors } from './move-generator';
+import { getTileLetter } from './gameUtils';
+import { BOARD_INDEX_CACHE_SIZE } from './constants';
+
+export interface CrossWord {
+    prefix: string;         // Letters before the square
+    suffix: string;         // Letters after the square
+    score: number;          // Face value of those letters (blanks count 0)
+}
+
+export interface BoardIndex {
+    board: BoardState;                  // Board the index describes
+    dawg: PackedDAWG;                   // Lexicon the cross-sets allow words of
+    crossSets: Map<string, CrossSet>;   // As calculateCrossSets: "x,y,H" checks the row, "x,y,V" the column
+    crossWords: Map<string, CrossWord>; // Same keys; only squares with tiles beside them in that direction
+    anchors: Set<string>;               // "x,y" of every empty square next to a tile
+    tileCount: number;
+}
+
+const DIRECTIONS = [
+    { horizontal: true, suffix: 'H', dx: 1, dy: 0 },
+    { horizontal: false, suffix: 'V', dx: 0, dy: 1 },
+];
+
+/**
+ * Letters either side of a square along a direction, or null if it has no neighbours there
+ */
+function crossWordAt(board: BoardState, x: number, y: number, dx: number, dy: number): CrossWord | null {
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+    const tileAt = (cx: number, cy: number): Tile | null => (
+        cx >= 0 && cy >= 0 && cx < cols && cy < rows ? board[cy][cx].tile : null
+    );
+
+    let prefix = '';
+    let suffix = '';
+    let score = 0;
+    for (let cx = x - dx, cy = y - dy, tile = tileAt(cx, cy); tile; cx -= dx, cy -= dy, tile = tileAt(cx, cy)) {
+        prefix = getTileLetter(tile) + prefix;
+        score += tile.score;
+    }
+    for (let cx = x + dx, cy = y + dy, tile = tileAt(cx, cy); tile; cx += dx, cy += dy, tile = tileAt(cx, cy)) {
+        suffix += getTileLetter(tile);
+        score += tile.score;
+    }
+    return prefix || suffix ? { prefix, suffix, score } : null;
+}
+
+/**
+ * Index a board from scratch
+ * @param board - Board to index
+ * @param dawg - Lexicon the cross-sets are checked against
+ */
+export function buildBoardIndex(board: BoardState, dawg: PackedDAWG): BoardIndex {
+    const crossSets = new Map<string, CrossSet>();
+    const crossWords = new Map<string, CrossWord>();
+    const anchors = new Set<string>();
+    let tileCount = 0;
+
+    for (let y = 0; y < board.length; y++) {
+        for (let x = 0; x < board[y].length; x++) {
+            if (board[y][x].tile) {
+                tileCount++;
+                continue;
+            }
+
+            const words = DIRECTIONS.map(d => crossWordAt(board, x, y, d.dx, d.dy));
+            const isAnchor = words.some(word => word !== null);
+            if (isAnchor) anchors.add(`${x},${y}`);
+
+            DIRECTIONS.forEach((d, i) => {
+                const key = `${x},${y},${d.suffix}`;
+                crossSets.set(key, { letters: calculateCrossSetAt(board, x, y, d.horizontal, dawg), isAnchor });
+                const word = words[i];
+                if (word) crossWords.set(key, word);
+            });
+        }
+    }
+
+    return { board, dawg, crossSets, crossWords, anchors, tileCount };
+}
+
+/**
+ * Index of the board after tiles are placed, updated from the index before
+ * The old index is left as it was, so searches can branch from it
+ * @param index - Index of the board before the tiles were placed
+ * @param board - Board with the tiles placed
+ * @param placed - Squares that were filled
+ */
+export function updateBoardIndex(index: BoardIndex, board: BoardState, placed: Array<{ x: number; y: number }>): BoardIndex {
+    if (placed.length === 0) return { ...index, board };
+
+    const crossSets = new Map(index.crossSets);
+    const crossWords = new Map(index.crossWords);
+    const anchors = new Set(index.anchors);
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+
+    for (const { x, y } of placed) {
+        anchors.delete(`${x},${y}`);
+        for (const d of DIRECTIONS) {
+            crossSets.delete(`${x},${y},${d.suffix}`);
+            crossWords.delete(`${x},${y},${d.suffix}`);
+        }
+    }
+
+    // The first empty square past each end of the runs the new tiles are in
+    const stale = new Map<string, { x: number; y: number; direction: typeof DIRECTIONS[number] }>();
+    for (const { x, y } of placed) {
+        for (const direction of DIRECTIONS) {
+            for (const step of [-1, 1]) {
+                let cx = x;
+                let cy = y;
+                while (cx >= 0 && cy >= 0 && cx < cols && cy < rows && board[cy][cx].tile) {
+                    cx += step * direction.dx;
+                    cy += step * direction.dy;
+                }
+                if (cx >= 0 && cy >= 0 && cx < cols && cy < rows) {
+                    stale.set(`${cx},${cy},${direction.suffix}`, { x: cx, y: cy, direction });
+                }
+            }
+        }
+    }
+
+    for (const [key, { x, y, direction }] of stale) {
+        // Next to a tile now, so an anchor in both directions
+        anchors.add(`${x},${y}`);
+        crossSets.set(key, { letters: calculateCrossSetAt(board, x, y, direction.horizontal, index.dawg), isAnchor: true });
+        const word = crossWordAt(board, x, y, direction.dx, direction.dy);
+        if (word) crossWords.set(key, word);
+
+        const otherKey = `${x},${y},${direction.horizontal ? 'V' : 'H'}`;
+        const other = crossSets.get(otherKey);
+        if (other && !other.isAnchor) crossSets.set(otherKey, { ...other, isAnchor: true });
+    }
+
+    return { board, dawg: index.dawg, crossSets, crossWords, anchors, tileCount: index.tileCount + placed.length };
+}
+
+/**
+ * Anchors for move generation, as findAnchors would find them
+ * An empty board, or a player who must start on a star, has anchors only on
+ * the star squares, which are looked up on the board itself
+ */
+export function getIndexAnchors(
+    index: BoardIndex,
+    mustStartOnStar?: boolean,
+    currentPlayer?: { movesMade?: number }
+): Array<{ x: number; y: number }> {
+    const mustPlaceOnStar = mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined);
+    if (index.tileCount === 0 || mustPlaceOnStar) {
+        return findAnchors(index.board, mustStartOnStar, currentPlayer);
+    }
+
+    return Array.from(index.anchors, key => {
+        const [x, y] = key.split(',').map(Number);
+        return { x, y };
+    }).sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+// Recently used indexes, most recent first
+const recentIndexes: BoardIndex[] = [];
+
+const sameTile = (a: Tile, b: Tile) => a.id === b.id && getTileLetter(a) === getTileLetter(b);
+
+/**
+ * Index for a board, updated from a recently used index of an earlier
+ * position of the same game where there is one, else built from scratch
+ * @param board - Board to index
+ * @param dawg - Lexicon the cross-sets are checked against
+ */
+export function getBoardIndex(board: BoardState, dawg: PackedDAWG): BoardIndex {
+    let best: { index: BoardIndex; placed: Array<{ x: number; y: number }> } | null = null;
+
+    for (const index of recentIndexes) {
+        if (index.dawg !== dawg || index.board.length !== board.length || index.board[0]?.length !== board[0]?.length) continue;
+
+        // Usable if every tile it knows is still on the board; the rest were placed since
+        const placed: Array<{ x: number; y: number }> = [];
+        let usable = true;
+        for (let y = 0; y < board.length && usable; y++) {
+            for (let x = 0; x < board[y].length; x++) {
+                const before = index.board[y][x].tile;
+                const now = board[y][x].tile;
+                if (before && (!now || !sameTile(before, now))) {
+                    usable = false;
+                    break;
+                }
+                if (!before && now) placed.push({ x, y });
+            }
+        }
+        if (usable && (!best || placed.length < best.placed.length)) {
+            best = { index, placed };
+        }
+    }
+
+    if (best && best.placed.length === 0) {
+        recentIndexes.splice(recentIndexes.indexOf(best.index), 1);
+        recentIndexes.unshift(best.index);
+        return best.index;
+    }
+
+    const index = best ? updateBoardIndex(best.index, board, best.placed) : buildBoardIndex(board, dawg);
+    recentIndexes.unshift(index);
+    recentIndexes.length = Math.min(recentIndexes.length, BOARD_INDEX_CACHE_SIZE);
+    return index;
+}
@@ -0,0 +1,177 @@
+/**
+ * Word challenges
+ * Under the SINGLE and DOUBLE rules a play goes on the board provisionally
+ * and the next player either accepts it (by challenging nothing) or challenges.
+ * A successful challenge takes the play back; a failed one costs the
+ * challenger points (SINGLE) or their turn (DOUBLE)
+ */
+
+import { GameState, Move, PendingMove, ChallengeRule } from './types';
+import { CHALLENGE_PENALTY_POINTS, RACK_SIZE } from './constants';
+import { drawTiles, clearBlankDesignation, nextPlayerIndex } from './gameUtils';
+import { RandomSource } from './random';
+
+/**
+ * Check whether plays are provisional under this rule
+ */
+export function isChallengeRule(rule: ChallengeRule | undefined): boolean {
+    return rule === 'SINGLE' || rule === 'DOUBLE';
+}
+
+/**
+ * Put a play on the board provisionally and pass the turn
+ * The tiles leave the player's rack and the score is counted, but no
+ * replacement tiles are drawn until the play is accepted
+ */
+export function placePendingMove(state: GameState, pending: PendingMove): GameState {
+    const board = [...state.board];
+    pending.tiles.forEach(({ x, y, tile }) => {
+        board[y] = [...board[y]];
+        board[y][x] = { ...board[y][x], tile };
+    });
+
+    const usedIds = new Set(pending.tiles.map(t => t.tile.id));
+    const players = state.players.map(p => p.id === pending.playerId
+        ? { ...p, rack: p.rack.filter(t => !usedIds.has(t.id)), score: p.score + pending.score }
+        : p
+    );
+
+    return {
+        ...state,
+        board,
+        players,
+        teamScores: adjustTeamScore(state, pending.playerId, pending.score),
+        pendingMove: pending,
+        currentPlayerIndex: nextPlayerIndex(state),
+    };
+}
+
+/**
+ * Make the pending play final: its player draws and it enters the history
+ */
+export function acceptPendingMove(state: GameState, random: RandomSource = Math.random): GameState {
+    const pending = state.pendingMove;
+    if (!pending) return state;
+
+    const mover = state.players.find(p => p.id === pending.playerId)!;
+    const { drawn, newBag } = drawTiles(state.bag, RACK_SIZE - mover.rack.length, mover.id, random);
+
+    const move: Move = {
+        type: 'PLAY',
+        playerId: pending.playerId,
+        word: pending.word,
+        score: pending.score,
+        tiles: pending.tiles,
+        rack: pending.rack,
+    };
+
+    return {
+        ...state,
+        bag: newBag,
+        players: state.players.map(p => p.id === mover.id
+            ? { ...p, rack: [...p.rack, ...drawn], movesMade: (p.movesMade || 0) + 1 }
+            : p
+        ),
+        moveHistory: [...state.moveHistory, move],
+        pendingMove: null,
+    };
+}
+
+/**
+ * Take the pending play back: tiles return to the rack, the score is removed
+ * and the turn is recorded as a scoreless, withdrawn play
+ */
+function withdrawPendingMove(state: GameState): GameState {
+    const pending = state.pendingMove;
+    if (!pending) return state;
+
+    const board = [...state.board];
+    pending.tiles.forEach(({ x, y }) => {
+        board[y] = [...board[y]];
+        board[y][x] = { ...board[y][x], tile: null };
+    });
+
+    const returned = pending.tiles.map(t => clearBlankDesignation(t.tile));
+    const move: Move = {
+        type: 'PLAY',
+        playerId: pending.playerId,
+        word: pending.word,
+        score: 0,
+        tiles: pending.tiles,
+        withdrawn: true,
+        rack: pending.rack,
+    };
+
+    return {
+        ...state,
+        board,
+        players: state.players.map(p => p.id === pending.playerId
+            ? { ...p, rack: [...p.rack, ...returned], score: p.score - pending.score }
+            : p
+        ),
+        teamScores: adjustTeamScore(state, pending.playerId, -pending.score),
+        moveHistory: [...state.moveHistory, move],
+        pendingMove: null,
+    };
+}
+
+/**
+ * Resolve a challenge of the pending play by the current player
+ * @param state - State with a pending play
+ * @param invalidWords - Words of the pending play missing from the lexicon
+ * @param random - Draws the mover's tiles if the play stands
+ * @returns The new state, and whether the challenger still has their turn
+ */
+export function resolveChallenge(state: GameState, invalidWords: string[], random: RandomSource = Math.random): { state: GameState; upheld: boolean; challengerKeepsTurn: boolean } {
+    const pending = state.pendingMove;
+    const challenger = state.players[state.currentPlayerIndex];
+    if (!pending || !challenger) {
+        return { state, upheld: false, challengerKeepsTurn: true };
+    }
+
+    const upheld = invalidWords.length > 0;
+    const rule = state.challengeRule;
+    const turnLost = !upheld && rule === 'DOUBLE';
+    const penalty = !upheld && rule === 'SINGLE' ? CHALLENGE_PENALTY_POINTS : 0;
+
+    let next = upheld ? withdrawPendingMove(state) : acceptPendingMove(state, random);
+
+    const challenge: Move = {
+        type: 'CHALLENGE',
+        playerId: challenger.id,
+        word: upheld ? invalidWords.join(', ') : pending.words.join(', '),
+        score: -penalty,
+        tiles: [],
+        challengedPlayerId: pending.playerId,
+        challengeUpheld: upheld,
+        turnLost,
+    };
+
+    next = {
+        ...next,
+        players: next.players.map(p => p.id === challenger.id ? { ...p, score: p.score - penalty } : p),
+        teamScores: adjustTeamScore(next, challenger.id, -penalty),
+        moveHistory: [...next.moveHistory, challenge],
+        currentPlayerIndex: turnLost ? nextPlayerIndex(next) : next.currentPlayerIndex,
+    };
+
+    return { state: next, upheld, challengerKeepsTurn: !turnLost };
+}
+
+/**
+ * Describe a resolved challenge for the message bar
+ */
+export function describeChallenge(state: GameState, challengerName: string, upheld: boolean, invalidWords: string[]): string {
+    if (upheld) {
+        return `${challengerName} challenged successfully: ${invalidWords.join(', ')} ${invalidWords.length === 1 ? 'is' : 'are'} not valid. The play is withdrawn.`;
+    }
+    return state.challengeRule === 'DOUBLE'
+        ? `${challengerName}'s challenge failed and loses the turn.`
+        : `${challengerName}'s challenge failed: -${CHALLENGE_PENALTY_POINTS} points.`;
+}
+
+function adjustTeamScore(state: GameState, playerId: string, points: number): Record<string, number> | undefined {
+    const player = state.players.find(p => p.id === playerId);
+    if (!state.teamScores || !player?.teamId || points === 0) return state.teamScores;
+    return { ...state.teamScores, [player.teamId]: (state.teamScores[player.teamId] || 0) + points };
+}
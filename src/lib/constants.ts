@@ -1,5 +1,9 @@
+import type { AiDifficulty, AiPersonality } from './types';
+
 export const BOARD_SIZE = 15;
 
+export const DEFAULT_LEXICON = 'CSW';
+
 export type BonusType = 'DL' | 'TL' | 'DW' | 'TW' | 'START' | 'HAZARD';
 
 export const STANDARD_BOARD: Record<string, BonusType> = {
@@ -109,3 +113,107 @@ export const TILE_DISTRIBUTION: Record<string, { count: number; score: number }>
   Z: { count: 1, score: 10 },
   _: { count: 2, score: 0 }, // Blank tiles
 };
+
+// Tiles on a full rack
+export const RACK_SIZE = 7;
+
+// Tiles must be exchanged from a bag holding at least this many
+export const MIN_BAG_SIZE_FOR_EXCHANGE = 7;
+
+// The game ends after this many consecutive turns without points
+export const MAX_SCORELESS_TURNS = 6;
+
+// Single challenge: points lost by a challenger whose challenge fails
+export const CHALLENGE_PENALTY_POINTS = 5;
+
+// Saved games: the format version written (older saves are migrated on
+// load, see savedGames.ts) and how many games are kept, latest first
+export const SAVED_GAME_VERSION = 1;
+export const MAX_SAVED_GAMES = 10;
+
+// Replay viewer: time each move stays on the board at normal speed during
+// autoplay, and the speeds offered
+export const REPLAY_STEP_MS = 1500;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Players in a game dealt from seats (online and hot-seat games)
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 4;
+
+// Online games: the multiplayer server's default port, how long a room
+// outlives its last connected human, how often the server checks connections
+// are alive, and the client's waits between reconnection attempts (the last
+// repeats)
+export const MULTIPLAYER_PORT = 3001;
+export const ROOM_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+export const ONLINE_PING_INTERVAL_MS = 30000;
+export const RECONNECT_DELAYS_MS = [500, 1000, 2000, 5000];
+
+// Leave tables: the one AIs use unless told otherwise, and the built-in
+// table that values every leave at 0 (score-only play)
+export const DEFAULT_LEAVE_TABLE = 'default';
+export const NO_LEAVE_TABLE = 'none';
+
+// Built-in personality presets in the order they are offered
+export const AI_DIFFICULTIES: AiDifficulty[] = ['EASY', 'MEDIUM', 'HARD', 'SIMULATION'];
+
+// SIMULATION AI: default thinking time, how many of the best static plays it
+// compares, and how many plies each sample looks ahead (2 = the reply)
+export const SIMULATION_TIME_BUDGET_MS = 2000;
+export const SIMULATION_CANDIDATES = 10;
+export const SIMULATION_PLIES = 2;
+
+// Rack inference: candidate leaves weighed per inference, the time allowed for
+// them, and how fast a leave becomes unlikely as the play it implies falls
+// short of the best play (points of equity per factor of e)
+export const INFERENCE_SAMPLES = 100;
+export const INFERENCE_TIME_BUDGET_MS = 1000;
+export const INFERENCE_TEMPERATURE = 5;
+
+// Move worker pool: at most this many worker threads (one fewer than the CPUs,
+// at least one), the time any AI search gets on top of its thinking time
+// before it must answer with the best move found so far, how long past that a
+// search may run before its worker is stopped, and how many positions' legal
+// play counts are kept for team resignation checks
+export const MOVE_WORKERS_MAX = 4;
+export const AI_MOVE_DEADLINE_MS = 5000;
+export const AI_MOVE_GRACE_MS = 2000;
+export const LEGAL_PLAYS_CACHE_SIZE = 256;
+
+// Board indexes (cross-sets, cross-scores and anchors) kept per worker, so the
+// next turn's index can be updated from one of them rather than rebuilt
+export const BOARD_INDEX_CACHE_SIZE = 8;
+
+// Plays the hint panel lists, best first
+export const HINT_COUNT = 5;
+
+// Post-game analysis: alternatives listed per move, equity within which a move
+// still counts as the best, and the time allowed for a whole game
+export const ANALYSIS_ALTERNATIVES = 3;
+export const ANALYSIS_TOLERANCE = 1;
+export const ANALYSIS_TIME_BUDGET_MS = 30000;
+
+// Thinking time of the endgame solver, which AIs that solve endgames use once the bag is empty
+export const ENDGAME_TIME_BUDGET_MS = 3000;
+
+// Built-in AI personalities, one per difficulty. EASY picks any legal play,
+// MEDIUM one from the better half, and both bluff now and then; HARD and
+// SIMULATION always challenge phonies and solve endgames
+export const AI_PERSONALITIES: Record<AiDifficulty, AiPersonality> = {
+  EASY: {
+    name: 'EASY', vocabulary: 1, maxWordLength: 0, bingoAwareness: 1, defensiveness: 0, exchangeWillingness: 0,
+    blunderRate: 1, blunderRange: 1, thinkTimeMs: 500, simulate: false, solveEndgames: false, challengeRate: 0.5, phonyRate: 0.15,
+  },
+  MEDIUM: {
+    name: 'MEDIUM', vocabulary: 1, maxWordLength: 0, bingoAwareness: 1, defensiveness: 0, exchangeWillingness: 0,
+    blunderRate: 1, blunderRange: 0.5, thinkTimeMs: 500, simulate: false, solveEndgames: false, challengeRate: 0.8, phonyRate: 0.05,
+  },
+  HARD: {
+    name: 'HARD', vocabulary: 1, maxWordLength: 0, bingoAwareness: 1, defensiveness: 0, exchangeWillingness: 0,
+    blunderRate: 0, blunderRange: 0, thinkTimeMs: 500, simulate: false, solveEndgames: true, challengeRate: 1, phonyRate: 0,
+  },
+  SIMULATION: {
+    name: 'SIMULATION', vocabulary: 1, maxWordLength: 0, bingoAwareness: 1, defensiveness: 0, exchangeWillingness: 0,
+    blunderRate: 0, blunderRange: 0, thinkTimeMs: SIMULATION_TIME_BUDGET_MS, simulate: true, solveEndgames: true, challengeRate: 1, phonyRate: 0,
+  },
+};
@@ -4,7 +4,8 @@
  */
 
 import { BoardState } from './types';
-import { DAWGNode, getNodeAtPrefix } from './dawg';
+import { PackedDAWG, isValidWord } from './dawg';
+import { getTileLetter } from './gameUtils';
 
 export interface CrossSet {
     letters: Set<string>; // Valid letters at this position
@@ -14,12 +15,12 @@ export interface CrossSet {
 /**
  * Calculate cross-sets for all positions on the board
  * @param board - Current board state
- * @param dawg - DAWG root node for word validation
+ * @param dawg - Packed DAWG for word validation
  * @returns Map of position -> CrossSet
  */
 export function calculateCrossSets(
     board: BoardState,
-    dawg: DAWGNode
+    dawg: PackedDAWG
 ): Map<string, CrossSet> {
     const crossSets = new Map<string, CrossSet>();
     const rows = board.length;
@@ -58,15 +59,15 @@ export function calculateCrossSets(
  * @param x - X coordinate
  * @param y - Y coordinate
  * @param isHorizontal - true for horizontal cross-check, false for vertical
- * @param dawg - DAWG root node
+ * @param dawg - Packed DAWG
  * @returns Set of valid letters
  */
-function calculateCrossSetAt(
+export function calculateCrossSetAt(
     board: BoardState,
     x: number,
     y: number,
     isHorizontal: boolean,
-    dawg: DAWGNode
+    dawg: PackedDAWG
 ): Set<string> {
     const rows = board.length;
     const cols = board[0]?.length || 0;
@@ -99,7 +100,7 @@ function calculateCrossSetAt(
     let py = beforeY;
 
     while (px >= 0 && py >= 0 && px < cols && py < rows && board[py][px].tile) {
-        prefix = board[py][px].tile!.letter + prefix;
+        prefix = getTileLetter(board[py][px].tile!) + prefix;
         px -= dx;
         py -= dy;
     }
@@ -110,7 +111,7 @@ function calculateCrossSetAt(
     let sy = afterY;
 
     while (sx >= 0 && sy >= 0 && sx < cols && sy < rows && board[sy][sx].tile) {
-        suffix += board[sy][sx].tile!.letter;
+        suffix += getTileLetter(board[sy][sx].tile!);
         sx += dx;
         sy += dy;
     }
@@ -123,7 +124,7 @@ function calculateCrossSetAt(
         const word = prefix + letter + suffix;
 
         // Check if this forms a valid word
-        if (isValidWordInDAWG(dawg, word)) {
+        if (isValidWord(dawg, word)) {
             validLetters.add(letter);
         }
     }
@@ -171,23 +172,6 @@ function getAllLetters(): Set<string> {
     return letters;
 }
 
-/**
- * Check if a word is valid in the DAWG
- */
-function isValidWordInDAWG(dawg: DAWGNode, word: string): boolean {
-    let currentNode = dawg;
-
-    for (const letter of word) {
-        const child = currentNode.children.get(letter);
-        if (!child) {
-            return false;
-        }
-        currentNode = child;
-    }
-
-    return currentNode.isEndOfWord;
-}
-
 /**
  * Get cross-set for a specific position and direction
  * @param crossSets - Pre-calculated cross-sets
@@ -0,0 +1,133 @@
+/**
+ * On-disk storage for packed DAWG/GADDAG lexicons
+ * Binaries are built once from a lexicon's word lists and read directly
+ * afterwards, so a cold server start never re-parses the text files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PackedDAWG, buildDAWG, buildGADDAG, serializeDAWG, deserializeDAWG } from './dawg';
+import { MoveGeneratorType } from './types';
+
+/**
+ * Where a lexicon's words come from and where its binaries live
+ */
+export interface LexiconSource {
+    binaryBase: string;           // Binaries are `${binaryBase}.dawg` / `${binaryBase}.gaddag`
+    inputs: string[];             // Files the words are read from; newer inputs trigger a rebuild
+    readWords: () => string[];
+}
+
+// One structure per lexicon and type, shared by validation and move generation
+const cache = new Map<string, PackedDAWG>();
+
+/**
+ * Uppercase one word-list entry
+ * @param entry - The entry as written, already trimmed
+ * @param where - Where the entry came from, for the error message
+ * @throws Error if the entry is anything but the letters A-Z
+ */
+export function toLexiconWord(entry: string, where: string): string {
+    if (!/^[A-Za-z]+$/.test(entry)) {
+        throw new Error(`${where}: "${entry}" is not a word; lexicon entries may only use the letters A-Z`);
+    }
+    return entry.toUpperCase();
+}
+
+/**
+ * Read a newline-separated word list
+ * @returns Uppercase words, blank lines removed
+ * @throws Error naming the file and line of any entry that is not all letters A-Z
+ */
+export function readWordList(filePath: string): string[] {
+    const file = path.relative(process.cwd(), filePath);
+    const words: string[] = [];
+    fs.readFileSync(filePath, 'utf-8').split('\n').forEach((line, i) => {
+        const entry = line.trim();
+        if (entry.length > 0) words.push(toLexiconWord(entry, `${file}:${i + 1}`));
+    });
+    return words;
+}
+
+/**
+ * Source for a single word-list file, e.g. sowpods.txt -> sowpods.dawg
+ */
+export function wordListSource(filePath: string): LexiconSource {
+    const { dir, name } = path.parse(filePath);
+    return {
+        binaryBase: path.join(dir, name),
+        inputs: [filePath],
+        readWords: () => readWordList(filePath),
+    };
+}
+
+/**
+ * Path of the binary for a lexicon source and structure
+ */
+export function getBinaryPath(source: LexiconSource, structure: MoveGeneratorType): string {
+    return `${source.binaryBase}.${structure.toLowerCase()}`;
+}
+
+function build(words: string[], structure: MoveGeneratorType): PackedDAWG {
+    return structure === 'GADDAG' ? buildGADDAG(words) : buildDAWG(words);
+}
+
+function buildFromSource(source: LexiconSource, structure: MoveGeneratorType): PackedDAWG {
+    const words = source.readWords();
+    console.log(`Building ${structure} from ${words.length} words...`);
+    return build(words, structure);
+}
+
+function writeBinary(binaryPath: string, dawg: PackedDAWG, structure: MoveGeneratorType): void {
+    fs.writeFileSync(binaryPath, serializeDAWG(dawg));
+    console.log(`${structure} written to ${binaryPath} (${dawg.data.byteLength} bytes)`);
+}
+
+/**
+ * Build a lexicon structure and write its binary to disk
+ * @returns The structure that was written
+ */
+export function writeLexiconBinary(source: LexiconSource, structure: MoveGeneratorType): PackedDAWG {
+    const dawg = buildFromSource(source, structure);
+    const binaryPath = getBinaryPath(source, structure);
+    writeBinary(binaryPath, dawg, structure);
+
+    cache.set(binaryPath, dawg);
+    return dawg;
+}
+
+/**
+ * Load a lexicon structure, reading the binary when it is up to date with
+ * its inputs and building (and saving) it otherwise
+ */
+export function loadLexiconBinary(source: LexiconSource, structure: MoveGeneratorType): PackedDAWG {
+    const binaryPath = getBinaryPath(source, structure);
+    const cached = cache.get(binaryPath);
+    if (cached) return cached;
+
+    let dawg: PackedDAWG | null = null;
+    const newestInput = Math.max(...source.inputs.map(file => fs.statSync(file).mtimeMs));
+
+    if (fs.existsSync(binaryPath) && fs.statSync(binaryPath).mtimeMs >= newestInput) {
+        try {
+            dawg = deserializeDAWG(fs.readFileSync(binaryPath));
+            console.log(`Loaded ${structure} from ${binaryPath}`);
+        } catch (error) {
+            console.warn(`Ignoring unreadable ${binaryPath}:`, error);
+        }
+    }
+
+    if (!dawg) {
+        // A bad word list throws here; only a failed write is tolerated
+        dawg = buildFromSource(source, structure);
+        try {
+            writeBinary(binaryPath, dawg, structure);
+        } catch (error) {
+            // Read-only deployments still get a working in-memory structure
+            console.warn(`Could not write ${binaryPath}:`, error);
+        }
+    }
+
+    cache.set(binaryPath, dawg);
+    return dawg;
+}
@@ -1,13 +1,48 @@
 /**
- * DAWG (Directed Acyclic Word Graph) / Trie implementation
+ * DAWG (Directed Acyclic Word Graph) implementation
+ * Words are built into a suffix-minimized graph and packed into a flat
+ * Uint32Array, which is also the on-disk binary format.
  * Provides O(1) word validation and prefix checking for Scrabble AI
  */
 
-export interface DAWGNode {
+/**
+ * Build-time graph node (shared between words once minimized)
+ */
+interface DAWGNode {
     children: Map<string, DAWGNode>;
     isEndOfWord: boolean;
 }
 
+/**
+ * Packed DAWG: every node is a header word followed by one word per edge
+ *   header = (edgeCount << 1) | isEndOfWord
+ *   edge   = (childOffset << 5) | letterIndex
+ * A node is referenced by the offset of its header; the root is at offset 0
+ */
+export interface PackedDAWG {
+    data: Uint32Array;
+}
+
+/**
+ * Offset of a node inside PackedDAWG.data
+ */
+export type DAWGNodeIndex = number;
+
+export const DAWG_ROOT: DAWGNodeIndex = 0;
+
+/**
+ * GADDAG separator: marks where the reversed prefix ends and the suffix begins
+ */
+export const GADDAG_SEPARATOR = '+';
+
+// Edge letters: A-Z are 0-25, the GADDAG separator is 26
+const EDGE_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ' + GADDAG_SEPARATOR;
+
+// Binary file header: magic, format version, data length (in 32-bit words)
+const FILE_MAGIC = 0x47574144; // 'DAWG'
+const FILE_VERSION = 1;
+const FILE_HEADER_WORDS = 3;
+
 /**
  * Create a new DAWG node
  */
@@ -19,85 +54,264 @@ function createNode(): DAWGNode {
 }
 
 /**
- * Build a DAWG from a list of words
- * @param words - Array of uppercase words to add to the DAWG
- * @returns Root node of the DAWG
+ * Build a minimized graph from lexicographically sorted paths
+ * Equivalent subtrees are shared as they are completed (Daciuk et al.)
+ * @param sortedPaths - Paths in ascending order, without duplicates
+ * @returns Root node of the graph
  */
-export function buildDAWG(words: string[]): DAWGNode {
+function buildMinimizedGraph(sortedPaths: Iterable<string>): DAWGNode {
     const root = createNode();
+    const register = new Map<string, DAWGNode>();
+    const ids = new Map<DAWGNode, number>();
 
-    for (const word of words) {
-        let currentNode = root;
+    // Nodes along the previous path: path[i] is the node after i letters
+    const path: DAWGNode[] = [root];
+    let previous = '';
+
+    const signature = (node: DAWGNode): string => {
+        let sig = node.isEndOfWord ? '1' : '0';
+        for (const [letter, child] of node.children) {
+            sig += letter + ids.get(child);
+        }
+        return sig;
+    };
 
-        for (const letter of word) {
-            if (!currentNode.children.has(letter)) {
-                currentNode.children.set(letter, createNode());
+    // Replace nodes below `depth` with registered equivalents
+    const minimizeTo = (depth: number) => {
+        for (let i = previous.length; i > depth; i--) {
+            const node = path[i];
+            const sig = signature(node);
+            const existing = register.get(sig);
+            if (existing) {
+                path[i - 1].children.set(previous[i - 1], existing);
+            } else {
+                ids.set(node, ids.size);
+                register.set(sig, node);
             }
-            currentNode = currentNode.children.get(letter)!;
         }
+        path.length = depth + 1;
+    };
+
+    for (const current of sortedPaths) {
+        let common = 0;
+        while (common < current.length && common < previous.length && current[common] === previous[common]) {
+            common++;
+        }
+
+        minimizeTo(common);
 
-        currentNode.isEndOfWord = true;
+        for (let i = common; i < current.length; i++) {
+            const child = createNode();
+            path[i].children.set(current[i], child);
+            path.push(child);
+        }
+        path[current.length].isEndOfWord = true;
+        previous = current;
     }
 
+    minimizeTo(0);
     return root;
 }
 
 /**
- * Check if a word exists in the DAWG
- * @param root - Root node of the DAWG
- * @param word - Word to check (should be uppercase)
- * @returns true if word exists, false otherwise
+ * Sort paths and drop duplicates, as required by buildMinimizedGraph
+ */
+function sortUnique(paths: string[]): string[] {
+    paths.sort();
+    return paths.filter((p, i) => i === 0 || p !== paths[i - 1]);
+}
+
+/**
+ * Index of an edge letter in the packed encoding
+ * @throws Error if the letter cannot be packed, rather than corrupting the graph
+ */
+function edgeLetterIndex(letter: string): number {
+    const index = EDGE_LETTERS.indexOf(letter);
+    if (index === -1) {
+        throw new Error(`Cannot store "${letter}" in a lexicon; words may only use the letters A-Z`);
+    }
+    return index;
+}
+
+/**
+ * Flatten a graph into the packed representation (root first)
  */
-export function isValidWord(root: DAWGNode, word: string): boolean {
-    let currentNode = root;
+function packGraph(root: DAWGNode): PackedDAWG {
+    const offsets = new Map<DAWGNode, number>();
+
+    // Lay nodes out breadth-first so the root lands at 0
+    const order: DAWGNode[] = [root];
+    let size = 0;
+    offsets.set(root, 0);
+    for (let head = 0; head < order.length; head++) {
+        const node = order[head];
+        offsets.set(node, size);
+        size += 1 + node.children.size;
+        for (const child of node.children.values()) {
+            if (!offsets.has(child)) {
+                offsets.set(child, -1);
+                order.push(child);
+            }
+        }
+    }
 
-    for (const letter of word) {
-        const child = currentNode.children.get(letter);
-        if (!child) {
-            return false;
+    const data = new Uint32Array(size);
+    for (const node of order) {
+        let i = offsets.get(node)!;
+        data[i++] = (node.children.size << 1) | (node.isEndOfWord ? 1 : 0);
+        const letterIndexes = Array.from(node.children.keys(), edgeLetterIndex).sort((a, b) => a - b);
+        for (const letterIndex of letterIndexes) {
+            data[i++] = offsets.get(node.children.get(EDGE_LETTERS[letterIndex])!)! * 32 + letterIndex;
         }
-        currentNode = child;
     }
 
-    return currentNode.isEndOfWord;
+    return { data };
 }
 
 /**
- * Check if a prefix exists in the DAWG
- * Used for early termination during word generation
- * @param root - Root node of the DAWG
- * @param prefix - Prefix to check (should be uppercase)
- * @returns true if prefix exists, false otherwise
+ * Build a DAWG from a list of words
+ * @param words - Array of uppercase words to add to the DAWG
+ * @returns Packed, suffix-minimized DAWG
  */
-export function isValidPrefix(root: DAWGNode, prefix: string): boolean {
-    let currentNode = root;
+export function buildDAWG(words: string[]): PackedDAWG {
+    return packGraph(buildMinimizedGraph(sortUnique([...words])));
+}
 
-    for (const letter of prefix) {
-        const child = currentNode.children.get(letter);
-        if (!child) {
-            return false;
+/**
+ * Build a GADDAG from a list of words
+ * Each word is stored once per split point as REV(prefix) + separator + suffix,
+ * so words can be grown in both directions from any letter
+ * @param words - Array of uppercase words to add to the GADDAG
+ * @returns Packed, suffix-minimized GADDAG
+ */
+export function buildGADDAG(words: string[]): PackedDAWG {
+    const paths: string[] = [];
+
+    for (const word of words) {
+        let reversed = '';
+        for (let i = 0; i < word.length; i++) {
+            reversed = word[i] + reversed;
+            paths.push(i === word.length - 1
+                ? reversed
+                : reversed + GADDAG_SEPARATOR + word.slice(i + 1));
         }
-        currentNode = child;
     }
 
-    return true;
+    return packGraph(buildMinimizedGraph(sortUnique(paths)));
+}
+
+/**
+ * Encode a packed DAWG as bytes for writing to disk
+ */
+export function serializeDAWG(dawg: PackedDAWG): Uint8Array {
+    const words = new Uint32Array(FILE_HEADER_WORDS + dawg.data.length);
+    words[0] = FILE_MAGIC;
+    words[1] = FILE_VERSION;
+    words[2] = dawg.data.length;
+    words.set(dawg.data, FILE_HEADER_WORDS);
+    return new Uint8Array(words.buffer);
+}
+
+/**
+ * Decode bytes produced by serializeDAWG
+ * The node data is used in place when the bytes are 4-byte aligned
+ * @throws Error if the bytes are not a DAWG file of this version
+ */
+export function deserializeDAWG(bytes: Uint8Array): PackedDAWG {
+    const aligned = bytes.byteOffset % 4 === 0 ? bytes : bytes.slice();
+    const words = new Uint32Array(aligned.buffer, aligned.byteOffset, Math.floor(aligned.byteLength / 4));
+
+    if (words.length < FILE_HEADER_WORDS || words[0] !== FILE_MAGIC) {
+        throw new Error('Not a DAWG file');
+    }
+    if (words[1] !== FILE_VERSION) {
+        throw new Error(`Unsupported DAWG file version ${words[1]}`);
+    }
+    if (words.length < FILE_HEADER_WORDS + words[2]) {
+        throw new Error('DAWG file is truncated');
+    }
+
+    return { data: words.subarray(FILE_HEADER_WORDS, FILE_HEADER_WORDS + words[2]) };
+}
+
+/**
+ * Check if a node ends a word
+ */
+export function isEndOfWord(dawg: PackedDAWG, node: DAWGNodeIndex): boolean {
+    return (dawg.data[node] & 1) === 1;
+}
+
+/**
+ * Follow the edge for a letter
+ * @returns The child node, or null if there is no such edge
+ */
+export function getChild(dawg: PackedDAWG, node: DAWGNodeIndex, letter: string): DAWGNodeIndex | null {
+    const { data } = dawg;
+    const letterIndex = EDGE_LETTERS.indexOf(letter);
+    if (letterIndex === -1) return null;
+
+    const end = node + 1 + (data[node] >>> 1);
+    for (let i = node + 1; i < end; i++) {
+        const edge = data[i];
+        const edgeLetter = edge & 31;
+        if (edgeLetter === letterIndex) return edge >>> 5;
+        if (edgeLetter > letterIndex) return null; // Edges are sorted by letter
+    }
+    return null;
+}
+
+/**
+ * Visit every outgoing edge of a node in letter order
+ */
+export function forEachChild(
+    dawg: PackedDAWG,
+    node: DAWGNodeIndex,
+    visit: (letter: string, child: DAWGNodeIndex) => void
+): void {
+    const { data } = dawg;
+    const end = node + 1 + (data[node] >>> 1);
+    for (let i = node + 1; i < end; i++) {
+        const edge = data[i];
+        visit(EDGE_LETTERS[edge & 31], edge >>> 5);
+    }
+}
+
+/**
+ * Check if a word exists in the DAWG
+ * @param dawg - Packed DAWG
+ * @param word - Word to check (should be uppercase)
+ * @returns true if word exists, false otherwise
+ */
+export function isValidWord(dawg: PackedDAWG, word: string): boolean {
+    const node = getNodeAtPrefix(dawg, word);
+    return node !== null && isEndOfWord(dawg, node);
+}
+
+/**
+ * Check if a prefix exists in the DAWG
+ * Used for early termination during word generation
+ * @param dawg - Packed DAWG
+ * @param prefix - Prefix to check (should be uppercase)
+ * @returns true if prefix exists, false otherwise
+ */
+export function isValidPrefix(dawg: PackedDAWG, prefix: string): boolean {
+    return getNodeAtPrefix(dawg, prefix) !== null;
 }
 
 /**
  * Get the node at the end of a prefix path
- * @param root - Root node of the DAWG
+ * @param dawg - Packed DAWG
  * @param prefix - Prefix to traverse
  * @returns The node at the end of the prefix, or null if prefix doesn't exist
  */
-export function getNodeAtPrefix(root: DAWGNode, prefix: string): DAWGNode | null {
-    let currentNode = root;
+export function getNodeAtPrefix(dawg: PackedDAWG, prefix: string): DAWGNodeIndex | null {
+    let currentNode: DAWGNodeIndex | null = DAWG_ROOT;
 
     for (const letter of prefix) {
-        const child = currentNode.children.get(letter);
-        if (!child) {
+        currentNode = getChild(dawg, currentNode, letter);
+        if (currentNode === null) {
             return null;
         }
-        currentNode = child;
     }
 
     return currentNode;
@@ -105,34 +319,62 @@ export function getNodeAtPrefix(root: DAWGNode, prefix: string): DAWGNode | null
 
 /**
  * Get all valid letters that can follow a given prefix
- * @param root - Root node of the DAWG
+ * @param dawg - Packed DAWG
  * @param prefix - Prefix to check
  * @returns Set of valid letters that can follow the prefix
  */
-export function getValidNextLetters(root: DAWGNode, prefix: string): Set<string> {
-    const node = getNodeAtPrefix(root, prefix);
-    if (!node) {
-        return new Set();
+export function getValidNextLetters(dawg: PackedDAWG, prefix: string): Set<string> {
+    const letters = new Set<string>();
+    const node = getNodeAtPrefix(dawg, prefix);
+    if (node === null) {
+        return letters;
     }
 
-    return new Set(node.children.keys());
+    forEachChild(dawg, node, letter => letters.add(letter));
+    return letters;
 }
 
 /**
  * Count total words in the DAWG (for debugging)
  */
-export function countWords(root: DAWGNode): number {
-    let count = 0;
+export function countWords(dawg: PackedDAWG): number {
+    // Shared nodes are counted once and reused
+    const counts = new Map<DAWGNodeIndex, number>();
 
-    function traverse(node: DAWGNode) {
-        if (node.isEndOfWord) {
-            count++;
-        }
-        for (const child of node.children.values()) {
-            traverse(child);
-        }
+    function count(node: DAWGNodeIndex): number {
+        const cached = counts.get(node);
+        if (cached !== undefined) return cached;
+
+        let total = isEndOfWord(dawg, node) ? 1 : 0;
+        forEachChild(dawg, node, (_, child) => {
+            total += count(child);
+        });
+        counts.set(node, total);
+        return total;
     }
 
-    traverse(root);
-    return count;
+    return count(DAWG_ROOT);
+}
+
+/**
+ * Check if a word exists in the GADDAG
+ * Every word is stored fully reversed with no separator
+ * @param gaddag - Packed GADDAG
+ * @param word - Word to check (should be uppercase)
+ * @returns true if word exists, false otherwise
+ */
+export function isValidWordInGADDAG(gaddag: PackedDAWG, word: string): boolean {
+    return isValidWord(gaddag, word.split('').reverse().join(''));
+}
+
+/**
+ * Get the GADDAG node for a partial word grown from an anchor letter
+ * @param gaddag - Packed GADDAG
+ * @param left - Letters from the anchor leftwards, in board order (anchor letter last)
+ * @param right - Letters right of the anchor, in board order
+ * @returns The node reached, or null if no word contains this fragment
+ */
+export function getGADDAGNode(gaddag: PackedDAWG, left: string, right: string = ''): DAWGNodeIndex | null {
+    const reversedLeft = left.split('').reverse().join('');
+    return getNodeAtPrefix(gaddag, right ? reversedLeft + GADDAG_SEPARATOR + right : reversedLeft);
 }
@@ -0,0 +1,274 @@
+/**
+ * Endgame solver
+ * Once the bag is empty both racks are known, so the rest of a two-player
+ * game can be searched exactly: negamax with alpha-beta pruning and a
+ * transposition table, deepened one ply at a time until the whole game tree
+ * is resolved or the time budget runs out.
+ *
+ * Values are spread from here to the end of the game for the side to move,
+ * including rack penalties and the going-out bonus. Two passes in a row end
+ * the search (nothing changes by passing longer), with each side losing the
+ * value of its own rack.
+ */
+
+import { BoardState, Tile } from './types';
+import { PlacedTile, validateMove } from './validation';
+import { PackedDAWG } from './dawg';
+import { BoardIndex, getBoardIndex, getIndexAnchors, updateBoardIndex } from './board-index';
+import { generateMoves } from './move-generator';
+import { calculateScore } from './scoring';
+import { getRackValue } from './gameEnd';
+import { getRemainingRack } from './heuristics';
+import { getTileLetter, placeTiles } from './gameUtils';
+
+export interface EndgameStep {
+    byOpponent: boolean;
+    tiles: PlacedTile[];    // Empty for a pass
+    words: string[];
+    score: number;
+    wentOut: boolean;
+}
+
+export interface EndgameSolution {
+    tiles: PlacedTile[];    // The play to make; empty to pass
+    words: string[];
+    score: number;
+    spread: number;         // Our points minus the opponent's from here on, if both sides play the variation
+    exact: boolean;         // false if the time ran out before the search reached the end of the game
+    depth: number;          // Plies searched
+    nodes: number;
+    elapsedMs: number;
+    principalVariation: EndgameStep[]; // Best play for both sides, starting with ours
+}
+
+interface SearchMove {
+    tiles: PlacedTile[];
+    score: number;
+}
+
+interface Position {
+    index: BoardIndex;       // The board, with its cross-sets and anchors
+    racks: [Tile[], Tile[]]; // Side to move first
+    passes: number;          // Consecutive passes before this position (0 or 1)
+    placed: string[];        // Tiles placed since the search started, sorted
+    key: string;
+}
+
+type Bound = 'EXACT' | 'LOWER' | 'UPPER';
+
+interface TableEntry {
+    depth: number;          // Infinity when the value needs no further search
+    value: number;
+    bound: Bound;
+    best: number;           // Index into the position's move list, -1 if none
+}
+
+const PASS: SearchMove = { tiles: [], score: 0 };
+
+// Thrown to abandon an iteration when the time is up
+const TIME_UP = new Error('Endgame search out of time');
+
+/**
+ * Solve a two-player endgame
+ * @param board - Current board
+ * @param rack - Our rack
+ * @param opponentRack - The opponent's rack (everything unseen, as the bag is empty)
+ * @param dawg - Lexicon
+ * @param timeBudgetMs - Time allowed; the first ply is always searched in full
+ * @param shouldStop - Polled with the clock; true ends the search as if the time were up
+ * @returns The best play found, or a pass if there is no play
+ */
+export function solveEndgame(
+    board: BoardState,
+    rack: Tile[],
+    opponentRack: Tile[],
+    dawg: PackedDAWG,
+    timeBudgetMs: number,
+    shouldStop: () => boolean = () => false
+): EndgameSolution {
+    const start = Date.now();
+    const deadline = start + timeBudgetMs;
+    const table = new Map<string, TableEntry>();
+    const moveLists = new Map<string, SearchMove[]>();
+    let nodes = 0;
+    let depthLimited = false;
+
+    // The tiles placed since the start, both racks and the passes identify a position
+    const rackKey = (rack: Tile[]) => rack.map(t => t.isBlank ? '?' : t.letter).sort().join('');
+    const keyOf = (placed: string, racks: [Tile[], Tile[]], passes: number) => (
+        `${placed}|${rackKey(racks[0])}|${rackKey(racks[1])}|${passes}`
+    );
+
+    const movesFor = (position: Position): SearchMove[] => {
+        let moves = moveLists.get(position.key);
+        if (!moves) {
+            const { index } = position;
+            moves = generateMoves(index.board, position.racks[0], dawg, index.crossSets, getIndexAnchors(index))
+                .map(move => ({ tiles: move.tiles, score: calculateScore(index.board, move.tiles, index) }))
+                .sort((a, b) => b.score - a.score || b.tiles.length - a.tiles.length);
+            moves.push(PASS);
+            moveLists.set(position.key, moves);
+        }
+        return moves;
+    };
+
+    const play = (position: Position, move: SearchMove): Position => {
+        const racks: [Tile[], Tile[]] = [position.racks[1], getRemainingRack(position.racks[0], move.tiles)];
+        const passes = move.tiles.length > 0 ? 0 : position.passes + 1;
+        const placed = [
+            ...position.placed,
+            ...move.tiles.map(t => `${t.x},${t.y}${getTileLetter(t.tile)}${t.tile.isBlank ? '?' : ''}`),
+        ].sort();
+        return {
+            index: move.tiles.length > 0
+                ? updateBoardIndex(position.index, placeTiles(position.index.board, move.tiles), move.tiles)
+                : position.index,
+            racks,
+            passes,
+            placed,
+            key: keyOf(placed.join(';'), racks, passes),
+        };
+    };
+
+    // Guess at the rest of the game: as if it ended now without anyone going out
+    const estimate = (position: Position): number => (
+        getRackValue(position.racks[1]) - getRackValue(position.racks[0])
+    );
+
+    const search = (position: Position, depth: number, alpha: number, beta: number, checkTime: boolean): number => {
+        nodes++;
+        if (checkTime && (nodes & 63) === 0 && (Date.now() > deadline || shouldStop())) throw TIME_UP;
+
+        const entry = table.get(position.key);
+        if (entry && entry.depth >= depth) {
+            const usable = entry.bound === 'EXACT'
+                || (entry.bound === 'LOWER' && entry.value >= beta)
+                || (entry.bound === 'UPPER' && entry.value <= alpha);
+            if (usable) {
+                // A value that rests on estimates makes this one an estimate too
+                if (entry.depth !== Infinity) depthLimited = true;
+                return entry.value;
+            }
+        }
+        if (depth === 0) {
+            depthLimited = true;
+            return estimate(position);
+        }
+
+        const moves = movesFor(position);
+        const order = moves.map((_, i) => i);
+        if (entry && entry.best > 0) {
+            order.splice(entry.best, 1);
+            order.unshift(entry.best);
+        }
+
+        const alphaBefore = alpha;
+        const limitedBefore = depthLimited;
+        depthLimited = false;
+        let best = -Infinity;
+        let bestIndex = -1;
+
+        for (const index of order) {
+            const move = moves[index];
+            let value: number;
+            if (move.tiles.length === 0) {
+                value = position.passes > 0
+                    ? estimate(position)
+                    : -search(play(position, move), depth - 1, -beta, -alpha, checkTime);
+            } else if (move.tiles.length === position.racks[0].length) {
+                // Going out: we collect the opponent's rack and they lose it
+                value = move.score + 2 * getRackValue(position.racks[1]);
+            } else {
+                value = move.score - search(play(position, move), depth - 1, -beta + move.score, -alpha + move.score, checkTime);
+            }
+
+            if (value > best) {
+                best = value;
+                bestIndex = index;
+            }
+            if (best > alpha) alpha = best;
+            if (alpha >= beta) break;
+        }
+
+        table.set(position.key, {
+            depth: depthLimited ? depth : Infinity,
+            value: best,
+            bound: best <= alphaBefore ? 'UPPER' : best >= beta ? 'LOWER' : 'EXACT',
+            best: bestIndex,
+        });
+        depthLimited = depthLimited || limitedBefore;
+        return best;
+    };
+
+    const root: Position = { index: getBoardIndex(board, dawg), racks: [rack, opponentRack], passes: 0, placed: [], key: keyOf('', [rack, opponentRack], 0) };
+    let solved = { value: 0, depth: 0, exact: false };
+
+    for (let depth = 1; ; depth++) {
+        depthLimited = false;
+        try {
+            const value = search(root, depth, -Infinity, Infinity, depth > 1);
+            solved = { value, depth, exact: !depthLimited };
+        } catch (error) {
+            if (error !== TIME_UP) throw error;
+            break;
+        }
+        if (solved.exact || Date.now() > deadline || shouldStop()) break;
+    }
+
+    const principalVariation = readVariation(root, solved.depth, table, movesFor, play);
+    const first = principalVariation[0];
+
+    return {
+        tiles: first ? first.tiles : [],
+        words: first ? first.words : [],
+        score: first ? first.score : 0,
+        spread: solved.value,
+        exact: solved.exact,
+        depth: solved.depth,
+        nodes,
+        elapsedMs: Date.now() - start,
+        principalVariation,
+    };
+}
+
+/**
+ * Follow the table's best moves from the root
+ */
+function readVariation(
+    root: Position,
+    depth: number,
+    table: Map<string, TableEntry>,
+    movesFor: (position: Position) => SearchMove[],
+    play: (position: Position, move: SearchMove) => Position
+): EndgameStep[] {
+    const steps: EndgameStep[] = [];
+    let position = root;
+    for (let ply = 0; ply < depth; ply++) {
+        const entry = table.get(position.key);
+        if (!entry || entry.best < 0) break;
+
+        const move = movesFor(position)[entry.best];
+        const wentOut = move.tiles.length > 0 && move.tiles.length === position.racks[0].length;
+        const words = move.tiles.length > 0 ? validateMove(position.index.board, move.tiles, false, undefined, undefined, position.index).words || [] : [];
+        steps.push({ byOpponent: ply % 2 === 1, tiles: move.tiles, words, score: move.score, wentOut });
+
+        // The variation ends with the game
+        if (wentOut || (move.tiles.length === 0 && position.passes > 0)) break;
+        position = play(position, move);
+    }
+    return steps;
+}
+
+/**
+ * One-line account of an endgame plan, e.g. for the message bar
+ */
+export function describeEndgame(solution: EndgameSolution, playerName: string, opponentName: string): string {
+    const steps = solution.principalVariation.map(step => {
+        const who = step.byOpponent ? opponentName : playerName;
+        if (step.tiles.length === 0) return `${who} passes`;
+        return `${who} plays ${step.words[0] || '?'} (${step.score})${step.wentOut ? ' and goes out' : ''}`;
+    });
+    const spread = solution.spread >= 0 ? `+${solution.spread}` : `${solution.spread}`;
+    const kind = solution.exact ? 'solved' : `searched ${solution.depth} plies`;
+    return `Endgame ${kind}, ${spread} from here: ${steps.join(', ')}`;
+}
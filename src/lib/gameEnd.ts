@@ -0,0 +1,170 @@
+/**
+ * End-of-game rules
+ * A game ends when a player goes out (empty rack with the bag empty), after
+ * MAX_SCORELESS_TURNS consecutive scoreless turns, or when resignations leave
+ * at most one player or team still playing, which wins.
+ * Unplayed tiles are then subtracted from their owners; whoever went out
+ * gains the tiles left on the other teams' racks
+ */
+
+import { GameState, Player, Tile, Move, GameEndReason, FinalTally } from './types';
+import { MAX_SCORELESS_TURNS } from './constants';
+
+/**
+ * Total face value of a rack (blanks are worth 0)
+ */
+export function getRackValue(rack: Tile[]): number {
+    return rack.reduce((sum, tile) => sum + tile.score, 0);
+}
+
+/**
+ * Number of turns at the end of the history that scored nothing
+ * (passes, exchanges, zero-point and withdrawn plays, and challenges that
+ * cost the challenger their turn). Other challenges are not turns
+ */
+export function countScorelessTurns(moveHistory: Move[]): number {
+    let count = 0;
+    for (let i = moveHistory.length - 1; i >= 0; i--) {
+        const move = moveHistory[i];
+        if (move.type === 'CHALLENGE' && !move.turnLost) continue;
+        if (move.score !== 0) break;
+        count++;
+    }
+    return count;
+}
+
+// Players without a team play for themselves
+const teamOf = (player: Player): string => player.teamId || player.id;
+
+// Players, or teams in a team game, with someone who has not resigned
+const remainingSides = (state: GameState): Set<string> => new Set(
+    state.players.filter(p => !p.resigned).map(p => state.gameMode === 'TEAMS' ? teamOf(p) : p.id)
+);
+
+/**
+ * Check whether the turn just taken ended the game
+ * @param state - State after the turn
+ * @param lastPlayerId - Player who took the turn
+ * @returns Why the game ended, or null if it goes on
+ */
+export function checkGameEnd(state: GameState, lastPlayerId: string): GameEndReason | null {
+    const lastPlayer = state.players.find(p => p.id === lastPlayerId);
+    if (lastPlayer && state.bag.length === 0 && lastPlayer.rack.length === 0) {
+        return 'WENT_OUT';
+    }
+    if (state.players.length > 0 && remainingSides(state).size <= 1) {
+        return 'RESIGNED';
+    }
+    if (countScorelessTurns(state.moveHistory) >= MAX_SCORELESS_TURNS) {
+        return 'SCORELESS_TURNS';
+    }
+    return null;
+}
+
+/**
+ * Apply rack penalties and pick the winner
+ * @param state - State when the game ended
+ * @param reason - Why it ended
+ * @param wentOutPlayerId - Player who went out (WENT_OUT only)
+ * @returns Finished state with gameOver, winner and finalTally set
+ */
+export function finishGame(state: GameState, reason: GameEndReason, wentOutPlayerId?: string): GameState {
+    const wentOut = reason === 'WENT_OUT' ? state.players.find(p => p.id === wentOutPlayerId) : undefined;
+
+    const rackPenalties: Record<string, number> = {};
+    const scoreAdjustments: Record<string, number> = {};
+    for (const player of state.players) {
+        rackPenalties[player.id] = getRackValue(player.rack);
+        scoreAdjustments[player.id] = -rackPenalties[player.id];
+    }
+
+    // Whoever went out collects the tiles left on the other teams' racks
+    if (wentOut) {
+        scoreAdjustments[wentOut.id] += state.players
+            .filter(p => teamOf(p) !== teamOf(wentOut))
+            .reduce((sum, p) => sum + rackPenalties[p.id], 0);
+    }
+
+    const players = state.players.map(p => ({ ...p, score: p.score + scoreAdjustments[p.id] }));
+    const finalScores: Record<string, number> = {};
+    players.forEach(p => finalScores[p.id] = p.score);
+
+    let teamScores: Record<string, number> | undefined;
+    let teamAdjustments: Record<string, number> | undefined;
+    if (state.teamScores) {
+        teamScores = { ...state.teamScores };
+        teamAdjustments = {};
+        for (const player of state.players) {
+            if (!player.teamId) continue;
+            teamAdjustments[player.teamId] = (teamAdjustments[player.teamId] || 0) + scoreAdjustments[player.id];
+            teamScores[player.teamId] = (teamScores[player.teamId] || 0) + scoreAdjustments[player.id];
+        }
+    }
+
+    // Whoever is left when everyone else resigns wins, whatever the scores
+    const survivors = reason === 'RESIGNED' ? Array.from(remainingSides(state)) : [];
+    const winner = reason === 'RESIGNED'
+        ? survivors[0] ?? null
+        : state.gameMode === 'TEAMS' && teamScores
+            ? pickWinner(Object.entries(teamScores))
+            : pickWinner(players.map(p => [p.id, p.score]));
+
+    const finalTally: FinalTally = {
+        reason,
+        wentOutPlayerId: wentOut?.id,
+        rackPenalties,
+        scoreAdjustments,
+        teamAdjustments,
+        finalScores,
+        teamScores,
+        winner,
+    };
+
+    return {
+        ...state,
+        players,
+        teamScores: teamScores || state.teamScores,
+        gameOver: true,
+        winner,
+        finalTally,
+    };
+}
+
+/**
+ * Highest score wins; a shared top score is a tie (null)
+ */
+function pickWinner(scores: Array<[string, number]>): string | null {
+    if (scores.length === 0) return null;
+    const top = Math.max(...scores.map(([, score]) => score));
+    const leaders = scores.filter(([, score]) => score === top);
+    return leaders.length === 1 ? leaders[0][0] : null;
+}
+
+/**
+ * Name of the winning player or team, for messages and logs
+ */
+export function getWinnerName(state: GameState): string | null {
+    if (!state.winner) return null;
+    if (state.gameMode === 'TEAMS') return `Team ${state.winner}`;
+    return state.players.find(p => p.id === state.winner)?.name || state.winner;
+}
+
+/**
+ * One-line announcement of how the game ended
+ */
+export function describeGameEnd(state: GameState): string {
+    const tally = state.finalTally;
+    if (!tally) return '';
+
+    const reasons: Record<GameEndReason, string> = {
+        WENT_OUT: `${state.players.find(p => p.id === tally.wentOutPlayerId)?.name} went out`,
+        SCORELESS_TURNS: `${MAX_SCORELESS_TURNS} scoreless turns in a row`,
+        RESIGNED: tally.winner
+            ? `${state.gameMode === 'TEAMS' ? 'the other team' : 'everyone else'} resigned`
+            : 'all players resigned',
+    };
+
+    const winnerName = getWinnerName(state);
+    const result = winnerName ? `Winner: ${winnerName}` : "It's a tie!";
+    return `Game Over (${reasons[tally.reason]}). ${result}`;
+}
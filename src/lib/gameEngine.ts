@@ -0,0 +1,430 @@
+/**
+ * Game engine
+ * The rules of a game as pure functions over GameState: setting up a game
+ * and applying each player's action, including provisional plays, challenges
+ * and the end of the game. No React and no I/O, so the UI, the AI and
+ * headless runners all play through the same implementation.
+ *
+ * Words are not looked up here - the lexicon lives on the server. Under the
+ * VOID rule the caller checks a play's words before dispatching it; under
+ * SINGLE/DOUBLE a CHALLENGE action carries the lexicon's verdict.
+ *
+ * All randomness (the bag, random boards, draws) comes from the game's seeded
+ * generator, whose state is carried on GameState between actions.
+ */
+
+import { GameState, GameConfig, GameAction, Player, Move, Tile } from './types';
+import { DEFAULT_LEXICON, MIN_BAG_SIZE_FOR_EXCHANGE, RACK_SIZE, AI_PERSONALITIES, MIN_SEATS, MAX_SEATS } from './constants';
+import { initializeBoard, createTileBag, drawTiles, exchangeWithBag, isBoardEmpty, nextPlayerIndex } from './gameUtils';
+import { validateMove } from './validation';
+import { calculateScore } from './scoring';
+import { createRandom, randomSeed, deriveSeed, RandomSource } from './random';
+import { checkGameEnd, finishGame, describeGameEnd } from './gameEnd';
+import { isChallengeRule, placePendingMove, acceptPendingMove, resolveChallenge, describeChallenge } from './challenge';
+
+/**
+ * Deal a new game
+ * @throws Error if an ONLINE or HOT_SEAT game has too few or too many seats
+ */
+export function createGame(config: GameConfig = {}): GameState {
+    const {
+        variant = 'STANDARD',
+        mode = 'HUMAN_VS_AI',
+        personality = AI_PERSONALITIES.MEDIUM,
+        personality2 = AI_PERSONALITIES.HARD,
+        moveGenerator = 'DAWG',
+        moveGenerator2 = 'DAWG',
+        teamAiConfigs,
+        mustStartOnStar = false,
+        lexicon = DEFAULT_LEXICON,
+        challengeRule = 'VOID',
+        seed = randomSeed(),
+        leaveTable,
+        leaveTable2,
+        hintsAllowed = true,
+        seats = [],
+    } = config;
+
+    const random = createRandom(seed);
+    let bag = createTileBag(variant, random.next);
+    const players: Player[] = [];
+    let teamScores: Record<string, number> | undefined;
+
+    if (mode === 'TEAMS' && variant === 'MEGA') {
+        // 4x4 Battle: 2 Teams of 4 Players (8 total), each an AI or a human
+        const teams = ['Red', 'Blue'];
+        teamScores = { Red: 0, Blue: 0 };
+
+        let playerIndex = 0;
+        // Interleave players: Red 1, Blue 1, Red 2, Blue 2...
+        for (let i = 0; i < 4; i++) {
+            for (const team of teams) {
+                const playerId = `p${playerIndex}`;
+                const aiConfig = teamAiConfigs?.[playerIndex] || { personality: AI_PERSONALITIES.MEDIUM, useHeuristics: false };
+                const { drawn, newBag } = drawTiles(bag, RACK_SIZE, playerId, random.next);
+                bag = newBag;
+                const isAi = !aiConfig.isHuman;
+                players.push({
+                    id: playerId,
+                    name: `${team} ${isAi ? 'AI' : 'Player'} ${i + 1}`,
+                    rack: drawn,
+                    score: 0,
+                    isAi,
+                    personality: isAi ? aiConfig.personality : undefined,
+                    useHeuristics: isAi ? aiConfig.useHeuristics : undefined,
+                    moveGenerator: isAi ? aiConfig.moveGenerator || 'DAWG' : undefined,
+                    teamId: team,
+                    movesMade: 0,
+                    leaveTable: isAi ? aiConfig.leaveTable : undefined,
+                });
+                playerIndex++;
+            }
+        }
+    } else if (mode === 'ONLINE' || mode === 'HOT_SEAT') {
+        // Every player for themselves, dealt in seat order
+        if (seats.length < MIN_SEATS || seats.length > MAX_SEATS) {
+            throw new Error(`${mode === 'ONLINE' ? 'Online' : 'Hot-seat'} games need ${MIN_SEATS} to ${MAX_SEATS} players.`);
+        }
+        seats.forEach((seat, i) => {
+            const playerId = `p${i}`;
+            const { drawn, newBag } = drawTiles(bag, RACK_SIZE, playerId, random.next);
+            bag = newBag;
+            players.push({
+                id: playerId,
+                name: seat.name,
+                rack: drawn,
+                score: 0,
+                isAi: seat.isAi,
+                personality: seat.isAi ? seat.personality || AI_PERSONALITIES.MEDIUM : undefined,
+                moveGenerator: seat.isAi ? seat.moveGenerator || 'DAWG' : undefined,
+                movesMade: 0,
+                leaveTable: seat.isAi ? seat.leaveTable : undefined,
+            });
+        });
+    } else {
+        // Standard 2 player setup
+        const isAiVsAi = mode === 'AI_VS_AI';
+        const { drawn: p1Tiles, newBag: bagAfterP1 } = drawTiles(bag, RACK_SIZE, 'p0', random.next);
+        const { drawn: p2Tiles, newBag: bagAfterP2 } = drawTiles(bagAfterP1, RACK_SIZE, 'p1', random.next);
+        bag = bagAfterP2;
+
+        players.push({
+            id: 'p0',
+            name: isAiVsAi ? 'AI 1' : 'You',
+            rack: p1Tiles,
+            score: 0,
+            isAi: isAiVsAi,
+            personality: isAiVsAi ? personality : undefined,
+            moveGenerator: isAiVsAi ? moveGenerator : undefined,
+            teamId: 'Team 1',
+            movesMade: 0,
+            leaveTable: isAiVsAi ? leaveTable : undefined,
+        }, {
+            id: 'p1',
+            name: 'AI 2',
+            rack: p2Tiles,
+            score: 0,
+            isAi: true,
+            personality: isAiVsAi ? personality2 : personality,
+            moveGenerator: isAiVsAi ? moveGenerator2 : moveGenerator,
+            teamId: 'Team 2',
+            movesMade: 0,
+            leaveTable: isAiVsAi ? leaveTable2 : leaveTable,
+        });
+        teamScores = { 'Team 1': 0, 'Team 2': 0 };
+    }
+
+    return {
+        board: initializeBoard(variant, random.next),
+        variant,
+        players,
+        currentPlayerIndex: 0,
+        bag,
+        gameOver: false,
+        winner: null,
+        moveHistory: [],
+        gameMode: mode,
+        teamScores,
+        mustStartOnStar,
+        lexicon,
+        challengeRule,
+        pendingMove: null,
+        seed,
+        rngState: random.getState(),
+        hintsAllowed,
+    };
+}
+
+/**
+ * Apply a player's action
+ * Any action but a challenge first accepts the previous player's pending
+ * play; if accepting it ends the game, the action itself is not taken.
+ * @returns The state after the action, finished if the action ended the game
+ * @throws Error if the action is not allowed (the message is for the player)
+ */
+export function applyAction(state: GameState, action: GameAction): GameState {
+    const random = createRandom(state.rngState ?? state.seed ?? randomSeed());
+    return { ...takeAction(state, action, random.next), rngState: random.getState() };
+}
+
+function takeAction(state: GameState, action: GameAction, random: RandomSource): GameState {
+    if (state.gameOver) {
+        throw new Error('The game is over.');
+    }
+    const player = state.players[state.currentPlayerIndex];
+    if (!player || player.id !== action.playerId) {
+        throw new Error(`It is not ${state.players.find(p => p.id === action.playerId)?.name || action.playerId}'s turn.`);
+    }
+
+    const pending = state.pendingMove && state.pendingMove.playerId !== player.id ? state.pendingMove : null;
+
+    if (action.type === 'CHALLENGE') {
+        if (!pending) throw new Error('There is no play to challenge.');
+        return endIfOver(resolveChallenge(state, action.invalidWords, random).state, pending.playerId);
+    }
+
+    let current = state;
+    if (pending) {
+        current = acceptPendingMove(state, random);
+        if (checkGameEnd(current, pending.playerId)) {
+            return endIfOver(current, pending.playerId);
+        }
+    } else if (action.type === 'ACCEPT') {
+        throw new Error('There is no play to accept.');
+    }
+
+    switch (action.type) {
+        case 'ACCEPT':
+            return current;
+        case 'PLACE': {
+            // A pending play can only end the game once it is accepted or challenged
+            const after = applyPlace(current, action.tiles, random);
+            return after.pendingMove ? after : endIfOver(after, player.id);
+        }
+        case 'EXCHANGE':
+            return endIfOver(applyExchange(current, action.tiles, random), player.id);
+        case 'PASS':
+            return endIfOver(recordTurn(current, { type: 'PASS', playerId: player.id, word: '', score: 0, tiles: [], rack: player.rack }), player.id);
+        case 'RESIGN':
+            return endIfOver(recordTurn(
+                replaceCurrentPlayer(current, { ...current.players[current.currentPlayerIndex], resigned: true }),
+                { type: 'PASS', playerId: player.id, word: '', score: 0, tiles: [], rack: player.rack }
+            ), player.id);
+    }
+}
+
+/**
+ * Count a request for the best plays by the human player to move
+ * Not an action: the turn stays with the player
+ * @throws Error if hints are off in this game, or it is not a human player's turn
+ */
+export function recordHint(state: GameState, playerId: string): GameState {
+    if (state.hintsAllowed === false) {
+        throw new Error('Hints are turned off in this game.');
+    }
+    if (state.gameOver) {
+        throw new Error('The game is over.');
+    }
+    const player = state.players[state.currentPlayerIndex];
+    if (!player || player.id !== playerId) {
+        throw new Error(`It is not ${state.players.find(p => p.id === playerId)?.name || playerId}'s turn.`);
+    }
+    if (player.isAi) {
+        throw new Error('Hints are for human players.');
+    }
+    return replaceCurrentPlayer(state, { ...player, hintsUsed: (player.hintsUsed || 0) + 1 });
+}
+
+/**
+ * Tiles a player cannot see: the bag and everyone else's racks
+ */
+export function getUnseenTiles(state: GameState, playerId: string): Tile[] {
+    return [
+        ...state.bag,
+        ...state.players.filter(p => p.id !== playerId).flatMap(p => p.rack),
+    ];
+}
+
+/**
+ * Seed for an AI's decision on the current turn
+ * Derived from the game seed and the turn, so AI games replay from their seed
+ */
+export function getDecisionSeed(state: GameState, decision: 'MOVE' | 'CHALLENGE' | 'INFERENCE'): number {
+    const salt = decision === 'MOVE' ? 0 : decision === 'CHALLENGE' ? 1 : 2;
+    return deriveSeed(state.seed ?? 0, state.moveHistory.length, state.currentPlayerIndex, salt);
+}
+
+/**
+ * Describe an applied action for the message bar
+ * @param before - State the action was applied to
+ * @param action - The action
+ * @param after - State returned by applyAction
+ */
+export function describeAction(before: GameState, action: GameAction, after: GameState): string {
+    if (after.gameOver) return describeGameEnd(after);
+
+    const player = before.players.find(p => p.id === action.playerId);
+    const name = player?.name || action.playerId;
+    const lastMove = after.moveHistory[after.moveHistory.length - 1];
+
+    switch (action.type) {
+        case 'PLACE':
+            if (after.pendingMove) {
+                return `${name} played ${after.pendingMove.word} for ${after.pendingMove.score} points (open to challenge).`;
+            }
+            return `${name} played ${lastMove.word} for ${lastMove.score} points.`;
+        case 'CHALLENGE': {
+            const upheld = !!lastMove.challengeUpheld;
+            return describeChallenge(after, name, upheld, upheld ? lastMove.word.split(', ') : []);
+        }
+        case 'ACCEPT':
+            return 'Play accepted.';
+        case 'EXCHANGE':
+            return `${name} exchanged ${action.tiles.length} tile${action.tiles.length === 1 ? '' : 's'}.`;
+        case 'PASS':
+            return `${name} passed.`;
+        case 'RESIGN': {
+            const team = player?.teamId;
+            if (after.gameMode === 'TEAMS' && team && after.players.filter(p => p.teamId === team).every(p => p.resigned)) {
+                return `All ${team} Team players have resigned!`;
+            }
+            return `${name} has resigned.`;
+        }
+    }
+}
+
+/**
+ * Play tiles from the current player's rack
+ * Under SINGLE/DOUBLE the play stays pending until the next player responds
+ */
+function applyPlace(state: GameState, tiles: { x: number; y: number; tile: Tile }[], random: RandomSource): GameState {
+    const player = state.players[state.currentPlayerIndex];
+    const placed = placedFromRack(player, tiles);
+
+    if (placed.some(({ x, y }) => state.board[y]?.[x]?.tile !== null)) {
+        throw new Error('Tiles must be placed on empty squares.');
+    }
+
+    const validation = validateMove(state.board, placed, isBoardEmpty(state.board), player, state.mustStartOnStar);
+    if (!validation.isValid) {
+        throw new Error(validation.message || 'Invalid move');
+    }
+
+    const words = validation.words || [];
+    const word = words.join(', ');
+    const score = calculateScore(state.board, placed);
+
+    if (isChallengeRule(state.challengeRule)) {
+        return placePendingMove(state, { playerId: player.id, word, words, score, tiles: placed, rack: player.rack });
+    }
+
+    const board = [...state.board];
+    placed.forEach(({ x, y, tile }) => {
+        board[y] = [...board[y]];
+        board[y][x] = { ...board[y][x], tile };
+    });
+
+    const usedIds = new Set(placed.map(t => t.tile.id));
+    const remainingRack = player.rack.filter(t => !usedIds.has(t.id));
+    const { drawn, newBag } = drawTiles(state.bag, RACK_SIZE - remainingRack.length, player.id, random);
+
+    const teamScores = state.teamScores && player.teamId
+        ? { ...state.teamScores, [player.teamId]: (state.teamScores[player.teamId] || 0) + score }
+        : state.teamScores;
+
+    const played = replaceCurrentPlayer({ ...state, board, bag: newBag, teamScores }, {
+        ...player,
+        rack: [...remainingRack, ...drawn],
+        score: player.score + score,
+        movesMade: (player.movesMade || 0) + 1,
+    });
+
+    return recordTurn(played, { type: 'PLAY', playerId: player.id, word, score, tiles: placed, rack: player.rack });
+}
+
+/**
+ * Swap rack tiles with the bag
+ */
+function applyExchange(state: GameState, tiles: Tile[], random: RandomSource): GameState {
+    const player = state.players[state.currentPlayerIndex];
+
+    if (tiles.length === 0) {
+        throw new Error('Select tiles to exchange.');
+    }
+    if (state.bag.length < MIN_BAG_SIZE_FOR_EXCHANGE) {
+        throw new Error(`Cannot exchange: the bag needs at least ${MIN_BAG_SIZE_FOR_EXCHANGE} tiles (${state.bag.length} left).`);
+    }
+    const own = tilesFromRack(player.rack, tiles.map(t => t?.id), 'exchange');
+
+    const exchangedIds = new Set(own.map(t => t.id));
+    const { drawn, newBag } = exchangeWithBag(state.bag, own, player.id, random);
+
+    const exchanged = replaceCurrentPlayer({ ...state, bag: newBag }, {
+        ...player,
+        rack: [...player.rack.filter(t => !exchangedIds.has(t.id)), ...drawn],
+    });
+
+    return recordTurn(exchanged, {
+        type: 'EXCHANGE',
+        playerId: player.id,
+        word: '',
+        score: 0,
+        tiles: [],
+        exchangedCount: own.length,
+        exchanged: own,
+        rack: player.rack,
+    });
+}
+
+/**
+ * A play's tiles as the player's rack holds them, each blank keeping only the
+ * letter given to it
+ * @throws Error if a tile is not on the rack or is played twice, or a blank has no letter
+ */
+export function placedFromRack(player: Player, tiles: { x: number; y: number; tile: Tile }[]): { x: number; y: number; tile: Tile }[] {
+    const own = tilesFromRack(player.rack, tiles.map(t => t.tile?.id), 'play');
+    return tiles.map(({ x, y, tile }, i) => {
+        if (!own[i].isBlank) return { x, y, tile: own[i] };
+        const letter = tile.letterOverride?.toUpperCase() || '';
+        if (!/^[A-Z]$/.test(letter)) throw new Error('Give each blank a letter.');
+        return { x, y, tile: { ...own[i], letterOverride: letter } };
+    });
+}
+
+/**
+ * The rack's own tiles for the ids a player names: only the ids of the tiles
+ * an action sends are trusted, never their letters or scores
+ * @throws Error if a tile is not on the rack or is named twice
+ */
+function tilesFromRack(rack: Tile[], ids: string[], use: 'play' | 'exchange'): Tile[] {
+    if (new Set(ids).size !== ids.length) {
+        throw new Error('Each tile can only be used once.');
+    }
+    return ids.map(id => {
+        const tile = rack.find(t => t.id === id);
+        if (!tile) throw new Error(`Can only ${use} tiles from your rack.`);
+        return tile;
+    });
+}
+
+function replaceCurrentPlayer(state: GameState, player: Player): GameState {
+    const players = [...state.players];
+    players[state.currentPlayerIndex] = player;
+    return { ...state, players };
+}
+
+/**
+ * Add a move to the history and pass the turn on to the next player still in the game
+ */
+function recordTurn(state: GameState, move: Move): GameState {
+    return {
+        ...state,
+        moveHistory: [...state.moveHistory, move],
+        currentPlayerIndex: nextPlayerIndex(state),
+    };
+}
+
+function endIfOver(state: GameState, playerId: string): GameState {
+    const reason = checkGameEnd(state, playerId);
+    return reason ? finishGame(state, reason, playerId) : state;
+}
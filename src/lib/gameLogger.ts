@@ -3,6 +3,9 @@
  * Saves game logs in the browser for later analysis
  */
 
+import { FinalTally } from './types';
+import { GameAnalysis } from './analysis';
+
 interface LogEntry {
     timestamp: string;
     playerName: string;
@@ -12,18 +15,31 @@ interface LogEntry {
     rackBefore: string;
     rackAfter: string;
     rackLeaveScore?: number;
-    boardControlScore?: number;
+}
+
+interface HintLogEntry {
+    timestamp: string;
+    playerName: string;
+    turn: number;       // Moves played before the hint
+    plays: string[];    // Plays shown, best first
 }
 
 interface GameLog {
     gameId: string;
     mode: string;
     variant: string;
+    lexicon?: string;
+    seed?: number;
+    hintsAllowed?: boolean;
     startTime: string;
     entries: LogEntry[];
+    hints?: HintLogEntry[];
+    hintsUsed?: Record<string, number>; // Hints taken by each player, by name
     endTime?: string;
     winner?: string;
     finalScores?: Record<string, number>;
+    finalTally?: FinalTally; // Rack penalties and adjustments, keyed by player name
+    analysis?: GameAnalysis; // Post-game analysis, if one was run
 }
 
 let currentLog: GameLog | null = null;
@@ -31,14 +47,18 @@ let currentLog: GameLog | null = null;
 /**
  * Initialize a new game log
  */
-export function initGameLog(mode: string, variant: string): void {
+export function initGameLog(mode: string, variant: string, lexicon?: string, seed?: number, hintsAllowed?: boolean): void {
     const gameId = `game-${Date.now()}`;
     currentLog = {
         gameId,
         mode,
         variant,
+        lexicon,
+        seed,
+        hintsAllowed,
         startTime: new Date().toISOString(),
-        entries: []
+        entries: [],
+        hints: []
     };
 }
 
@@ -66,14 +86,27 @@ export function logAiMove(
     });
 }
 
+/**
+ * Log a player asking for the best plays
+ */
+export function logHint(playerName: string, turn: number, plays: string[]): void {
+    if (!currentLog) return;
+
+    if (!currentLog.hints) currentLog.hints = [];
+    currentLog.hints.push({
+        timestamp: new Date().toISOString(),
+        playerName,
+        turn,
+        plays
+    });
+}
+
 /**
  * Log heuristic breakdown
  */
 export function logHeuristicBreakdown(
     playerName: string,
-    rackLeaveScore: number,
-    boardControlScore: number,
-    totalAdjustment: number
+    rackLeaveScore: number
 ): void {
     if (!currentLog || currentLog.entries.length === 0) return;
 
@@ -81,25 +114,44 @@ export function logHeuristicBreakdown(
     const lastEntry = currentLog.entries[currentLog.entries.length - 1];
     if (lastEntry.playerName === playerName) {
         lastEntry.rackLeaveScore = rackLeaveScore;
-        lastEntry.boardControlScore = boardControlScore;
     }
 }
 
 /**
  * End the current game log
  */
-export function logGameEnd(winner: string | null, finalScores: Record<string, number>): void {
+export function logGameEnd(winner: string | null, finalScores: Record<string, number>, finalTally?: FinalTally, hintsUsed?: Record<string, number>): void {
     if (!currentLog) return;
 
     currentLog.endTime = new Date().toISOString();
     currentLog.winner = winner || 'Tie';
     currentLog.finalScores = finalScores;
+    currentLog.finalTally = finalTally;
+    currentLog.hintsUsed = hintsUsed;
 
     // Save to localStorage
     saveLogToStorage(currentLog);
     currentLog = null;
 }
 
+/**
+ * Add a post-game analysis to the most recently saved log, which is the
+ * finished game's own
+ * @returns The updated log, or null if there is none
+ */
+export function attachAnalysisToLatestLog(analysis: GameAnalysis): GameLog | null {
+    const logs = getAllLogs();
+    if (logs.length === 0) return null;
+
+    const log = { ...logs[logs.length - 1], analysis };
+    try {
+        localStorage.setItem('scrabble-game-logs', JSON.stringify([...logs.slice(0, -1), log]));
+    } catch (error) {
+        console.error('Failed to save game analysis:', error);
+    }
+    return log;
+}
+
 /**
  * Save log to localStorage
  */
@@ -148,6 +200,9 @@ export function downloadLog(log: GameLog): void {
     lines.push('=== Scrabble Game Log ===');
     lines.push(`Mode: ${log.mode}`);
     lines.push(`Variant: ${log.variant}`);
+    if (log.lexicon) lines.push(`Lexicon: ${log.lexicon}`);
+    if (log.seed !== undefined) lines.push(`Seed: ${log.seed}`);
+    if (log.hintsAllowed !== undefined) lines.push(`Hints: ${log.hintsAllowed ? 'allowed' : 'off'}`);
     lines.push(`Started: ${log.startTime}`);
     lines.push('');
 
@@ -167,24 +222,59 @@ export function downloadLog(log: GameLog): void {
         if (entry.rackLeaveScore !== undefined) {
             lines.push(`  Heuristic Breakdown:`);
             lines.push(`    Rack Leave: ${entry.rackLeaveScore.toFixed(1)}`);
-            lines.push(`    Board Control: ${entry.boardControlScore?.toFixed(1) || '0.0'}`);
         }
 
         lines.push('');
     }
 
+    for (const hint of log.hints || []) {
+        lines.push(`[${hint.timestamp}] ${hint.playerName} asked for a hint (turn ${hint.turn + 1})`);
+        lines.push(`  Shown: ${hint.plays.join('; ') || 'no plays'}`);
+        lines.push('');
+    }
+
     if (log.endTime) {
         lines.push('=== Game Ended ===');
         lines.push(`Winner: ${log.winner}`);
+        if (log.finalTally) {
+            lines.push(`End Reason: ${log.finalTally.reason}`);
+            lines.push(`Rack Adjustments:`);
+            Object.entries(log.finalTally.scoreAdjustments).forEach(([player, adjustment]) => {
+                const penalty = log.finalTally!.rackPenalties[player] || 0;
+                lines.push(`  ${player}: ${adjustment > 0 ? '+' : ''}${adjustment} (tiles left: ${penalty})`);
+            });
+        }
         lines.push(`Final Scores:`);
         if (log.finalScores) {
             Object.entries(log.finalScores).forEach(([player, score]) => {
                 lines.push(`  ${player}: ${score}`);
             });
         }
+        if (log.hintsUsed && Object.keys(log.hintsUsed).length > 0) {
+            lines.push(`Hints Used:`);
+            Object.entries(log.hintsUsed).forEach(([player, count]) => {
+                lines.push(`  ${player}: ${count}`);
+            });
+        }
         lines.push(`Ended: ${log.endTime}`);
     }
 
+    if (log.analysis) {
+        const names = new Map(log.analysis.players.map(p => [p.playerId, p.name]));
+        lines.push('');
+        lines.push(`=== Analysis (leaves: ${log.analysis.leaveTable}${log.analysis.complete ? '' : ', incomplete'}) ===`);
+        for (const player of log.analysis.players) {
+            const accuracy = player.moves > 0 ? `${Math.round(player.accuracy * 100)}%` : '—';
+            lines.push(`  ${player.name}: ${accuracy} best moves (${player.bestMoves}/${player.moves}), equity lost ${player.equityLost.toFixed(1)}`);
+        }
+        lines.push('');
+        for (const move of log.analysis.moves) {
+            lines.push(`Move ${move.moveIndex + 1} ${names.get(move.playerId) || move.playerId}: ${move.played.description} (${move.played.equity.toFixed(1)})`);
+            if (move.equityLost > 0) lines.push(`  Lost: ${move.equityLost.toFixed(1)} (rank ${move.rank} of ${move.legalPlays + 1})`);
+            lines.push(`  Best: ${move.best.map(play => `${play.description} (${play.equity.toFixed(1)})`).join('; ')}`);
+        }
+    }
+
     const content = lines.join('\n');
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
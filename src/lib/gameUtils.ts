@@ -1,7 +1,12 @@
 import { BOARD_SIZE, MEGA_BOARD_SIZE, BOARD_VARIANTS, BoardVariant, TILE_DISTRIBUTION } from './constants';
-import { BoardState, Tile, Square } from './types';
-
-export const initializeBoard = (variant: BoardVariant = 'STANDARD'): BoardState => {
+import { BoardState, GameState, Tile, Square, Move } from './types';
+import { RandomSource } from './random';
+import type { PlacedTile } from './validation';
+
+/**
+ * Empty board for a variant; RANDOM and HAZARDS bonus squares come from `random`
+ */
+export const initializeBoard = (variant: BoardVariant = 'STANDARD', random: RandomSource = Math.random): BoardState => {
     const board: BoardState = [];
     let bonusMap = BOARD_VARIANTS[variant];
     const currentBoardSize = variant === 'MEGA' ? MEGA_BOARD_SIZE : BOARD_SIZE;
@@ -15,7 +20,7 @@ export const initializeBoard = (variant: BoardVariant = 'STANDARD'): BoardState
             for (let x = 0; x < currentBoardSize; x++) {
                 if (x === 7 && y === 7) continue;
 
-                const rand = Math.random();
+                const rand = random();
                 const key = `${x},${y}`;
 
                 if (rand < 0.02) bonusMap[key] = 'TW';
@@ -32,7 +37,7 @@ export const initializeBoard = (variant: BoardVariant = 'STANDARD'): BoardState
             for (let x = 0; x < currentBoardSize; x++) {
                 if (x === 7 && y === 7) continue;
 
-                const rand = Math.random();
+                const rand = random();
                 const key = `${x},${y}`;
 
                 // Hazards appear more frequently but are dangerous
@@ -61,7 +66,7 @@ export const initializeBoard = (variant: BoardVariant = 'STANDARD'): BoardState
     return board;
 };
 
-export const createTileBag = (variant: BoardVariant = 'STANDARD'): Tile[] => {
+export const createTileBag = (variant: BoardVariant = 'STANDARD', random: RandomSource = Math.random): Tile[] => {
     const bag: Tile[] = [];
     let idCounter = 0;
     const multiplier = variant === 'MEGA' ? 9 : 1;
@@ -79,19 +84,114 @@ export const createTileBag = (variant: BoardVariant = 'STANDARD'): Tile[] => {
 
     // Shuffle bag
     for (let i = bag.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [bag[i], bag[j]] = [bag[j], bag[i]];
     }
 
     return bag;
 };
 
-export const drawTiles = (bag: Tile[], count: number, playerId?: string): { drawn: Tile[]; newBag: Tile[] } => {
+/**
+ * Letter a tile plays as: the designated letter for a blank, otherwise its own
+ */
+export const getTileLetter = (tile: Tile): string => tile.letterOverride || tile.letter;
+
+/**
+ * Return a tile to its rack form, dropping any blank designation
+ */
+export const clearBlankDesignation = (tile: Tile): Tile => (
+    tile.isBlank ? { ...tile, letterOverride: undefined } : tile
+);
+
+/**
+ * Board with a play's tiles placed; only the rows they land on are copied
+ */
+export const placeTiles = (board: BoardState, tiles: PlacedTile[]): BoardState => {
+    const next = [...board];
+    for (const { x, y, tile } of tiles) {
+        if (next[y] === board[y]) next[y] = [...board[y]];
+        next[y][x] = { ...next[y][x], tile };
+    }
+    return next;
+};
+
+/**
+ * Whether a move put tiles on the board: a play that was not withdrawn
+ */
+export const isBoardPlay = (move: Move): boolean => (
+    (move.type === undefined || move.type === 'PLAY') && !move.withdrawn
+);
+
+/**
+ * Board as it was before a move of the history: the tiles of that play and
+ * every later one taken off
+ */
+export const boardBeforeMove = (board: BoardState, moveHistory: Move[], index: number): BoardState => {
+    const later = new Set(
+        moveHistory.slice(index).filter(isBoardPlay).flatMap(move => move.tiles.map(t => `${t.x},${t.y}`))
+    );
+    return board.map(row => row.map(square => (
+        later.has(`${square.x},${square.y}`) ? { ...square, tile: null } : square
+    )));
+};
+
+/**
+ * Column letters: A-Z, then AA, AB... on boards wider than 26 squares
+ */
+export const columnLabel = (x: number): string => {
+    let label = '';
+    for (let n = x + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        label = String.fromCharCode(65 + (n - 1) % 26) + label;
+    }
+    return label;
+};
+
+/**
+ * First square of a play's main word and its direction, on the board before the play
+ * A single tile reads across if it joins tiles in its row
+ */
+export const playStart = (board: BoardState, tiles: PlacedTile[]): { x: number; y: number; across: boolean } => {
+    const occupied = (x: number, y: number) => (
+        y >= 0 && y < board.length && x >= 0 && x < (board[0]?.length || 0)
+        && (!!board[y][x].tile || tiles.some(t => t.x === x && t.y === y))
+    );
+
+    const first = tiles.reduce((a, b) => (a.y < b.y || (a.y === b.y && a.x < b.x) ? a : b));
+    const across = tiles.length > 1
+        ? tiles.every(t => t.y === first.y)
+        : occupied(first.x - 1, first.y) || occupied(first.x + 1, first.y);
+
+    let { x, y } = first;
+    if (across) {
+        while (occupied(x - 1, y)) x--;
+    } else {
+        while (occupied(x, y - 1)) y--;
+    }
+    return { x, y, across };
+};
+
+/**
+ * Where a play's main word starts, in row-column order across ("8H") and
+ * column-row order down ("H8"), on the board before the play
+ */
+export const describePosition = (board: BoardState, tiles: PlacedTile[]): string => {
+    const { x, y, across } = playStart(board, tiles);
+    return across ? `${y + 1}${columnLabel(x)}` : `${columnLabel(x)}${y + 1}`;
+};
+
+/**
+ * Check if no tile has been played yet
+ */
+export const isBoardEmpty = (board: BoardState): boolean => (
+    board.every(row => row.every(square => !square.tile))
+);
+
+export const drawTiles = (bag: Tile[], count: number, playerId?: string, random: RandomSource = Math.random): { drawn: Tile[]; newBag: Tile[] } => {
     const drawn: Tile[] = [];
     const newBag = [...bag];
 
     for (let i = 0; i < count && newBag.length > 0; i++) {
-        const randomIndex = Math.floor(Math.random() * newBag.length);
+        const randomIndex = Math.floor(random() * newBag.length);
         const tile = newBag.splice(randomIndex, 1)[0];
         // Assign playerId if provided
         if (playerId) {
@@ -102,3 +202,26 @@ export const drawTiles = (bag: Tile[], count: number, playerId?: string): { draw
 
     return { drawn, newBag };
 };
+
+/**
+ * Exchange rack tiles with the bag: replacements are drawn first, then the
+ * returned tiles go back into the bag
+ */
+export const exchangeWithBag = (bag: Tile[], tiles: Tile[], playerId?: string, random: RandomSource = Math.random): { drawn: Tile[]; newBag: Tile[] } => {
+    const { drawn, newBag } = drawTiles(bag, tiles.length, playerId, random);
+    const returned = tiles.map(tile => ({ ...clearBlankDesignation(tile), playerId: undefined }));
+    return { drawn, newBag: [...newBag, ...returned] };
+};
+
+/**
+ * Index of the player who moves after the current one; players who
+ * resigned are skipped
+ */
+export const nextPlayerIndex = (state: GameState): number => {
+    const count = state.players.length;
+    for (let step = 1; step <= count; step++) {
+        const index = (state.currentPlayerIndex + step) % count;
+        if (!state.players[index].resigned) return index;
+    }
+    return (state.currentPlayerIndex + 1) % count;
+};
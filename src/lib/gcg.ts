@@ -0,0 +1,537 @@
+/**
+ * GCG game records
+ * GCG is the standard text format for Scrabble game records: a few #pragma
+ * lines naming the players and lexicon, then one line per turn with the
+ * mover's rack, the play, its score and the running total.
+ *
+ * Export writes any game from its move history, including passes,
+ * exchanges, challenges and the rack adjustments at the end. Besides the
+ * standard pragmas it writes #board-layout, #challenge-rule and #seed, so a
+ * record of this app's games imports onto the same board; other programs
+ * ignore pragmas they do not know.
+ *
+ * Import replays a two-player record through the game engine: before each
+ * turn the mover's rack is dealt from the unseen tiles to match the record,
+ * and the play is applied as an action, so the game can be replayed,
+ * analyzed or played on. Records follow this engine's rules: a failed
+ * challenge costs the challenger points (SINGLE) or their turn (DOUBLE),
+ * and is never a bonus to the player challenged. A resignation is recorded
+ * as a pass.
+ */
+
+import { GameState, Move, Tile, Player, BoardState, ChallengeRule } from './types';
+import { BOARD_VARIANTS, BoardVariant, DEFAULT_LEXICON } from './constants';
+import { createGame, applyAction } from './gameEngine';
+import { boardBeforeMove, placeTiles, playStart, columnLabel, getTileLetter, clearBlankDesignation } from './gameUtils';
+import { calculateScore } from './scoring';
+import { PlacedTile } from './validation';
+
+type GcgLineKind = 'PLAY' | 'PASS' | 'EXCHANGE' | 'WITHDRAWN' | 'CHALLENGE' | 'END_RACK' | 'END_BONUS';
+
+interface GcgLine {
+    lineNumber: number;
+    nick: string;
+    kind: GcgLineKind;
+    rack: string[];             // Letters on the rack, '?' for a blank; may be partial or empty
+    position?: string;          // PLAY: "8H" across, "H8" down
+    word?: string;              // PLAY: '.' or (letters) for tiles already on the board, lowercase for blanks
+    exchanged?: string[] | number; // EXCHANGE: the letters returned, or just how many
+    tiles?: string[];           // END_RACK / END_BONUS: the letters in parentheses
+    score: number;
+}
+
+interface GcgRecord {
+    players: Array<{ nick: string; name: string }>;
+    lexicon?: string;
+    variant?: string;
+    challengeRule?: string;
+    seed?: number;
+    lines: GcgLine[];
+}
+
+const RACK_PATTERN = /^[A-Za-z?]+$/;
+const ACROSS_PATTERN = /^(\d+)([A-Za-z]+)$/;
+const DOWN_PATTERN = /^([A-Za-z]+)(\d+)$/;
+
+const signed = (value: number) => `${value < 0 ? '-' : '+'}${Math.abs(value)}`;
+
+// Sorted letters with blanks last, as GCG racks are usually written
+const rackString = (tiles: Tile[]): string => {
+    const letters = tiles.filter(t => !t.isBlank).map(t => t.letter).sort().join('');
+    return letters + '?'.repeat(tiles.filter(t => t.isBlank).length);
+};
+
+const columnIndex = (label: string): number => (
+    label.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1
+);
+
+/**
+ * Nicknames for the move lines: player names without spaces, numbered where two clash
+ */
+function playerNicks(players: Player[]): string[] {
+    const nicks: string[] = [];
+    players.forEach((player, i) => {
+        let nick = player.name.replace(/\s+/g, '') || player.id;
+        if (nicks.includes(nick)) nick = `${nick}${i + 1}`;
+        nicks.push(nick);
+    });
+    return nicks;
+}
+
+/**
+ * A play's position and main word: tiles it played through are '.', blanks lowercase
+ * @param before - Board before the play
+ */
+function describePlay(before: BoardState, tiles: PlacedTile[]): { position: string; word: string } {
+    const after = placeTiles(before, tiles);
+    const { x, y, across } = playStart(before, tiles);
+    const [dx, dy] = across ? [1, 0] : [0, 1];
+
+    let word = '';
+    for (let cx = x, cy = y; cy < after.length && cx < after[cy].length && after[cy][cx].tile; cx += dx, cy += dy) {
+        const placed = tiles.find(t => t.x === cx && t.y === cy);
+        if (!placed) {
+            word += '.';
+            continue;
+        }
+        const letter = getTileLetter(placed.tile);
+        word += placed.tile.isBlank ? letter.toLowerCase() : letter;
+    }
+    return { position: across ? `${y + 1}${columnLabel(x)}` : `${columnLabel(x)}${y + 1}`, word };
+}
+
+/**
+ * Write a game as a GCG record
+ * A play still open to challenge is written as played; a game in progress
+ * simply stops after the last turn
+ */
+export function exportGcg(state: GameState): string {
+    const nicks = playerNicks(state.players);
+    const nickOf = (playerId: string) => nicks[state.players.findIndex(p => p.id === playerId)] || playerId;
+    const totals = new Map<string, number>(state.players.map(p => [p.id, 0]));
+    const addScore = (playerId: string, points: number) => {
+        totals.set(playerId, (totals.get(playerId) || 0) + points);
+        return totals.get(playerId);
+    };
+
+    const lines: string[] = ['#character-encoding UTF-8'];
+    state.players.forEach((player, i) => lines.push(`#player${i + 1} ${nicks[i]} ${player.name}`));
+    lines.push(`#lexicon ${state.lexicon || DEFAULT_LEXICON}`);
+    if (state.variant) lines.push(`#board-layout ${state.variant}`);
+    lines.push(`#challenge-rule ${state.challengeRule || 'VOID'}`);
+    if (state.seed !== undefined) lines.push(`#seed ${state.seed}`);
+
+    // The board without a play still open to challenge, which is not in the history yet
+    const pending = state.pendingMove;
+    const pendingSquares = new Set(pending?.tiles.map(t => `${t.x},${t.y}`));
+    const board = state.board.map(row => row.map(square => (
+        pendingSquares.has(`${square.x},${square.y}`) ? { ...square, tile: null } : square
+    )));
+    const history = state.moveHistory;
+
+    // A challenger's rack: unchanged until their next turn
+    const rackBefore = (index: number, playerId: string): Tile[] => {
+        const later = history.slice(index + 1).find(m => m.playerId === playerId && m.rack);
+        if (later?.rack) return later.rack;
+        if (pending?.playerId === playerId && pending.rack) return pending.rack;
+        return state.players.find(p => p.id === playerId)?.rack || [];
+    };
+    const playLine = (playerId: string, rack: Tile[] | undefined, before: BoardState, tiles: PlacedTile[], score: number) => {
+        const { position, word } = describePlay(before, tiles);
+        const held = rack || tiles.map(t => clearBlankDesignation(t.tile));
+        return `>${nickOf(playerId)}: ${rackString(held)} ${position} ${word} ${signed(score)} ${addScore(playerId, score)}`;
+    };
+
+    history.forEach((move: Move, i) => {
+        const nick = nickOf(move.playerId);
+        const rack = move.rack ? rackString(move.rack) : '';
+        switch (move.type || 'PLAY') {
+            case 'PLAY': {
+                if (!move.withdrawn) {
+                    lines.push(playLine(move.playerId, move.rack, boardBeforeMove(board, history, i), move.tiles, move.score));
+                } else if (move.tiles.length > 0) {
+                    const before = boardBeforeMove(board, history, i);
+                    const score = calculateScore(before, move.tiles);
+                    lines.push(playLine(move.playerId, move.rack, before, move.tiles, score));
+                    lines.push(`>${nick}: ${rack} -- ${signed(-score)} ${addScore(move.playerId, -score)}`);
+                } else {
+                    lines.push(`#note ${move.word} was withdrawn`);
+                }
+                break;
+            }
+            case 'PASS':
+                lines.push(`>${nick}: ${rack} - +0 ${totals.get(move.playerId)}`);
+                break;
+            case 'EXCHANGE': {
+                const returned = move.exchanged ? rackString(move.exchanged) : `${move.exchangedCount || 0}`;
+                lines.push(`>${nick}: ${rack} -${returned} +0 ${totals.get(move.playerId)}`);
+                break;
+            }
+            case 'CHALLENGE':
+                // A successful challenge is the withdrawn play's "--" line
+                if (!move.challengeUpheld) {
+                    const held = rackString(rackBefore(i, move.playerId));
+                    lines.push(`>${nick}: ${held} (challenge) ${signed(move.score)} ${addScore(move.playerId, move.score)}`);
+                }
+                break;
+        }
+    });
+
+    if (pending) {
+        lines.push(playLine(pending.playerId, pending.rack, board, pending.tiles, pending.score));
+    }
+
+    const tally = state.finalTally;
+    if (tally) {
+        const wentOut = state.players.find(p => p.id === tally.wentOutPlayerId);
+        for (const player of state.players) {
+            const adjustment = tally.scoreAdjustments[player.id] || 0;
+            if (player === wentOut) {
+                const team = wentOut.teamId || wentOut.id;
+                const collected = state.players.filter(p => (p.teamId || p.id) !== team).flatMap(p => p.rack);
+                lines.push(`>${nickOf(player.id)}: (${rackString(collected)}) ${signed(adjustment)} ${addScore(player.id, adjustment)}`);
+            } else if (player.rack.length > 0) {
+                const rack = rackString(player.rack);
+                lines.push(`>${nickOf(player.id)}: ${rack} (${rack}) ${signed(adjustment)} ${addScore(player.id, adjustment)}`);
+            }
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Read a GCG record's pragmas and move lines
+ * @throws Error naming the line that cannot be read
+ */
+function parseGcg(text: string): GcgRecord {
+    const record: GcgRecord = { players: [], lines: [] };
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const lineNumber = i + 1;
+        const line = raw.trim();
+        const fail = (why: string) => new Error(`GCG line ${lineNumber}: ${why} ("${line}")`);
+
+        if (line.startsWith('#')) {
+            const [pragma, ...rest] = line.slice(1).split(/\s+/);
+            const value = rest.join(' ');
+            const player = pragma.match(/^player(\d+)$/);
+            if (player) {
+                const [nick, ...name] = rest;
+                if (!nick) throw fail('player without a nickname');
+                record.players[Number(player[1]) - 1] = { nick, name: name.join(' ') || nick };
+            } else if (pragma === 'lexicon') {
+                record.lexicon = value;
+            } else if (pragma === 'board-layout') {
+                record.variant = value;
+            } else if (pragma === 'challenge-rule') {
+                record.challengeRule = value.toUpperCase();
+            } else if (pragma === 'seed') {
+                const seed = Number(value);
+                if (!Number.isInteger(seed) || seed < 0) throw fail('seed must be a whole number');
+                record.seed = seed;
+            }
+            return;
+        }
+
+        const match = line.match(/^>([^:]+):\s*(.*)$/);
+        if (!match) return; // Blank lines and the text of #note pragmas
+
+        const nick = match[1].trim();
+        const tokens = match[2].split(/\s+/).filter(Boolean);
+        const total = tokens.pop();
+        const scoreToken = tokens.pop();
+        if (!total || !/^-?\d+$/.test(total) || !scoreToken || !/^[+-]?\d+$/.test(scoreToken)) {
+            throw fail('expected a score and a running total');
+        }
+        const score = Number(scoreToken);
+        const letters = (token: string) => token.toUpperCase().replace(/[()]/g, '').split('');
+
+        if (tokens.length === 1 && /^\([A-Za-z?]*\)$/.test(tokens[0])) {
+            record.lines.push({ lineNumber, nick, kind: 'END_BONUS', rack: [], tiles: letters(tokens[0]), score });
+            return;
+        }
+
+        const rack = tokens.length >= 2 && RACK_PATTERN.test(tokens[0]) ? letters(tokens.shift()!) : [];
+        const [action, word] = tokens;
+        if (!action) throw fail('missing the play');
+
+        if (action === '-') {
+            record.lines.push({ lineNumber, nick, kind: 'PASS', rack, score });
+        } else if (action === '--') {
+            record.lines.push({ lineNumber, nick, kind: 'WITHDRAWN', rack, score });
+        } else if (/^-\d+$/.test(action)) {
+            record.lines.push({ lineNumber, nick, kind: 'EXCHANGE', rack, exchanged: Number(action.slice(1)), score });
+        } else if (/^-[A-Za-z?]+$/.test(action)) {
+            record.lines.push({ lineNumber, nick, kind: 'EXCHANGE', rack, exchanged: letters(action.slice(1)), score });
+        } else if (action === '(challenge)') {
+            record.lines.push({ lineNumber, nick, kind: 'CHALLENGE', rack, score });
+        } else if (/^\([A-Za-z?]*\)$/.test(action)) {
+            record.lines.push({ lineNumber, nick, kind: 'END_RACK', rack, tiles: letters(action), score });
+        } else if ((ACROSS_PATTERN.test(action) || DOWN_PATTERN.test(action)) && word) {
+            record.lines.push({ lineNumber, nick, kind: 'PLAY', rack, position: action, word, score });
+        } else {
+            throw fail(action.startsWith('(') ? `${action} is not supported` : 'cannot read the play');
+        }
+    });
+
+    return record;
+}
+
+const matchesLetter = (letter: string) => (tile: Tile) => (
+    letter === '?' ? !!tile.isBlank : !tile.isBlank && tile.letter === letter
+);
+
+/**
+ * Give players the racks a record says they held
+ * Every tile off the board is up for dealing; each player keeps their rack
+ * size, and tiles nobody is dealt stay where they were as far as possible
+ * @param wanted - Letters each named player must hold ('?' for a blank); the rest of the rack is filled
+ */
+function dealRacks(state: GameState, wanted: Map<string, string[]>): GameState {
+    const owner = new Map<Tile, string | null>([
+        ...state.bag.map(tile => [tile, null] as [Tile, null]),
+        ...state.players.flatMap(p => p.rack.map(tile => [tile, p.id] as [Tile, string])),
+    ]);
+    const taken = new Set<Tile>();
+    const racks = new Map<string, Tile[]>(state.players.map(p => [p.id, []]));
+
+    // From the player's own rack first, then the bag, then anyone else's
+    const take = (playerId: string, matches: (tile: Tile) => boolean): Tile | undefined => {
+        const free = Array.from(owner.keys()).filter(tile => !taken.has(tile) && matches(tile));
+        const tile = free.find(t => owner.get(t) === playerId) || free.find(t => owner.get(t) === null) || free[0];
+        if (tile) {
+            taken.add(tile);
+            racks.get(playerId)!.push(tile);
+        }
+        return tile;
+    };
+
+    for (const [playerId, letters] of wanted) {
+        const player = state.players.find(p => p.id === playerId)!;
+        if (letters.length > player.rack.length) {
+            throw new Error(`${player.name} has ${player.rack.length} tiles, not ${letters.length}.`);
+        }
+        for (const letter of letters) {
+            if (!take(playerId, matchesLetter(letter))) {
+                throw new Error(`There is no ${letter === '?' ? 'blank' : letter} left for ${player.name}.`);
+            }
+        }
+    }
+    for (const player of state.players) {
+        while (racks.get(player.id)!.length < player.rack.length && take(player.id, () => true));
+    }
+
+    return {
+        ...state,
+        bag: Array.from(owner.keys()).filter(tile => !taken.has(tile)).map(tile => ({ ...tile, playerId: undefined })),
+        players: state.players.map(p => ({ ...p, rack: racks.get(p.id)!.map(tile => ({ ...tile, playerId: p.id })) })),
+    };
+}
+
+/**
+ * Letters a rack must hold: the ones recorded, plus any the turn uses that
+ * a partial rack leaves out
+ */
+function rackLetters(recorded: string[], used: string[]): string[] {
+    const letters = [...recorded];
+    const spare = [...recorded];
+    for (const letter of used) {
+        const i = spare.indexOf(letter);
+        if (i >= 0) spare.splice(i, 1);
+        else letters.push(letter);
+    }
+    return letters;
+}
+
+/**
+ * The tiles a PLAY line puts down, on the board it is played on
+ */
+function readPlay(board: BoardState, rack: Tile[], line: GcgLine): PlacedTile[] {
+    const across = line.position!.match(ACROSS_PATTERN);
+    const down = line.position!.match(DOWN_PATTERN);
+    let x = across ? columnIndex(across[2]) : columnIndex(down![1]);
+    let y = across ? Number(across[1]) - 1 : Number(down![2]) - 1;
+    const [dx, dy] = across ? [1, 0] : [0, 1];
+
+    const placed: PlacedTile[] = [];
+    const free = [...rack];
+    let playedThrough = false;
+    for (const ch of line.word!) {
+        if (ch === '(' || ch === ')') {
+            playedThrough = ch === '(';
+            continue;
+        }
+        const square = board[y]?.[x];
+        if (!square) throw new Error(`${line.word} runs off the board.`);
+
+        if (ch === '.' || playedThrough || square.tile) {
+            if (!square.tile) throw new Error(`${line.word} plays through ${columnLabel(x)}${y + 1}, which is empty.`);
+        } else {
+            const letter = ch.toUpperCase();
+            const blank = ch !== letter;
+            const i = free.findIndex(matchesLetter(blank ? '?' : letter));
+            if (i < 0) throw new Error(`The rack has no ${blank ? 'blank' : letter} for ${line.word}.`);
+            const [tile] = free.splice(i, 1);
+            placed.push({ x, y, tile: blank ? { ...tile, letterOverride: letter } : tile });
+        }
+        x += dx;
+        y += dy;
+    }
+    if (placed.length === 0) throw new Error(`${line.word} places no tiles.`);
+    return placed;
+}
+
+/**
+ * Lexicon id for a record's #lexicon: CSW19, CSW21... read as CSW, and the
+ * North American lists as TWL; anything else is taken as a lexicon id
+ */
+function lexiconFor(name: string | undefined): string {
+    if (!name) return DEFAULT_LEXICON;
+    const upper = name.toUpperCase();
+    if (upper.startsWith('CSW')) return 'CSW';
+    if (/^(TWL|NWL|OTCWL|NSWL)/.test(upper)) return 'TWL';
+    return name;
+}
+
+/**
+ * Challenge rule for a record: its #challenge-rule, or else read from its
+ * challenge lines (a failed challenge that cost points means SINGLE)
+ */
+function challengeRuleFor(record: GcgRecord): ChallengeRule {
+    const rule = record.challengeRule;
+    if (rule === 'VOID' || rule === 'SINGLE' || rule === 'DOUBLE') return rule;
+    if (rule) throw new Error(`Challenge rule ${rule} is not supported.`);
+    if (record.lines.some(l => l.kind === 'CHALLENGE' && l.score < 0)) return 'SINGLE';
+    if (record.lines.some(l => l.kind === 'CHALLENGE' || l.kind === 'WITHDRAWN')) return 'DOUBLE';
+    return 'VOID';
+}
+
+/**
+ * Rebuild a game from a two-player GCG record by playing it through the engine
+ * Plays must score what the record says. The second player is an AI, so a
+ * record of an unfinished game can be played on from where it stops.
+ * @throws Error naming the line that does not fit the rules or the tiles
+ */
+export function importGcg(text: string): GameState {
+    const record = parseGcg(text);
+    if (record.players.length !== 2 || !record.players[0] || !record.players[1]) {
+        throw new Error('Only two-player GCG records can be imported.');
+    }
+
+    const variant = record.variant === undefined || record.variant === 'CrosswordGame' ? 'STANDARD' : record.variant;
+    if (!(variant in BOARD_VARIANTS)) {
+        throw new Error(`Board layout ${variant} is not supported.`);
+    }
+
+    let state = createGame({
+        variant: variant as BoardVariant,
+        mode: 'HUMAN_VS_AI',
+        lexicon: lexiconFor(record.lexicon),
+        challengeRule: challengeRuleFor(record),
+        seed: record.seed,
+    });
+    state = {
+        ...state,
+        players: state.players.map((p, i) => ({ ...p, name: record.players[i].name })),
+    };
+
+    const playerOf = (line: GcgLine): Player => {
+        const i = record.players.findIndex(p => p.nick === line.nick);
+        if (i < 0) throw new Error(`${line.nick} is not one of the players.`);
+        return state.players[i];
+    };
+    const moveLines = record.lines.filter(l => l.kind !== 'END_RACK' && l.kind !== 'END_BONUS');
+    const endLines = record.lines.filter(l => l.kind === 'END_RACK' || l.kind === 'END_BONUS');
+
+    // What each player held when the game ended; a bonus line names the other player's tiles
+    const finalRacks = new Map<string, string[]>();
+    const readEndLine = (line: GcgLine) => {
+        const player = playerOf(line);
+        if (line.kind === 'END_RACK') {
+            finalRacks.set(player.id, line.tiles!);
+        } else {
+            const other = state.players.find(p => p.id !== player.id)!;
+            if (!finalRacks.has(other.id)) finalRacks.set(other.id, line.tiles!);
+        }
+    };
+
+    const readLine = (line: GcgLine, last: boolean) => {
+        const player = playerOf(line);
+        const pending = state.pendingMove;
+        const deal = (used: string[]) => {
+            const wanted = new Map<string, string[]>([[player.id, rackLetters(line.rack, used)]]);
+            // The last turn also settles what everyone is left holding
+            if (last) finalRacks.forEach((letters, playerId) => { if (playerId !== player.id) wanted.set(playerId, letters); });
+            state = dealRacks(state, wanted);
+        };
+
+        switch (line.kind) {
+            case 'PLAY': {
+                // Deal every letter the word could use, then place from that rack
+                const used = readPlay(state.board, [...state.bag, ...state.players.flatMap(p => p.rack)], line)
+                    .map(t => t.tile.isBlank ? '?' : t.tile.letter);
+                deal(used);
+                const tiles = readPlay(state.board, state.players.find(p => p.id === player.id)!.rack, line);
+                state = applyAction(state, { type: 'PLACE', playerId: player.id, tiles });
+                const score = state.pendingMove ? state.pendingMove.score : state.moveHistory[state.moveHistory.length - 1].score;
+                if (score !== line.score) {
+                    throw new Error(`${line.word} scores ${score} here, not ${line.score}.`);
+                }
+                break;
+            }
+            case 'PASS':
+                deal([]);
+                state = applyAction(state, { type: 'PASS', playerId: player.id });
+                break;
+            case 'EXCHANGE': {
+                const letters = typeof line.exchanged === 'number' ? [] : line.exchanged!;
+                deal(letters);
+                const free = [...state.players.find(p => p.id === player.id)!.rack];
+                const tiles = typeof line.exchanged === 'number'
+                    ? free.slice(0, line.exchanged)
+                    : letters.map(letter => free.splice(free.findIndex(matchesLetter(letter)), 1)[0]);
+                state = applyAction(state, { type: 'EXCHANGE', playerId: player.id, tiles });
+                break;
+            }
+            case 'WITHDRAWN': {
+                if (!pending || pending.playerId !== player.id) {
+                    throw new Error(`${player.name} has no play open to challenge.`);
+                }
+                const challenger = state.players[state.currentPlayerIndex];
+                state = applyAction(state, { type: 'CHALLENGE', playerId: challenger.id, invalidWords: pending.words });
+                break;
+            }
+            case 'CHALLENGE':
+                if (line.score > 0) {
+                    throw new Error('A challenge bonus for the player challenged is not supported by these rules.');
+                }
+                state = applyAction(state, { type: 'CHALLENGE', playerId: player.id, invalidWords: [] });
+                break;
+        }
+    };
+
+    const withLine = (line: GcgLine, read: () => void) => {
+        try {
+            read();
+        } catch (error) {
+            throw new Error(`GCG line ${line.lineNumber}: ${(error as Error).message}`);
+        }
+    };
+
+    endLines.forEach(line => withLine(line, () => readEndLine(line)));
+    moveLines.forEach((line, i) => withLine(line, () => readLine(line, i === moveLines.length - 1)));
+
+    if (endLines.length > 0 && !state.gameOver) {
+        // A last play still open to challenge stands once the game is over
+        if (state.pendingMove) {
+            const responder = state.players[state.currentPlayerIndex];
+            withLine(endLines[0], () => { state = applyAction(state, { type: 'ACCEPT', playerId: responder.id }); });
+        }
+        if (!state.gameOver) {
+            throw new Error(`GCG line ${endLines[0].lineNumber}: the record ends the game, but by these rules it goes on.`);
+        }
+    }
+
+    return state;
+}
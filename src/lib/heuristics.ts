@@ -1,106 +1,41 @@
 /**
  * Strategic heuristics for Scrabble AI
- * Evaluates moves beyond just immediate score
+ * Evaluates moves beyond just immediate score, by the value of the rack leave
  */
 
-import { Tile, BoardState } from './types';
+import { Tile } from './types';
 import { PlacedTile } from './validation';
+import { LeaveTable, getLeaveValue } from './leave-values';
 
 /**
- * Evaluate the quality of remaining rack tiles after a move
- * Good racks have balanced vowels/consonants, no duplicates, and valuable tiles
+ * Value of the tiles kept after a move, from a leave table
  */
-export function evaluateRackLeave(remainingTiles: Tile[]): number {
-    if (remainingTiles.length === 0) return 0;
-
-    let penalty = 0; // Only penalize bad situations, don't reward good ones
-    const letters = remainingTiles.map(t => t.letter);
-    const vowels = letters.filter(l => 'AEIOU'.includes(l)).length;
-    const consonants = letters.filter(l => !'AEIOU'.includes(l) && l !== '_').length;
-
-    // 1. Q without U is very bad
-    if (letters.includes('Q') && !letters.includes('U')) {
-        penalty -= 8;
-    }
-
-    // 2. All vowels or all consonants is bad
-    if (vowels === letters.length && letters.length > 0) {
-        penalty -= 10; // All vowels
-    }
-    if (consonants === letters.length && letters.length > 0) {
-        penalty -= 10; // All consonants
-    }
-
-    // 3. Too many duplicates is bad
-    const unique = new Set(letters).size;
-    const duplicates = letters.length - unique;
-    if (duplicates > 2) {
-        penalty -= (duplicates - 2) * 3; // Only penalize excessive duplicates
-    }
-
-    // 4. Extreme vowel imbalance
-    const vowelRatio = letters.length > 0 ? vowels / letters.length : 0;
-    if (vowelRatio > 0.7 || vowelRatio < 0.15) {
-        penalty -= 5; // Very imbalanced
-    }
-
-    return penalty; // Will be 0 or negative
+export function evaluateRackLeave(remainingTiles: Tile[], leaves: LeaveTable): number {
+    return getLeaveValue(leaves, remainingTiles);
 }
 
 /**
- * Evaluate board control - avoid creating opportunities for opponent
+ * Choose which tiles to exchange: the fewest tiles whose removal leaves the
+ * best rack according to evaluateRackLeave. At least one tile is exchanged
+ * @returns Tiles to return to the bag and the leave score of the tiles kept
  */
-export function evaluateBoardControl(
-    board: BoardState,
-    placedTiles: PlacedTile[]
-): number {
-    let score = 0;
-    const rows = board.length;
-    const cols = board[0]?.length || 0;
-
-    for (const placed of placedTiles) {
-        const { x, y } = placed;
-
-        // Check adjacent squares for bonus opportunities we're creating
-        const adjacent = [
-            { x: x + 1, y },
-            { x: x - 1, y },
-            { x, y: y + 1 },
-            { x, y: y - 1 }
-        ];
-
-        for (const adj of adjacent) {
-            if (adj.x < 0 || adj.x >= cols || adj.y < 0 || adj.y >= rows) continue;
-
-            const square = board[adj.y][adj.x];
-
-            // If we're placing next to a bonus square (and not using it), penalize
-            if (!square.tile) {
-                switch (square.bonus) {
-                    case 'TW':
-                        score -= 20; // Very bad - giving opponent triple word
-                        break;
-                    case 'DW':
-                        score -= 12; // Bad - giving opponent double word
-                        break;
-                    case 'TL':
-                        score -= 6; // Moderate - triple letter
-                        break;
-                    case 'DL':
-                        score -= 3; // Minor - double letter
-                        break;
-                }
-            }
-        }
-
-        // Bonus: If we're using a bonus square ourselves, that's good positioning
-        const ourSquare = board[y][x];
-        if (ourSquare.bonus === 'TW' || ourSquare.bonus === 'DW') {
-            score += 5; // Reward for using premium squares
+export function chooseExchangeTiles(rack: Tile[], leaves: LeaveTable): { tiles: Tile[]; leaveScore: number } {
+    let best: { tiles: Tile[]; leaveScore: number; kept: number } | null = null;
+
+    // Every subset to keep, as a bitmask over the rack (at most 2^7)
+    for (let mask = 0; mask < (1 << rack.length) - 1; mask++) {
+        const kept = rack.filter((_, i) => mask & (1 << i));
+        const leaveScore = evaluateRackLeave(kept, leaves);
+        if (!best || leaveScore > best.leaveScore || (leaveScore === best.leaveScore && kept.length > best.kept)) {
+            best = {
+                tiles: rack.filter((_, i) => !(mask & (1 << i))),
+                leaveScore,
+                kept: kept.length,
+            };
         }
     }
 
-    return score;
+    return best ? { tiles: best.tiles, leaveScore: best.leaveScore } : { tiles: [], leaveScore: 0 };
 }
 
 /**
@@ -112,27 +47,15 @@ export function getRemainingRack(rack: Tile[], placedTiles: PlacedTile[]): Tile[
 }
 
 /**
- * Combine all heuristics into a single adjusted score
+ * Equity of a move: what it scores now plus what its leave is worth later
  * @param baseScore - The immediate score from the move
  * @param remainingRack - Tiles left in rack after move
- * @param board - Current board state
- * @param placedTiles - Tiles being placed
- * @returns Adjusted score considering future potential
+ * @param leaves - Leave table the AI plays with
  */
 export function calculateHeuristicScore(
     baseScore: number,
     remainingRack: Tile[],
-    board: BoardState,
-    placedTiles: PlacedTile[]
+    leaves: LeaveTable
 ): number {
-    const rackLeaveScore = evaluateRackLeave(remainingRack);
-    const boardControlScore = evaluateBoardControl(board, placedTiles);
-
-    // Make heuristics VERY subtle - only a tiebreaker between similar moves
-    // A 20-point move should almost never lose to a 15-point move due to heuristics
-    const adjustedScore = baseScore +
-        (rackLeaveScore * 0.3) +   // Penalties only, so this reduces bad moves
-        (boardControlScore * 0.1); // Avoid creating opportunities
-
-    return adjustedScore;
+    return baseScore + evaluateRackLeave(remainingRack, leaves);
 }
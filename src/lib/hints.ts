@@ -0,0 +1,53 @@
+/**
+ * Hints
+ * The best plays a player's rack allows, for the hint panel: every legal
+ * play, ranked the way the AI ranks them (score plus the value of the tiles
+ * kept), with the square each starts on.
+ */
+
+import { PlacedTile } from './validation';
+import { findLegalPlays, LegalPlaysRequest } from './ai-move';
+import { loadLeaveTable } from './leave-store';
+import { getRemainingRack, evaluateRackLeave } from './heuristics';
+import { leaveKey } from './leave-values';
+import { describePosition } from './gameUtils';
+
+export interface HintRequest extends LegalPlaysRequest {
+    leaveTable: string;     // Values the tiles each play keeps
+    count: number;          // Plays to return
+}
+
+export interface Hint {
+    word: string;           // Every word formed, main word first
+    score: number;
+    leave: string;          // Tiles kept, sorted, '?' for a blank
+    leaveValue: number;
+    position: string;       // First square of the main word: "8H" across, "H8" down
+    tiles: PlacedTile[];
+}
+
+/**
+ * The best plays for a rack by equity
+ * @param request - Position, rack and the leave table to value leaves with
+ * @param shouldStop - Ends the search early with the plays found so far
+ */
+export function suggestPlays(request: HintRequest, shouldStop: () => boolean): Hint[] {
+    const leaves = loadLeaveTable(request.leaveTable);
+    const { plays } = findLegalPlays(request, shouldStop);
+
+    return plays
+        .map(play => {
+            const kept = getRemainingRack(request.rack, play.tiles);
+            const leaveValue = evaluateRackLeave(kept, leaves);
+            return {
+                word: play.word,
+                score: play.score,
+                leave: leaveKey(kept),
+                leaveValue,
+                position: describePosition(request.board, play.tiles),
+                tiles: play.tiles,
+            };
+        })
+        .sort((a, b) => (b.score + b.leaveValue) - (a.score + a.leaveValue))
+        .slice(0, request.count);
+}
@@ -0,0 +1,61 @@
+/**
+ * Leave tables on disk
+ * Each table is a CSV file in leaves/ (see parseLeaveTable), made with
+ * `npm run build:leaves`. Tables are read once and re-read when the file
+ * changes. A table that cannot be loaded is an error, never a fallback.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LeaveTable, parseLeaveTable } from './leave-values';
+import { NO_LEAVE_TABLE } from './constants';
+
+export const LEAVE_DIR = 'leaves';
+
+// Score-only play: every leave is worth nothing
+const NO_LEAVES: LeaveTable = { name: NO_LEAVE_TABLE, values: new Map() };
+
+const cache = new Map<string, { mtimeMs: number; table: LeaveTable }>();
+
+/**
+ * Path of a table's file
+ */
+export function getLeaveTablePath(name: string): string {
+    return path.join(process.cwd(), LEAVE_DIR, `${name}.csv`);
+}
+
+/**
+ * Names of the tables in leaves/, plus the built-in score-only table
+ */
+export function listLeaveTableNames(): string[] {
+    const dir = path.join(process.cwd(), LEAVE_DIR);
+    const names = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter(file => path.extname(file) === '.csv').map(file => path.parse(file).name).sort()
+        : [];
+    return [...names, NO_LEAVE_TABLE];
+}
+
+/**
+ * Load a leave table by name
+ * @throws Error if the table does not exist or cannot be parsed
+ */
+export function loadLeaveTable(name: string): LeaveTable {
+    if (name === NO_LEAVE_TABLE) return NO_LEAVES;
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`Invalid leave table name "${name}"`);
+    }
+
+    const filePath = getLeaveTablePath(name);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Leave table "${name}" not found: ${path.relative(process.cwd(), filePath)}`);
+    }
+
+    const { mtimeMs } = fs.statSync(filePath);
+    const cached = cache.get(name);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.table;
+
+    const table = parseLeaveTable(name, fs.readFileSync(filePath, 'utf-8'));
+    console.log(`Loaded leave table "${name}" (${table.values.size} leaves)`);
+    cache.set(name, { mtimeMs, table });
+    return table;
+}
@@ -0,0 +1,183 @@
+/**
+ * Rack leave values
+ * A leave table maps the tiles kept after a turn (sorted, blank as '?') to
+ * how many points they are worth over the rest of the game. Tables are
+ * learned from self-play: a leave is worth how much more than average its
+ * owner scored on their next turn when they kept those tiles. Observations
+ * count for every part of the leave kept, so short leaves (a blank, an S,
+ * QU) are learned quickly and longer ones as games accumulate.
+ */
+
+import { Tile } from './types';
+import type { AiTurnStep } from './ai-turn';
+
+export interface LeaveTable {
+    name: string;
+    values: Map<string, number>;
+}
+
+/**
+ * Self-play observations being collected into a table
+ */
+export interface LeaveStats {
+    totals: Map<string, { sum: number; count: number }>;
+    sum: number;        // Over every observation, for the baseline
+    count: number;
+}
+
+// Values of leaves missing from a table, worked out from their sub-leaves
+const estimates = new WeakMap<LeaveTable, Map<string, number>>();
+
+/**
+ * Table key for a leave: its letters sorted, blanks as '?'
+ */
+export function leaveKey(tiles: Tile[]): string {
+    return tiles.map(t => t.isBlank ? '?' : t.letter).sort().join('');
+}
+
+/**
+ * Value of a leave
+ * Leaves the table has never seen get the average value of the leaves one
+ * tile shorter, so a table learned from a few games still ranks every rack.
+ * Keeping nothing is worth 0
+ */
+export function getLeaveValue(table: LeaveTable, tiles: Tile[]): number {
+    return lookup(table, leaveKey(tiles));
+}
+
+function lookup(table: LeaveTable, key: string): number {
+    if (key.length === 0) return 0;
+
+    const known = table.values.get(key);
+    if (known !== undefined) return known;
+
+    let cache = estimates.get(table);
+    if (!cache) {
+        cache = new Map();
+        estimates.set(table, cache);
+    }
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let value = 0;
+    if (key.length > 1) {
+        const shorter = new Set<string>();
+        for (let i = 0; i < key.length; i++) {
+            shorter.add(key.slice(0, i) + key.slice(i + 1));
+        }
+        for (const sub of shorter) value += lookup(table, sub);
+        value /= shorter.size;
+    }
+    cache.set(key, value);
+    return value;
+}
+
+/**
+ * Read a table from its CSV form (`leave,value[,samples]` per line;
+ * '#' comments and a header line are skipped)
+ * @throws Error naming the first line that is not a leave and a value
+ */
+export function parseLeaveTable(name: string, text: string): LeaveTable {
+    const values = new Map<string, number>();
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.length === 0 || line.startsWith('#') || line.startsWith('leave,')) continue;
+
+        const [leave, value] = line.split(',');
+        const number = Number(value);
+        if (!/^[A-Z?]{1,6}$/i.test(leave) || value === undefined || !Number.isFinite(number)) {
+            throw new Error(`Leave table "${name}" line ${i + 1} is not a leave and a value: "${line}"`);
+        }
+        values.set(leave.toUpperCase().split('').sort().join(''), number);
+    }
+    return { name, values };
+}
+
+/**
+ * CSV form of a table, best leaves first
+ * @param comment - Optional first line, e.g. how the table was made
+ */
+export function serializeLeaveTable(table: LeaveTable, samples?: Map<string, number>, comment?: string): string {
+    const rows = Array.from(table.values.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([leave, value]) => samples ? `${leave},${value.toFixed(2)},${samples.get(leave) ?? 0}` : `${leave},${value.toFixed(2)}`);
+    const header = samples ? 'leave,value,samples' : 'leave,value';
+    return [...(comment ? [`# ${comment}`] : []), header, ...rows].join('\n') + '\n';
+}
+
+export function createLeaveStats(): LeaveStats {
+    return { totals: new Map(), sum: 0, count: 0 };
+}
+
+/**
+ * Record the leaves kept in one self-play game
+ * A leave counts when its owner drew after keeping it and took another turn
+ * with tiles still in the bag; that turn's score is the observation, for the
+ * leave and each part of it
+ * @param steps - Every action of the game in order, as played by playAiTurn
+ */
+export function recordLeaves(stats: LeaveStats, steps: AiTurnStep[]): void {
+    const waiting = new Map<string, string>(); // Player id -> leave awaiting its next turn
+
+    for (const { before, action, after } of steps) {
+        if (action.type === 'CHALLENGE' || action.type === 'ACCEPT') continue;
+
+        const player = before.players.find(p => p.id === action.playerId);
+        const afterPlayer = after.players.find(p => p.id === action.playerId);
+        if (!player || !afterPlayer) continue;
+
+        const leave = waiting.get(player.id);
+        waiting.delete(player.id);
+        if (leave !== undefined && before.bag.length > 0) {
+            const score = afterPlayer.score - player.score;
+            for (const part of subLeaves(leave)) {
+                const total = stats.totals.get(part) || { sum: 0, count: 0 };
+                total.sum += score;
+                total.count++;
+                stats.totals.set(part, total);
+            }
+            stats.sum += score;
+            stats.count++;
+        }
+
+        // Only turns that draw from a bag that still has tiles afterwards leave something to learn from
+        if (before.bag.length === 0 || after.bag.length === 0) continue;
+        if (action.type !== 'PLACE' && action.type !== 'EXCHANGE') continue;
+        const used = new Set(action.type === 'PLACE' ? action.tiles.map(t => t.tile.id) : action.tiles.map(t => t.id));
+        const kept = player.rack.filter(t => !used.has(t.id));
+        if (kept.length > 0) waiting.set(player.id, leaveKey(kept));
+    }
+}
+
+/**
+ * Every distinct non-empty set of tiles within a leave, as keys
+ */
+function subLeaves(key: string): Set<string> {
+    const parts = new Set<string>();
+    for (let mask = 1; mask < 1 << key.length; mask++) {
+        let part = '';
+        for (let i = 0; i < key.length; i++) {
+            if (mask & (1 << i)) part += key[i];
+        }
+        parts.add(part);
+    }
+    return parts;
+}
+
+/**
+ * Turn collected observations into a table
+ * @param minSamples - Leaves seen fewer times are left to the sub-leaf estimate
+ * @returns The table and how many observations each value rests on
+ */
+export function buildLeaveTable(name: string, stats: LeaveStats, minSamples: number): { table: LeaveTable; samples: Map<string, number> } {
+    const baseline = stats.count > 0 ? stats.sum / stats.count : 0;
+    const values = new Map<string, number>();
+    const samples = new Map<string, number>();
+    for (const [leave, total] of stats.totals) {
+        if (total.count < minSamples) continue;
+        values.set(leave, Math.round((total.sum / total.count - baseline) * 100) / 100);
+        samples.set(leave, total.count);
+    }
+    return { table: { name, values }, samples };
+}
@@ -0,0 +1,249 @@
+/**
+ * Lexicon registry
+ * Built-in word lists plus custom lexicons defined by JSON manifests in
+ * lexicons/. A lexicon that cannot be loaded is an error, never a fallback.
+ *
+ * Manifest format (lexicons/<id>.json):
+ *   {
+ *     "name": "House Rules",
+ *     "description": "CSW plus family words",
+ *     "base": "CSW",                      // start from another lexicon, or
+ *     "wordList": "family.txt",           // a complete word list
+ *     "add": ["ZOOMER"] | "extra.txt",    // words or a word-list file
+ *     "remove": ["QI"] | "banned.txt"
+ *   }
+ * File paths are relative to lexicons/. Every entry must be letters A-Z;
+ * anything else is an error naming the file and line.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PackedDAWG } from './dawg';
+import { LexiconSource, loadLexiconBinary, readWordList, toLexiconWord, wordListSource } from './dawg-store';
+import { LexiconInfo, MoveGeneratorType } from './types';
+
+export const LEXICON_DIR = 'lexicons';
+
+interface LexiconManifest {
+    name?: string;
+    description?: string;
+    base?: string;
+    wordList?: string;
+    add?: string[] | string;
+    remove?: string[] | string;
+}
+
+interface LexiconDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    custom: boolean;
+    // Resolves the word source, or throws with a message naming what is missing
+    resolve: () => LexiconSource;
+}
+
+const BUILT_IN_LEXICONS: Array<{ id: string; name: string; description: string; file: string }> = [
+    {
+        id: 'CSW',
+        name: 'Collins (CSW / SOWPODS)',
+        description: 'International English word list',
+        file: 'sowpods.txt',
+    },
+    {
+        id: 'TWL',
+        name: 'TWL / NWL (North America)',
+        description: `North American tournament word list, read from ${LEXICON_DIR}/twl.txt`,
+        file: path.join(LEXICON_DIR, 'twl.txt'),
+    },
+];
+
+const rootDir = () => process.cwd();
+
+function requireFile(lexiconId: string, filePath: string): string {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Lexicon "${lexiconId}" is not installed: ${path.relative(rootDir(), filePath)} not found`);
+    }
+    return filePath;
+}
+
+/**
+ * Words listed inline in a manifest, or read from a word-list file next to it
+ * @throws Error naming the manifest field of an inline entry that is not all letters A-Z
+ */
+function manifestWords(
+    lexiconId: string,
+    manifestPath: string,
+    field: 'add' | 'remove',
+    value: string[] | string | undefined
+): { files: string[]; read: () => string[] } {
+    if (value === undefined) return { files: [], read: () => [] };
+    if (Array.isArray(value)) {
+        const where = `${path.relative(rootDir(), manifestPath)} "${field}"`;
+        const words = value.map((word, i) => toLexiconWord(String(word).trim(), `${where}[${i}]`));
+        return { files: [], read: () => words };
+    }
+
+    const filePath = requireFile(lexiconId, path.join(rootDir(), LEXICON_DIR, value));
+    return { files: [filePath], read: () => readWordList(filePath) };
+}
+
+// Lexicons currently being resolved, to catch manifests whose bases form a cycle
+const resolving = new Set<string>();
+
+function customDefinition(manifestPath: string, definitions: () => Map<string, LexiconDefinition>): LexiconDefinition {
+    const id = path.parse(manifestPath).name;
+    let manifest: LexiconManifest = {};
+    let parseError: string | null = null;
+
+    try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (error) {
+        parseError = `Lexicon "${id}" has an unreadable manifest: ${(error as Error).message}`;
+    }
+
+    return {
+        id,
+        name: manifest.name || id,
+        description: manifest.description,
+        custom: true,
+        resolve: () => {
+            if (parseError) throw new Error(parseError);
+            if (!manifest.base && !manifest.wordList) {
+                throw new Error(`Lexicon "${id}" needs a "base" lexicon or a "wordList" file`);
+            }
+
+            let baseSource: LexiconSource | null = null;
+            if (manifest.base) {
+                const base = definitions().get(manifest.base);
+                if (!base) throw new Error(`Lexicon "${id}" is based on unknown lexicon "${manifest.base}"`);
+                if (resolving.has(id)) throw new Error(`Lexicon "${id}" has a circular "base"`);
+
+                resolving.add(id);
+                try {
+                    baseSource = base.resolve();
+                } finally {
+                    resolving.delete(id);
+                }
+            }
+
+            const listFile = manifest.wordList
+                ? requireFile(id, path.join(rootDir(), LEXICON_DIR, manifest.wordList))
+                : null;
+            const additions = manifestWords(id, manifestPath, 'add', manifest.add);
+            const removals = manifestWords(id, manifestPath, 'remove', manifest.remove);
+
+            return {
+                binaryBase: path.join(rootDir(), LEXICON_DIR, id),
+                inputs: [
+                    manifestPath,
+                    ...(baseSource ? baseSource.inputs : []),
+                    ...(listFile ? [listFile] : []),
+                    ...additions.files,
+                    ...removals.files,
+                ],
+                readWords: () => {
+                    const words = new Set(listFile ? readWordList(listFile) : baseSource!.readWords());
+                    additions.read().forEach(word => words.add(word));
+                    removals.read().forEach(word => words.delete(word));
+                    return Array.from(words);
+                },
+            };
+        },
+    };
+}
+
+// Registered lexicons, kept until the list is requested again or lexicons/ changes
+let registry: { dirMtime: number | null; definitions: Map<string, LexiconDefinition> } | null = null;
+
+function lexiconDirMtime(): number | null {
+    const lexiconDir = path.join(rootDir(), LEXICON_DIR);
+    return fs.existsSync(lexiconDir) ? fs.statSync(lexiconDir).mtimeMs : null;
+}
+
+/**
+ * All registered lexicons by id, built-ins first
+ * @param refresh - Re-read the manifests even if lexicons/ looks unchanged
+ */
+function getDefinitions(refresh: boolean = false): Map<string, LexiconDefinition> {
+    const dirMtime = lexiconDirMtime();
+    if (!refresh && registry && registry.dirMtime === dirMtime) {
+        return registry.definitions;
+    }
+
+    const definitions = new Map<string, LexiconDefinition>();
+
+    for (const lexicon of BUILT_IN_LEXICONS) {
+        definitions.set(lexicon.id, {
+            id: lexicon.id,
+            name: lexicon.name,
+            description: lexicon.description,
+            custom: false,
+            resolve: () => wordListSource(requireFile(lexicon.id, path.join(rootDir(), lexicon.file))),
+        });
+    }
+
+    const lexiconDir = path.join(rootDir(), LEXICON_DIR);
+    if (fs.existsSync(lexiconDir)) {
+        for (const file of fs.readdirSync(lexiconDir).sort()) {
+            if (path.extname(file) !== '.json') continue;
+            const definition = customDefinition(path.join(lexiconDir, file), () => definitions);
+            if (!definitions.has(definition.id)) {
+                definitions.set(definition.id, definition);
+            }
+        }
+    }
+
+    registry = { dirMtime, definitions };
+    return definitions;
+}
+
+/**
+ * Describe every registered lexicon, including why unavailable ones cannot be used
+ */
+export function listLexiconInfo(): LexiconInfo[] {
+    return Array.from(getDefinitions(true).values()).map(definition => {
+        let error: string | undefined;
+        try {
+            definition.resolve();
+        } catch (e) {
+            error = (e as Error).message;
+        }
+
+        return {
+            id: definition.id,
+            name: definition.name,
+            description: definition.description,
+            custom: definition.custom,
+            available: !error,
+            error,
+        };
+    });
+}
+
+/**
+ * Load a lexicon as a DAWG or GADDAG
+ * @throws Error if the lexicon is unknown or its word lists are missing
+ */
+export function getLexicon(lexiconId: string, structure: MoveGeneratorType = 'DAWG'): PackedDAWG {
+    const definition = getDefinitions().get(lexiconId);
+    if (!definition) {
+        throw new Error(`Unknown lexicon "${lexiconId}"`);
+    }
+
+    return loadLexiconBinary(definition.resolve(), structure);
+}
+
+/**
+ * Sources of every lexicon that can currently be loaded (for the build script)
+ */
+export function getAvailableLexiconSources(): Array<{ id: string; source: LexiconSource }> {
+    const sources: Array<{ id: string; source: LexiconSource }> = [];
+    for (const definition of getDefinitions().values()) {
+        try {
+            sources.push({ id: definition.id, source: definition.resolve() });
+        } catch (error) {
+            console.warn((error as Error).message);
+        }
+    }
+    return sources;
+}
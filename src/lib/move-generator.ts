@@ -0,0 +1,411 @@
+/**
+ * Appel–Jacobson move generation for Scrabble AI
+ * Grows plays from anchor squares by walking the DAWG, consuming existing
+ * board tiles in-line and pruning perpendicular words with cross-sets
+ */
+
+import { BoardState, Tile } from './types';
+import { PlacedTile } from './validation';
+import { PackedDAWG, DAWGNodeIndex, DAWG_ROOT, GADDAG_SEPARATOR, getChild, getNodeAtPrefix, isEndOfWord, forEachChild } from './dawg';
+import { CrossSet, getCrossSetAt } from './cross-sets';
+import { getTileLetter } from './gameUtils';
+
+export interface GeneratedMove {
+    word: string;          // Main word formed along the play direction
+    tiles: PlacedTile[];   // Newly placed tiles only
+    isHorizontal: boolean;
+}
+
+export interface MoveGenerationOptions {
+    // Mega Board star rule: the play may not touch any existing tile
+    independent?: boolean;
+    // Checked before each anchor; once it returns true, generation ends with the plays found so far
+    shouldStop?: () => boolean;
+}
+
+/**
+ * Find all anchor positions on the board
+ * Anchors are empty squares next to a tile, or START squares on an empty board
+ */
+export function findAnchors(
+    board: BoardState,
+    mustStartOnStar?: boolean,
+    currentPlayer?: { movesMade?: number }
+): Array<{ x: number; y: number }> {
+    const anchors: Array<{ x: number; y: number }> = [];
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+    let isEmptyBoard = true;
+
+    // Check if board has any tiles
+    for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+            if (board[y][x].tile) {
+                isEmptyBoard = false;
+                break;
+            }
+        }
+        if (!isEmptyBoard) break;
+    }
+
+    // Special case: mustStartOnStar rule and player hasn't made first move
+    // Return ONLY unoccupied star tiles, ignore all other anchors
+    if (mustStartOnStar && currentPlayer && (currentPlayer.movesMade === 0 || currentPlayer.movesMade === undefined)) {
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < cols; x++) {
+                if (board[y][x].bonus === 'START' && !board[y][x].tile) {
+                    anchors.push({ x, y });
+                }
+            }
+        }
+        return anchors;
+    }
+
+    // Normal anchor finding logic
+    if (!isEmptyBoard) {
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < cols; x++) {
+                if (board[y][x].tile) {
+                    // Check neighbors for empty squares
+                    const neighbors = [
+                        { x: x + 1, y }, { x: x - 1, y },
+                        { x, y: y + 1 }, { x, y: y - 1 }
+                    ];
+                    for (const n of neighbors) {
+                        if (n.x >= 0 && n.x < cols && n.y >= 0 && n.y < rows && !board[n.y][n.x].tile) {
+                            anchors.push(n);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    // If empty board, find all START squares
+    if (isEmptyBoard) {
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < cols; x++) {
+                if (board[y][x].bonus === 'START') {
+                    anchors.push({ x, y });
+                }
+            }
+        }
+        // Fallback to center if no START squares
+        if (anchors.length === 0) {
+            anchors.push({ x: Math.floor(cols / 2), y: Math.floor(rows / 2) });
+        }
+    }
+
+    // Deduplicate
+    const uniqueAnchors = Array.from(new Set(anchors.map(a => `${a.x},${a.y}`)))
+        .map(s => {
+            const [x, y] = s.split(',').map(Number);
+            return { x, y };
+        });
+
+    return uniqueAnchors;
+}
+
+// Rack tiles keyed by letter, blanks under '_'
+type RackPool = Map<string, Tile[]>;
+
+function createRackPool(rack: Tile[]): RackPool {
+    const pool: RackPool = new Map();
+    for (const tile of rack) {
+        const key = tile.isBlank ? '_' : tile.letter;
+        if (!pool.has(key)) pool.set(key, []);
+        pool.get(key)!.push(tile);
+    }
+    return pool;
+}
+
+/**
+ * Take a rack tile for a letter and hand it to `place`, then put it back
+ * A real tile and a blank are distinct plays, so both are tried; the blank
+ * is designated through letterOverride, the same as a human-placed blank
+ */
+function withRackTile(pool: RackPool, letter: string, place: (tile: Tile) => void): void {
+    const tiles = pool.get(letter);
+    if (tiles && tiles.length > 0) {
+        const tile = tiles.pop()!;
+        place(tile);
+        tiles.push(tile);
+    }
+
+    const blanks = pool.get('_');
+    if (blanks && blanks.length > 0) {
+        const blank = blanks.pop()!;
+        place({ ...blank, letterOverride: letter });
+        blanks.push(blank);
+    }
+}
+
+/**
+ * Squares a new tile cannot go on: occupied ones, and in independent mode
+ * any square touching an existing tile
+ */
+function createBlockedCheck(board: BoardState, independent?: boolean): (x: number, y: number) => boolean {
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+
+    return (x, y) => {
+        if (board[y][x].tile) return true;
+        if (!independent) return false;
+        return (x > 0 && !!board[y][x - 1].tile) ||
+            (x < cols - 1 && !!board[y][x + 1].tile) ||
+            (y > 0 && !!board[y - 1][x].tile) ||
+            (y < rows - 1 && !!board[y + 1][x].tile);
+    };
+}
+
+/**
+ * Collects plays, dropping single-tile plays already found in the other direction
+ */
+function createMoveRecorder(moves: GeneratedMove[]): (word: string, tiles: PlacedTile[], isHorizontal: boolean) => void {
+    const singleTileKeys = new Set<string>();
+
+    return (word, tiles, isHorizontal) => {
+        if (word.length < 2 || tiles.length === 0) return;
+
+        if (tiles.length === 1) {
+            const { x, y, tile } = tiles[0];
+            const key = `${x},${y},${getTileLetter(tile)},${tile.isBlank ? 1 : 0}`;
+            if (singleTileKeys.has(key)) return;
+            singleTileKeys.add(key);
+        }
+
+        moves.push({ word, tiles, isHorizontal });
+    };
+}
+
+/**
+ * Generate every legal play for a rack exactly once
+ * @param board - Current board state
+ * @param rack - Tiles available to the player
+ * @param dawg - Packed DAWG
+ * @param crossSets - Output of calculateCrossSets for this board
+ * @param anchors - Anchor squares (see findAnchors)
+ * @param options - Placement restrictions and early stopping
+ * @returns Array of plays with their main word and placed tiles
+ */
+export function generateMoves(
+    board: BoardState,
+    rack: Tile[],
+    dawg: PackedDAWG,
+    crossSets: Map<string, CrossSet>,
+    anchors: Array<{ x: number; y: number }>,
+    options: MoveGenerationOptions = {}
+): GeneratedMove[] {
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+    const moves: GeneratedMove[] = [];
+    const record = createMoveRecorder(moves);
+    const pool = createRackPool(rack);
+    const anchorKeys = new Set(anchors.map(a => `${a.x},${a.y}`));
+    const isBlocked = createBlockedCheck(board, options.independent);
+
+    for (const isHorizontal of [true, false]) {
+        const size = isHorizontal ? cols : rows;
+
+        for (const anchor of anchors) {
+            if (options.shouldStop?.()) return moves;
+
+            const line = isHorizontal ? anchor.y : anchor.x;
+            const anchorIndex = isHorizontal ? anchor.x : anchor.y;
+            const xAt = (i: number) => isHorizontal ? i : line;
+            const yAt = (i: number) => isHorizontal ? line : i;
+            const tileAt = (i: number) => board[yAt(i)][xAt(i)].tile;
+
+            if (isBlocked(anchor.x, anchor.y)) continue;
+
+            // Tiles placed left of the anchor (positions fixed once extended right)
+            const leftTiles: Tile[] = [];
+            // Tiles placed at or right of the anchor
+            const rightTiles: Array<{ index: number; tile: Tile }> = [];
+
+            const recordPlay = (word: string) => {
+                const tiles: PlacedTile[] = [];
+                leftTiles.forEach((tile, i) => {
+                    const index = anchorIndex - leftTiles.length + i;
+                    tiles.push({ x: xAt(index), y: yAt(index), tile });
+                });
+                for (const { index, tile } of rightTiles) {
+                    tiles.push({ x: xAt(index), y: yAt(index), tile });
+                }
+                record(word, tiles, isHorizontal);
+            };
+
+            const extendRight = (word: string, node: DAWGNodeIndex, index: number) => {
+                if (index >= size) {
+                    if (index > anchorIndex && isEndOfWord(dawg, node)) recordPlay(word);
+                    return;
+                }
+
+                const boardTile = tileAt(index);
+                if (boardTile) {
+                    const letter = getTileLetter(boardTile);
+                    const child = getChild(dawg, node, letter);
+                    if (child !== null) extendRight(word + letter, child, index + 1);
+                    return;
+                }
+
+                if (index > anchorIndex && isEndOfWord(dawg, node)) recordPlay(word);
+                if (isBlocked(xAt(index), yAt(index))) return;
+
+                const allowed = getCrossSetAt(crossSets, xAt(index), yAt(index), isHorizontal);
+                forEachChild(dawg, node, (letter, child) => {
+                    if (!allowed.has(letter)) return;
+                    withRackTile(pool, letter, tile => {
+                        rightTiles.push({ index, tile });
+                        extendRight(word + letter, child, index + 1);
+                        rightTiles.pop();
+                    });
+                });
+            };
+
+            const leftPart = (word: string, node: DAWGNodeIndex, limit: number) => {
+                extendRight(word, node, anchorIndex);
+                if (limit <= 0) return;
+
+                forEachChild(dawg, node, (letter, child) => {
+                    withRackTile(pool, letter, tile => {
+                        leftTiles.push(tile);
+                        leftPart(word + letter, child, limit - 1);
+                        leftTiles.pop();
+                    });
+                });
+            };
+
+            if (anchorIndex > 0 && tileAt(anchorIndex - 1)) {
+                // Left part is fixed by the tiles already on the board
+                let prefix = '';
+                let i = anchorIndex - 1;
+                while (i >= 0 && tileAt(i)) {
+                    prefix = getTileLetter(tileAt(i)!) + prefix;
+                    i--;
+                }
+
+                const node = getNodeAtPrefix(dawg, prefix);
+                if (node !== null) extendRight(prefix, node, anchorIndex);
+            } else {
+                // Left part comes from the rack, over empty non-anchor squares only
+                let limit = 0;
+                for (let i = anchorIndex - 1; i >= 0; i--) {
+                    if (anchorKeys.has(`${xAt(i)},${yAt(i)}`) || isBlocked(xAt(i), yAt(i))) break;
+                    limit++;
+                }
+                leftPart('', DAWG_ROOT, Math.min(limit, rack.length - 1));
+            }
+        }
+    }
+
+    return moves;
+}
+
+/**
+ * GADDAG variant of generateMoves: grows each play leftwards from the anchor
+ * through the reversed prefix, then crosses the separator and extends right
+ * @param board - Current board state
+ * @param rack - Tiles available to the player
+ * @param gaddag - Packed GADDAG (see buildGADDAG)
+ * @param crossSets - Output of calculateCrossSets for this board
+ * @param anchors - Anchor squares (see findAnchors)
+ * @param options - Placement restrictions and early stopping
+ * @returns Array of plays with their main word and placed tiles
+ */
+export function generateMovesGADDAG(
+    board: BoardState,
+    rack: Tile[],
+    gaddag: PackedDAWG,
+    crossSets: Map<string, CrossSet>,
+    anchors: Array<{ x: number; y: number }>,
+    options: MoveGenerationOptions = {}
+): GeneratedMove[] {
+    const rows = board.length;
+    const cols = board[0]?.length || 0;
+    const moves: GeneratedMove[] = [];
+    const record = createMoveRecorder(moves);
+    const pool = createRackPool(rack);
+    const anchorKeys = new Set(anchors.map(a => `${a.x},${a.y}`));
+    const isBlocked = createBlockedCheck(board, options.independent);
+
+    for (const isHorizontal of [true, false]) {
+        const size = isHorizontal ? cols : rows;
+
+        for (const anchor of anchors) {
+            if (options.shouldStop?.()) return moves;
+
+            const line = isHorizontal ? anchor.y : anchor.x;
+            const anchorIndex = isHorizontal ? anchor.x : anchor.y;
+            const xAt = (i: number) => isHorizontal ? i : line;
+            const yAt = (i: number) => isHorizontal ? line : i;
+            const tileAt = (i: number) => board[yAt(i)][xAt(i)].tile;
+
+            if (isBlocked(anchor.x, anchor.y)) continue;
+
+            const placed: Array<{ index: number; tile: Tile }> = [];
+            const rightOfAnchorFree = anchorIndex === size - 1 || !tileAt(anchorIndex + 1);
+
+            const recordPlay = (word: string) => {
+                const tiles = [...placed]
+                    .sort((a, b) => a.index - b.index)
+                    .map(({ index, tile }) => ({ x: xAt(index), y: yAt(index), tile }));
+                record(word, tiles, isHorizontal);
+            };
+
+            // Fill `index` and continue with `next` for each letter the node allows there
+            const fill = (node: DAWGNodeIndex, index: number, next: (letter: string, child: DAWGNodeIndex) => void) => {
+                const boardTile = tileAt(index);
+                if (boardTile) {
+                    const letter = getTileLetter(boardTile);
+                    const child = getChild(gaddag, node, letter);
+                    if (child !== null) next(letter, child);
+                    return;
+                }
+
+                if (isBlocked(xAt(index), yAt(index))) return;
+
+                const allowed = getCrossSetAt(crossSets, xAt(index), yAt(index), isHorizontal);
+                forEachChild(gaddag, node, (letter, child) => {
+                    if (letter === GADDAG_SEPARATOR || !allowed.has(letter)) return;
+                    withRackTile(pool, letter, tile => {
+                        placed.push({ index, tile });
+                        next(letter, child);
+                        placed.pop();
+                    });
+                });
+            };
+
+            const extendRight = (word: string, node: DAWGNodeIndex, index: number) => {
+                fill(node, index, (letter, child) => {
+                    const nextWord = word + letter;
+                    const rightFree = index === size - 1 || !tileAt(index + 1);
+                    if (isEndOfWord(gaddag, child) && rightFree) recordPlay(nextWord);
+                    if (index < size - 1) extendRight(nextWord, child, index + 1);
+                });
+            };
+
+            const extendLeft = (word: string, node: DAWGNodeIndex, index: number) => {
+                // The left part may not cover another anchor: that anchor generates the play
+                if (index !== anchorIndex && !tileAt(index) && anchorKeys.has(`${xAt(index)},${yAt(index)}`)) return;
+
+                fill(node, index, (letter, child) => {
+                    const nextWord = letter + word;
+                    const leftFree = index === 0 || !tileAt(index - 1);
+
+                    if (isEndOfWord(gaddag, child) && leftFree && rightOfAnchorFree) recordPlay(nextWord);
+                    if (index > 0) extendLeft(nextWord, child, index - 1);
+
+                    const separator = getChild(gaddag, child, GADDAG_SEPARATOR);
+                    if (separator !== null && leftFree && anchorIndex < size - 1) {
+                        extendRight(nextWord, separator, anchorIndex + 1);
+                    }
+                });
+            };
+
+            extendLeft('', DAWG_ROOT, anchorIndex);
+        }
+    }
+
+    return moves;
+}
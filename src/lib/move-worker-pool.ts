@@ -0,0 +1,172 @@
+/**
+ * Move worker pool
+ * AI searches run on worker threads so a long search never holds up the
+ * server: up to MOVE_WORKERS_MAX workers, each running one job at a time,
+ * with further jobs queued in order.
+ *
+ * Every job has a time limit, counted from when a worker takes it, after
+ * which the search answers with the best it has found so far. Jobs can also
+ * be cancelled by group (one game's searches); running ones then answer
+ * early the same way and queued ones are dropped. A worker still busy well
+ * past its job's deadline is stopped and replaced.
+ */
+
+import { Worker } from 'worker_threads';
+import os from 'os';
+import { fileURLToPath } from 'url';
+import type { WorkerTasks, WorkerTaskKind, WorkerJobMessage, WorkerReplyMessage } from './move-worker';
+import { MOVE_WORKERS_MAX, AI_MOVE_GRACE_MS } from './constants';
+
+type TaskInput<K extends WorkerTaskKind> = Parameters<WorkerTasks[K]>[0];
+type TaskOutput<K extends WorkerTaskKind> = ReturnType<WorkerTasks[K]>;
+
+interface Job {
+    id: number;
+    kind: WorkerTaskKind;
+    input: unknown;
+    timeLimitMs: number;
+    group?: string;
+    cancel: Int32Array;
+    resolve: (output: unknown) => void;
+    reject: (error: Error) => void;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job: Job | null;
+    failure?: Error;    // Why the worker is going away
+}
+
+const workers: PoolWorker[] = [];
+const queue: Job[] = [];
+let nextJobId = 1;
+let workerLogging = true;
+
+const poolSize = () => Math.max(1, Math.min(MOVE_WORKERS_MAX, os.availableParallelism() - 1));
+
+/**
+ * Start a worker thread
+ * Scripts run TypeScript through tsx, whose loader worker threads do not
+ * inherit, so there the worker registers it first; the server runs the
+ * worker its bundler builds from the same file
+ */
+function spawnWorker(): PoolWorker {
+    const workerData = { quiet: !workerLogging };
+    const worker = process.execArgv.some(arg => arg.includes('tsx'))
+        ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(fileURLToPath(new URL('./move-worker.ts', import.meta.url)))});`, { eval: true, workerData })
+        : new Worker(new URL('./move-worker.ts', import.meta.url), { workerData });
+    const entry: PoolWorker = { worker, job: null };
+
+    worker.on('message', (reply: WorkerReplyMessage) => {
+        const job = entry.job;
+        if (!job || job.id !== reply.id) return;
+        finishJob(entry);
+        if ('error' in reply) job.reject(new Error(reply.error));
+        else job.resolve(reply.output);
+        dispatch();
+    });
+    worker.on('error', error => {
+        entry.failure = error;
+    });
+    worker.on('exit', () => {
+        workers.splice(workers.indexOf(entry), 1);
+        const job = entry.job;
+        if (job) {
+            finishJob(entry);
+            job.reject(entry.failure || new Error('Move worker stopped unexpectedly'));
+        }
+        dispatch();
+    });
+
+    // An idle worker does not keep the process alive
+    worker.unref();
+    return entry;
+}
+
+function finishJob(entry: PoolWorker): void {
+    if (entry.job?.timer) clearTimeout(entry.job.timer);
+    entry.job = null;
+    entry.worker.unref();
+}
+
+/**
+ * Hand queued jobs to idle workers, starting workers up to the pool size
+ */
+function dispatch(): void {
+    while (queue.length > 0) {
+        let entry = workers.find(w => !w.job && !w.failure);
+        if (!entry && workers.length < poolSize()) {
+            entry = spawnWorker();
+            workers.push(entry);
+        }
+        if (!entry) return;
+
+        const job = queue.shift()!;
+        const deadline = Date.now() + job.timeLimitMs;
+        entry.job = job;
+        entry.worker.ref();
+        entry.worker.postMessage({ id: job.id, kind: job.kind, input: job.input, deadline, cancel: job.cancel.buffer as SharedArrayBuffer } satisfies WorkerJobMessage);
+
+        // A search that ignores its deadline is stopped by force
+        const running = entry;
+        job.timer = setTimeout(() => {
+            running.failure = new Error(`AI search (${job.kind}) did not stop within ${AI_MOVE_GRACE_MS}ms of its deadline`);
+            running.worker.terminate();
+        }, job.timeLimitMs + AI_MOVE_GRACE_MS);
+    }
+}
+
+/**
+ * Keep or silence the searches' logging, which workers write to a console of
+ * their own; it applies to workers started from then on, so call it before
+ * the first search
+ */
+export function setWorkerLogging(enabled: boolean): void {
+    workerLogging = enabled;
+}
+
+/**
+ * Run a search on a worker thread
+ * @param timeLimitMs - Time the search gets once a worker takes it
+ * @param group - Lets cancelWorkerJobs stop this search with others of its group
+ * @throws Error if the search fails, is cancelled before it starts, or overruns
+ */
+export function runInWorker<K extends WorkerTaskKind>(kind: K, input: TaskInput<K>, timeLimitMs: number, group?: string): Promise<TaskOutput<K>> {
+    return new Promise((resolve, reject) => {
+        queue.push({
+            id: nextJobId++,
+            kind,
+            input,
+            timeLimitMs,
+            group,
+            cancel: new Int32Array(new SharedArrayBuffer(4)),
+            resolve: output => resolve(output as TaskOutput<K>),
+            reject,
+        });
+        dispatch();
+    });
+}
+
+/**
+ * Cancel a group's searches: running ones answer now with the best found so
+ * far, queued ones fail
+ * @returns How many searches were cancelled
+ */
+export function cancelWorkerJobs(group: string): number {
+    let cancelled = 0;
+    for (const { job } of workers) {
+        if (job && job.group === group) {
+            Atomics.store(job.cancel, 0, 1);
+            cancelled++;
+        }
+    }
+    for (let i = queue.length - 1; i >= 0; i--) {
+        if (queue[i].group === group) {
+            const [job] = queue.splice(i, 1);
+            job.reject(new Error('AI search cancelled'));
+            cancelled++;
+        }
+    }
+    return cancelled;
+}
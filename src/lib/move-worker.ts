@@ -0,0 +1,94 @@
+/**
+ * Move worker
+ * Runs AI searches for the move worker pool (see move-worker-pool.ts) on its
+ * own thread, one job at a time. Each job comes with a deadline and a shared
+ * cancel flag, which the searches poll between steps.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { BoardState, Move, Tile } from './types';
+import { getLexicon } from './lexicon-registry';
+import { loadLeaveTable } from './leave-store';
+import { chooseAiMove, findLegalPlays, AiMoveRequest, LegalPlaysRequest } from './ai-move';
+import { solveEndgame } from './endgame';
+import { inferRack } from './rack-inference';
+import { suggestPlays, HintRequest } from './hints';
+import { analyzeGame, AnalysisRequest } from './analysis';
+import { createRandom } from './random';
+import { INFERENCE_SAMPLES, INFERENCE_TIME_BUDGET_MS } from './constants';
+
+export interface EndgameRequest {
+    board: BoardState;
+    rack: Tile[];
+    opponentRack: Tile[];
+    lexicon: string;
+    timeBudgetMs: number;
+}
+
+export interface InferenceRequest {
+    board: BoardState;
+    moveHistory: Move[];
+    playerId: string;
+    unseen: Tile[];
+    rackSize: number;
+    lexicon: string;
+    leaveTable: string;
+    seed?: number;
+}
+
+/**
+ * What a worker can run, by job kind
+ * The endgame solver and rack inference keep to their own time budgets as
+ * well as the job's deadline, and all of them stop early when cancelled
+ */
+export const WORKER_TASKS = {
+    MOVE: (request: AiMoveRequest, shouldStop: () => boolean) => chooseAiMove(request, shouldStop),
+    LEGAL_PLAYS: (request: LegalPlaysRequest, shouldStop: () => boolean) => {
+        const { plays, complete } = findLegalPlays(request, shouldStop);
+        return { count: plays.length, complete };
+    },
+    HINTS: (request: HintRequest, shouldStop: () => boolean) => suggestPlays(request, shouldStop),
+    ANALYSIS: (request: AnalysisRequest, shouldStop: () => boolean) => analyzeGame(request, shouldStop),
+    ENDGAME: (request: EndgameRequest, shouldStop: () => boolean) => (
+        solveEndgame(request.board, request.rack, request.opponentRack, getLexicon(request.lexicon, 'DAWG'), request.timeBudgetMs, shouldStop)
+    ),
+    INFERENCE: (request: InferenceRequest, shouldStop: () => boolean) => (
+        inferRack(request.board, request.moveHistory, request.playerId, request.unseen, request.rackSize,
+            getLexicon(request.lexicon, 'DAWG'), loadLeaveTable(request.leaveTable), {
+                samples: INFERENCE_SAMPLES,
+                timeBudgetMs: INFERENCE_TIME_BUDGET_MS,
+                random: request.seed === undefined ? Math.random : createRandom(request.seed).next,
+                shouldStop,
+            })
+    ),
+};
+
+export type WorkerTasks = typeof WORKER_TASKS;
+export type WorkerTaskKind = keyof WorkerTasks;
+
+export interface WorkerJobMessage {
+    id: number;
+    kind: WorkerTaskKind;
+    input: unknown;
+    deadline: number;           // Epoch ms
+    cancel: SharedArrayBuffer;  // Int32 flag, set to 1 to stop
+}
+
+export type WorkerReplyMessage = { id: number; output: unknown } | { id: number; error: string };
+
+if (parentPort) {
+    const port = parentPort;
+    // Scripts that only want their own output start the pool quiet (see setWorkerLogging)
+    if (workerData?.quiet) console.log = () => {};
+
+    port.on('message', ({ id, kind, input, deadline, cancel }: WorkerJobMessage) => {
+        const flag = new Int32Array(cancel);
+        const shouldStop = () => Date.now() >= deadline || Atomics.load(flag, 0) !== 0;
+        try {
+            const task = WORKER_TASKS[kind] as (input: unknown, shouldStop: () => boolean) => unknown;
+            port.postMessage({ id, output: task(input, shouldStop) } satisfies WorkerReplyMessage);
+        } catch (error) {
+            port.postMessage({ id, error: (error as Error).message } satisfies WorkerReplyMessage);
+        }
+    });
+}
@@ -0,0 +1,107 @@
+/**
+ * Browser side of online games
+ * A connection to the multiplayer server that reconnects by itself after a
+ * drop, and the seat kept in sessionStorage so a dropped connection or a
+ * reloaded page can take it back.
+ */
+
+import { ClientMessage, ServerMessage } from './types';
+import { MULTIPLAYER_PORT, RECONNECT_DELAYS_MS } from './constants';
+
+const SEAT_KEY = 'scrabble-online-seat';
+
+export type ConnectionStatus = 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export interface OnlineSeat {
+    code: string;
+    token: string;
+}
+
+export interface OnlineConnection {
+    send: (message: ClientMessage) => void;
+    close: () => void;      // Stop for good, without reconnecting
+}
+
+export interface OnlineHandlers {
+    onOpen: () => void;     // On every (re)connection, before anything is received
+    onMessage: (message: ServerMessage) => void;
+    onStatus: (status: ConnectionStatus) => void;
+}
+
+/**
+ * Where the multiplayer server is: NEXT_PUBLIC_MULTIPLAYER_URL, else
+ * MULTIPLAYER_PORT on the host serving the page
+ */
+export function multiplayerUrl(): string {
+    if (process.env.NEXT_PUBLIC_MULTIPLAYER_URL) return process.env.NEXT_PUBLIC_MULTIPLAYER_URL;
+    const secure = window.location.protocol === 'https:';
+    return `${secure ? 'wss' : 'ws'}://${window.location.hostname}:${MULTIPLAYER_PORT}`;
+}
+
+/**
+ * Connect to the multiplayer server
+ * Messages sent while the connection is down are dropped; after a
+ * reconnection onOpen is the place to take the seat back
+ */
+export function connectOnline(handlers: OnlineHandlers, url: string = multiplayerUrl()): OnlineConnection {
+    let socket: WebSocket | null = null;
+    let attempts = 0;
+    let stopped = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const open = () => {
+        handlers.onStatus(attempts === 0 ? 'CONNECTING' : 'RECONNECTING');
+        socket = new WebSocket(url);
+        socket.onopen = () => {
+            attempts = 0;
+            handlers.onStatus('OPEN');
+            handlers.onOpen();
+        };
+        socket.onmessage = event => {
+            try {
+                handlers.onMessage(JSON.parse(event.data) as ServerMessage);
+            } catch (error) {
+                console.error('Bad message from the multiplayer server:', error);
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            if (stopped) return;
+            const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)];
+            attempts++;
+            handlers.onStatus('RECONNECTING');
+            retryTimer = setTimeout(open, delay);
+        };
+    };
+
+    open();
+
+    return {
+        send: message => {
+            if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+        close: () => {
+            stopped = true;
+            if (retryTimer) clearTimeout(retryTimer);
+            socket?.close();
+            handlers.onStatus('CLOSED');
+        },
+    };
+}
+
+/**
+ * The seat this tab holds, if any
+ */
+export function loadOnlineSeat(): OnlineSeat | null {
+    try {
+        const seat = JSON.parse(sessionStorage.getItem(SEAT_KEY) || 'null');
+        return seat && typeof seat.code === 'string' && typeof seat.token === 'string' ? seat : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveOnlineSeat(seat: OnlineSeat | null): void {
+    if (seat) sessionStorage.setItem(SEAT_KEY, JSON.stringify(seat));
+    else sessionStorage.removeItem(SEAT_KEY);
+}
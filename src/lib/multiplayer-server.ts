@@ -0,0 +1,480 @@
+/**
+ * Multiplayer server
+ * Hosts online games in rooms that players join by code, over WebSockets.
+ * The server is authoritative: it holds the only full copy of each game,
+ * deals from the bag, checks every action against the rules and the
+ * lexicon, rules on challenges and plays the AI seats. Each player is sent
+ * the game as they may see it, with other racks and the bag hidden.
+ *
+ * A seat is held by a secret token, so a player whose connection drops can
+ * take it back; a room is closed once no human has been connected to it for
+ * ROOM_IDLE_TIMEOUT_MS.
+ */
+
+import http from 'http';
+import { randomBytes, randomInt } from 'crypto';
+import { acceptWebSocket, WebSocketConnection } from './websocket';
+import { AiActions, playAiTurn } from './ai-turn';
+import { createGame, applyAction, describeAction, placedFromRack } from './gameEngine';
+import { describeGameEnd } from './gameEnd';
+import { validateMove } from './validation';
+import { isBoardEmpty } from './gameUtils';
+import { isChallengeRule } from './challenge';
+import { loadPersonality } from './personality-store';
+import { GameState, GameAction, Player, Tile, ClientMessage, ServerMessage, OnlineSettings, RoomInfo, AiPersonality } from './types';
+import {
+    BOARD_VARIANTS, BoardVariant, DEFAULT_LEXICON, MIN_SEATS, MAX_SEATS,
+    ROOM_IDLE_TIMEOUT_MS, ONLINE_PING_INTERVAL_MS,
+} from './constants';
+
+// Room codes leave out I and O, which read as 1 and 0
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+const MAX_NAME_LENGTH = 20;
+
+export interface MultiplayerServices {
+    ai: AiActions;
+    validateWords: (words: string[], lexicon?: string) => Promise<string[]>;
+}
+
+export interface MultiplayerServer {
+    server: http.Server;    // Listen on it to start serving
+    close: () => void;      // Close every room and connection, then the server
+}
+
+interface Seat {
+    playerId: string;
+    name: string | null;        // null while free
+    isAi: boolean;
+    token: string | null;       // Takes the seat back after a dropped connection
+    client: Client | null;      // Connection playing the seat now
+}
+
+interface Room {
+    code: string;
+    settings: OnlineSettings;
+    aiPersonality: AiPersonality;
+    seats: Seat[];
+    hostId: string;             // Player id of the host's seat
+    state: GameState | null;    // null until the game starts
+    message: string | null;     // What the last action did
+    queue: Promise<void>;       // Game actions and AI turns, applied one at a time
+    idleTimer: NodeJS.Timeout | null;
+    closed: boolean;
+}
+
+interface Client {
+    connection: WebSocketConnection;
+    room: Room | null;
+    seat: Seat | null;
+    alive: boolean;             // Answered the last ping
+}
+
+/**
+ * The game as a player may see it
+ * Until the game is over, other players' racks and the bag show only how
+ * many tiles they hold, past racks are the player's own only, and the seed
+ * and random state that would give the draws away are left out
+ */
+export function redactState(state: GameState, viewerId: string): GameState {
+    if (state.gameOver) return state;
+    const hide = (tiles: Tile[], owner: string): Tile[] => tiles.map((_, i) => ({ id: `hidden-${owner}-${i}`, letter: '', score: 0 }));
+    const pending = state.pendingMove;
+
+    return {
+        ...state,
+        players: state.players.map(p => p.id === viewerId ? p : { ...p, rack: hide(p.rack, p.id) }),
+        bag: hide(state.bag, 'bag'),
+        moveHistory: state.moveHistory.map(m => m.playerId === viewerId ? m : { ...m, rack: undefined, exchanged: undefined }),
+        pendingMove: pending && pending.playerId !== viewerId ? { ...pending, rack: undefined } : pending,
+        seed: undefined,
+        rngState: undefined,
+    };
+}
+
+/**
+ * An action as the seat's player may take it, with a challenge's verdict
+ * left for the server to reach (the engine itself makes sure tiles are the
+ * player's own)
+ * @throws Error if the action is not one a player can take
+ */
+function ownAction(action: GameAction, player: Player): GameAction {
+    switch (action?.type) {
+        case 'PLACE':
+            if (!Array.isArray(action.tiles)) throw new Error('No tiles to play.');
+            return { type: 'PLACE', playerId: player.id, tiles: action.tiles };
+        case 'EXCHANGE':
+            if (!Array.isArray(action.tiles)) throw new Error('Select tiles to exchange.');
+            return { type: 'EXCHANGE', playerId: player.id, tiles: action.tiles };
+        case 'CHALLENGE':
+            return { type: 'CHALLENGE', playerId: player.id, invalidWords: [] };
+        case 'PASS':
+        case 'RESIGN':
+        case 'ACCEPT':
+            return { type: action.type, playerId: player.id };
+        default:
+            throw new Error('Unknown action.');
+    }
+}
+
+const cleanName = (name: unknown): string => {
+    const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!trimmed) throw new Error('Enter a name to play under.');
+    return trimmed;
+};
+
+/**
+ * Create the multiplayer server
+ * @param services - The AI and the lexicon, as used by the rest of the app
+ */
+export function createMultiplayerServer(services: MultiplayerServices): MultiplayerServer {
+    const rooms = new Map<string, Room>();
+    const clients = new Set<Client>();
+
+    const send = (client: Client | null, message: ServerMessage) => {
+        client?.connection.send(JSON.stringify(message));
+    };
+
+    const roomInfo = (room: Room): RoomInfo => ({
+        code: room.code,
+        settings: room.settings,
+        seats: room.seats.map(seat => ({
+            playerId: seat.playerId,
+            name: seat.name,
+            isAi: seat.isAi,
+            connected: !!seat.client,
+            host: seat.playerId === room.hostId,
+        })),
+        started: !!room.state,
+    });
+
+    const sendState = (room: Room, seat: Seat) => {
+        if (room.state) send(seat.client, { type: 'STATE', state: redactState(room.state, seat.playerId), message: room.message });
+    };
+
+    const broadcastRoom = (room: Room) => {
+        const message: ServerMessage = { type: 'ROOM', room: roomInfo(room) };
+        room.seats.forEach(seat => send(seat.client, message));
+    };
+
+    const broadcastState = (room: Room) => {
+        room.seats.forEach(seat => sendState(room, seat));
+    };
+
+    const closeRoom = (room: Room, reason: string) => {
+        room.closed = true;
+        if (room.idleTimer) clearTimeout(room.idleTimer);
+        rooms.delete(room.code);
+        for (const seat of room.seats) {
+            send(seat.client, { type: 'ERROR', message: reason, fatal: true });
+            if (seat.client) {
+                seat.client.room = null;
+                seat.client.seat = null;
+            }
+        }
+    };
+
+    // With no human connected, the room is closed unless one comes back in time
+    const checkIdle = (room: Room) => {
+        if (room.idleTimer) clearTimeout(room.idleTimer);
+        room.idleTimer = null;
+        if (room.seats.some(seat => seat.client)) return;
+        room.idleTimer = setTimeout(() => closeRoom(room, 'The room was closed after everyone left.'), ROOM_IDLE_TIMEOUT_MS);
+    };
+
+    const sit = (client: Client, room: Room, seat: Seat) => {
+        seat.client = client;
+        client.room = room;
+        client.seat = seat;
+        send(client, { type: 'JOINED', code: room.code, playerId: seat.playerId, token: seat.token! });
+        broadcastRoom(room);
+        sendState(room, seat);
+        checkIdle(room);
+    };
+
+    // The connection stops playing its seat; the seat stays taken
+    const detach = (client: Client) => {
+        const { room, seat } = client;
+        client.room = null;
+        client.seat = null;
+        if (!room || !seat || seat.client !== client) return;
+        seat.client = null;
+        broadcastRoom(room);
+        checkIdle(room);
+    };
+
+    /**
+     * Play the turns of AI seats until a connected human is to move or the game is over
+     */
+    const runAutomaticTurns = async (room: Room) => {
+        while (room.state && !room.state.gameOver && !room.closed) {
+            const state = room.state;
+            const player = state.players[state.currentPlayerIndex];
+
+            if (player.isAi) {
+                try {
+                    const turn = await playAiTurn(state, services.ai, room.code);
+                    if (room.closed) return;
+                    room.state = turn.state;
+                    room.message = turn.state.gameOver
+                        ? describeGameEnd(turn.state)
+                        : turn.steps
+                            .filter(step => step.action.type !== 'ACCEPT')
+                            .map(step => describeAction(step.before, step.action, step.after))
+                            .join(' ');
+                } catch (error) {
+                    console.error(`Room ${room.code}: ${player.name} could not move:`, error);
+                    room.state = applyAction(state, { type: 'PASS', playerId: player.id });
+                    room.message = `${player.name} could not move and passed.`;
+                }
+            } else {
+                return;
+            }
+            broadcastState(room);
+        }
+    };
+
+    // Queue work on the room's game, after anything already queued
+    const enqueue = (room: Room, client: Client, work: () => Promise<void>) => {
+        room.queue = room.queue
+            .then(work)
+            .catch(error => send(client, { type: 'ERROR', message: (error as Error).message }));
+    };
+
+    const createRoom = (client: Client, name: string, settings: OnlineSettings) => {
+        const seats = Number(settings?.seats);
+        if (!Number.isInteger(seats) || seats < MIN_SEATS || seats > MAX_SEATS) {
+            throw new Error(`Rooms have ${MIN_SEATS} to ${MAX_SEATS} seats.`);
+        }
+        const variant: BoardVariant = settings.variant && settings.variant in BOARD_VARIANTS ? settings.variant : 'STANDARD';
+        const challengeRule = settings.challengeRule === 'SINGLE' || settings.challengeRule === 'DOUBLE' ? settings.challengeRule : 'VOID';
+        const aiPersonality = loadPersonality(settings.aiPersonality?.name || 'MEDIUM');
+
+        let code: string;
+        do {
+            code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+        } while (rooms.has(code));
+
+        const room: Room = {
+            code,
+            settings: { seats, variant, lexicon: settings.lexicon || DEFAULT_LEXICON, challengeRule, aiPersonality },
+            aiPersonality,
+            seats: Array.from({ length: seats }, (_, i) => ({ playerId: `p${i}`, name: null, isAi: false, token: null, client: null })),
+            hostId: 'p0',
+            state: null,
+            message: null,
+            queue: Promise.resolve(),
+            idleTimer: null,
+            closed: false,
+        };
+        room.seats[0].name = name;
+        room.seats[0].token = randomBytes(16).toString('hex');
+        rooms.set(code, room);
+        sit(client, room, room.seats[0]);
+    };
+
+    const joinRoom = (client: Client, code: string, name: string) => {
+        const room = rooms.get(code);
+        if (!room) throw new Error(`There is no room ${code}.`);
+        if (room.state) throw new Error('That game has already started.');
+        const seat = room.seats.find(s => !s.name);
+        if (!seat) throw new Error('That room is full.');
+        seat.name = name;
+        seat.token = randomBytes(16).toString('hex');
+        sit(client, room, seat);
+    };
+
+    const rejoinRoom = (client: Client, code: string, token: string) => {
+        const room = rooms.get(code);
+        const seat = room?.seats.find(s => s.token && s.token === token);
+        if (!room || !seat) {
+            send(client, { type: 'ERROR', message: 'That game is no longer open.', fatal: true });
+            return;
+        }
+        // The seat moves to the newest connection
+        if (seat.client && seat.client !== client) {
+            const previous = seat.client;
+            detach(previous);
+            previous.connection.close(1000, 'Seat taken by a new connection');
+        }
+        sit(client, room, seat);
+    };
+
+    const startGame = (client: Client) => {
+        const { room, seat } = client;
+        if (!room || !seat) throw new Error('Join a room first.');
+        if (seat.playerId !== room.hostId) throw new Error('Only the host can start the game.');
+        if (room.state) throw new Error('The game has already started.');
+
+        let aiCount = 0;
+        for (const s of room.seats) {
+            if (!s.name) {
+                s.isAi = true;
+                s.name = `AI ${++aiCount}`;
+            }
+        }
+        room.state = createGame({
+            mode: 'ONLINE',
+            variant: room.settings.variant,
+            lexicon: room.settings.lexicon,
+            challengeRule: room.settings.challengeRule,
+            hintsAllowed: false,
+            seats: room.seats.map(s => ({ name: s.name!, isAi: s.isAi, personality: s.isAi ? room.aiPersonality : undefined })),
+        });
+        room.message = `Game started: ${room.state.players[0].name} to play.`;
+        broadcastRoom(room);
+        broadcastState(room);
+        enqueue(room, client, () => runAutomaticTurns(room));
+    };
+
+    // A player who leaves a game in progress hands their seat to an AI
+    const leaveRoom = (client: Client) => {
+        const { room, seat } = client;
+        if (!room || !seat) return;
+        detach(client);
+        seat.token = null;
+
+        if (!room.state) {
+            seat.name = null;
+            if (seat.playerId === room.hostId) {
+                const next = room.seats.find(s => s.name);
+                if (!next) return closeRoom(room, 'The room was closed.');
+                room.hostId = next.playerId;
+            }
+            broadcastRoom(room);
+            return;
+        }
+
+        enqueue(room, client, async () => {
+            if (!room.state || room.state.gameOver) return;
+            seat.isAi = true;
+            room.state = {
+                ...room.state,
+                players: room.state.players.map(p => p.id === seat.playerId
+                    ? { ...p, isAi: true, personality: room.aiPersonality, moveGenerator: 'DAWG' }
+                    : p
+                ),
+            };
+            room.message = `${seat.name} left; an AI plays on for them.`;
+            broadcastRoom(room);
+            broadcastState(room);
+            await runAutomaticTurns(room);
+        });
+    };
+
+    const act = (client: Client, action: GameAction) => {
+        const { room, seat } = client;
+        if (!room || !seat) throw new Error('Join a room first.');
+
+        enqueue(room, client, async () => {
+            const state = room.state;
+            if (!state) throw new Error('The game has not started.');
+            const player = state.players.find(p => p.id === seat.playerId);
+            if (!player || player.isAi) throw new Error('This seat is no longer yours to play.');
+
+            const own = ownAction(action, player);
+            const pending = state.pendingMove;
+            if (own.type === 'CHALLENGE' && pending) {
+                own.invalidWords = await services.validateWords(pending.words, state.lexicon);
+            }
+            // Under VOID, plays with words missing from the lexicon are refused
+            if (own.type === 'PLACE' && !isChallengeRule(state.challengeRule)) {
+                const validation = validateMove(state.board, placedFromRack(player, own.tiles), isBoardEmpty(state.board), player, state.mustStartOnStar);
+                if (validation.isValid && validation.words && validation.words.length > 0) {
+                    const invalid = await services.validateWords(validation.words, state.lexicon);
+                    if (invalid.length > 0) throw new Error(`Invalid words: ${invalid.join(', ')}`);
+                }
+            }
+
+            const after = applyAction(state, own);
+            room.state = after;
+            room.message = describeAction(state, own, after);
+            broadcastState(room);
+            await runAutomaticTurns(room);
+        });
+    };
+
+    const handleMessage = (client: Client, text: string) => {
+        let message: ClientMessage;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            send(client, { type: 'ERROR', message: 'Messages must be JSON.' });
+            return;
+        }
+
+        try {
+            switch (message?.type) {
+                case 'CREATE':
+                    leaveRoom(client);
+                    createRoom(client, cleanName(message.name), message.settings);
+                    break;
+                case 'JOIN':
+                    leaveRoom(client);
+                    joinRoom(client, String(message.code || '').trim().toUpperCase(), cleanName(message.name));
+                    break;
+                case 'REJOIN':
+                    detach(client);
+                    rejoinRoom(client, String(message.code || '').toUpperCase(), String(message.token || ''));
+                    break;
+                case 'START':
+                    startGame(client);
+                    break;
+                case 'ACTION':
+                    act(client, message.action);
+                    break;
+                case 'LEAVE':
+                    leaveRoom(client);
+                    break;
+                default:
+                    throw new Error('Unknown message.');
+            }
+        } catch (error) {
+            send(client, { type: 'ERROR', message: (error as Error).message });
+        }
+    };
+
+    const server = http.createServer((_request, response) => {
+        response.writeHead(426, { 'Content-Type': 'text/plain' });
+        response.end('Scrabble multiplayer server: connect with a WebSocket.\n');
+    });
+
+    server.on('upgrade', (request, socket) => {
+        const client: Client = { connection: null!, room: null, seat: null, alive: true };
+        const connection = acceptWebSocket(request, socket, {
+            onMessage: text => handleMessage(client, text),
+            onClose: () => {
+                clients.delete(client);
+                detach(client);
+            },
+            onPong: () => client.alive = true,
+        });
+        if (!connection) return;
+        client.connection = connection;
+        clients.add(client);
+    });
+
+    // Connections that stop answering pings are dropped, freeing their seats for reconnection
+    const pinger = setInterval(() => {
+        for (const client of clients) {
+            if (!client.alive) {
+                client.connection.close(1001, 'No answer to ping');
+                clients.delete(client);
+                detach(client);
+                continue;
+            }
+            client.alive = false;
+            client.connection.ping();
+        }
+    }, ONLINE_PING_INTERVAL_MS);
+
+    return {
+        server,
+        close: () => {
+            clearInterval(pinger);
+            for (const room of rooms.values()) closeRoom(room, 'The server is shutting down.');
+            for (const client of clients) client.connection.close(1001, 'Server shutting down');
+            server.close();
+        },
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * AI personalities on disk
+ * The built-in presets (AI_PERSONALITIES) plus custom ones saved from the
+ * settings panel as JSON files in personalities/. Custom presets cannot take
+ * a built-in preset's name.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AiPersonality } from './types';
+import { AI_DIFFICULTIES, AI_PERSONALITIES } from './constants';
+import { validatePersonality, isBuiltInPersonality } from './personality';
+
+export const PERSONALITY_DIR = 'personalities';
+
+function getPersonalityPath(name: string): string {
+    return path.join(process.cwd(), PERSONALITY_DIR, `${name}.json`);
+}
+
+function readPersonality(name: string): AiPersonality {
+    const filePath = getPersonalityPath(name);
+    let profile: unknown;
+    try {
+        profile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read personality "${name}": ${(error as Error).message}`);
+    }
+    // The file name is the preset's name
+    return { ...validatePersonality(profile, path.relative(process.cwd(), filePath)), name };
+}
+
+/**
+ * Every preset: the built-in ones first, then the saved ones by name
+ * A saved preset that cannot be read is logged and left out
+ */
+export function listPersonalities(): AiPersonality[] {
+    const dir = path.join(process.cwd(), PERSONALITY_DIR);
+    const names = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter(file => path.extname(file) === '.json').map(file => path.parse(file).name).sort()
+        : [];
+
+    const saved: AiPersonality[] = [];
+    for (const name of names) {
+        if (isBuiltInPersonality(name)) continue;
+        try {
+            saved.push(readPersonality(name));
+        } catch (error) {
+            console.error((error as Error).message);
+        }
+    }
+    return [...AI_DIFFICULTIES.map(d => AI_PERSONALITIES[d]), ...saved];
+}
+
+/**
+ * Load a preset by name (built-in names are case-insensitive)
+ * @throws Error if there is no such preset or its file is invalid
+ */
+export function loadPersonality(name: string): AiPersonality {
+    const builtIn = AI_DIFFICULTIES.find(d => d === name.toUpperCase());
+    if (builtIn) return AI_PERSONALITIES[builtIn];
+
+    if (!/^[\w-]+$/.test(name) || !fs.existsSync(getPersonalityPath(name))) {
+        throw new Error(`Unknown personality "${name}" (expected ${AI_DIFFICULTIES.join(', ')} or a file in ${PERSONALITY_DIR}/)`);
+    }
+    return readPersonality(name);
+}
+
+/**
+ * Save a custom preset, replacing any saved preset of the same name
+ * @throws Error if the profile is invalid or named like a built-in preset
+ */
+export function savePersonality(personality: AiPersonality): AiPersonality {
+    const profile = validatePersonality(personality, `Personality "${personality?.name}"`);
+    if (isBuiltInPersonality(profile.name)) {
+        throw new Error(`"${profile.name}" is a built-in preset; save under another name`);
+    }
+
+    const filePath = getPersonalityPath(profile.name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(profile, null, 2) + '\n');
+    console.log(`Saved personality "${profile.name}" to ${path.relative(process.cwd(), filePath)}`);
+    return profile;
+}
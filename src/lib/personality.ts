@@ -0,0 +1,113 @@
+/**
+ * AI personalities
+ * What a personality changes about move choice beyond picking among the
+ * plays: which words the AI knows, and how much a play opens the board.
+ * Profiles read from a file or sent by the settings panel are checked here.
+ */
+
+import { AiPersonality, BoardState } from './types';
+import { AI_DIFFICULTIES, MEGA_BOARD_SIZE, RACK_SIZE } from './constants';
+import { PlacedTile } from './validation';
+
+// Words this short are known to every personality
+const ALWAYS_KNOWN_LENGTH = 3;
+
+// How much an opened premium square counts towards defensiveness
+const OPENING_WEIGHTS: Record<string, number> = { TW: 3, DW: 2 };
+
+/**
+ * Whether an AI with this vocabulary knows a word
+ * The lexicons carry no word frequencies, so which longer words are known is
+ * fixed per word by a hash: the same AI always knows the same words
+ */
+export function knowsWord(word: string, vocabulary: number): boolean {
+    if (vocabulary >= 1 || word.length <= ALWAYS_KNOWN_LENGTH) return true;
+
+    // FNV-1a, scaled to [0, 1)
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0) / 4294967296 < vocabulary;
+}
+
+/**
+ * Weight of the premium squares a play leaves open to the opponent: empty
+ * TW and DW squares within a rack's reach of its tiles along a row or column
+ */
+export function evaluateOpenings(board: BoardState, tiles: PlacedTile[]): number {
+    const placed = new Set(tiles.map(t => `${t.x},${t.y}`));
+    const opened = new Set<string>();
+    let weight = 0;
+
+    for (const { x, y } of tiles) {
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+            for (let step = 1; step <= RACK_SIZE; step++) {
+                const square = board[y + dy * step]?.[x + dx * step];
+                if (!square) break;
+                const key = `${square.x},${square.y}`;
+                if (square.tile || placed.has(key) || opened.has(key)) continue;
+
+                const value = square.bonus ? OPENING_WEIGHTS[square.bonus] || 0 : 0;
+                if (value > 0) {
+                    opened.add(key);
+                    weight += value;
+                }
+            }
+        }
+    }
+    return weight;
+}
+
+/**
+ * Check a personality profile field by field
+ * @param source - Where the profile came from, for the error message
+ * @throws Error naming the first field that is missing or out of range
+ */
+export function validatePersonality(value: unknown, source: string): AiPersonality {
+    if (typeof value !== 'object' || value === null) {
+        throw new Error(`${source} is not a personality`);
+    }
+    const profile = value as Record<string, unknown>;
+
+    const requireNumber = (field: string, min: number, max: number, integer = false) => {
+        const n = profile[field];
+        if (typeof n !== 'number' || !Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+            throw new Error(`${source}: "${field}" must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+        }
+        return n;
+    };
+    const requireBoolean = (field: string) => {
+        if (typeof profile[field] !== 'boolean') {
+            throw new Error(`${source}: "${field}" must be true or false`);
+        }
+        return profile[field] as boolean;
+    };
+
+    if (typeof profile.name !== 'string' || !/^[\w-]{1,32}$/.test(profile.name)) {
+        throw new Error(`${source}: "name" must be 1-32 letters, digits, '-' or '_'`);
+    }
+
+    return {
+        name: profile.name,
+        vocabulary: requireNumber('vocabulary', 0, 1),
+        maxWordLength: requireNumber('maxWordLength', 0, MEGA_BOARD_SIZE, true),
+        bingoAwareness: requireNumber('bingoAwareness', 0, 1),
+        defensiveness: requireNumber('defensiveness', 0, 100),
+        exchangeWillingness: requireNumber('exchangeWillingness', -100, 100),
+        blunderRate: requireNumber('blunderRate', 0, 1),
+        blunderRange: requireNumber('blunderRange', 0, 1),
+        thinkTimeMs: requireNumber('thinkTimeMs', 0, 60000, true),
+        simulate: requireBoolean('simulate'),
+        solveEndgames: requireBoolean('solveEndgames'),
+        challengeRate: requireNumber('challengeRate', 0, 1),
+        phonyRate: requireNumber('phonyRate', 0, 1),
+    };
+}
+
+/**
+ * Whether a name belongs to a built-in preset (which cannot be overwritten)
+ */
+export function isBuiltInPersonality(name: string): boolean {
+    return AI_DIFFICULTIES.some(d => d === name.toUpperCase());
+}
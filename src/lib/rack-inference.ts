@@ -0,0 +1,172 @@
+/**
+ * Opponent rack inference
+ * A player's last play says something about the tiles they kept: had they
+ * held an S that made a much better play, they would probably have played
+ * it. Candidate leaves are drawn from the unseen tiles and weighted by how
+ * close the actual play comes to the best play the full rack allowed, by
+ * equity (score plus leave). The opponent's rack is then the kept tiles plus
+ * whatever they drew.
+ */
+
+import { BoardState, Move, Tile } from './types';
+import { PackedDAWG } from './dawg';
+import { RACK_SIZE, INFERENCE_TEMPERATURE } from './constants';
+import { getBoardIndex, getIndexAnchors } from './board-index';
+import { generateMoves } from './move-generator';
+import { calculateScore } from './scoring';
+import { getRemainingRack } from './heuristics';
+import { LeaveTable, getLeaveValue, leaveKey } from './leave-values';
+import { clearBlankDesignation, isBoardPlay, boardBeforeMove } from './gameUtils';
+import { RandomSource } from './random';
+
+export interface InferredLeave {
+    leave: string;          // Sorted letters, '?' for a blank
+    probability: number;
+}
+
+export interface RackInference {
+    playerId: string;
+    move?: { word: string; score: number }; // The play the inference reads; none means nothing was learned
+    leaves: InferredLeave[];               // Most likely first
+    letters: Record<string, number>;       // Chance that the kept tiles include each letter
+    rackSize: number;                      // Tiles on the player's rack now
+    samples: number;
+}
+
+export interface InferenceOptions {
+    samples: number;        // Candidate leaves to weigh
+    timeBudgetMs: number;
+    random: RandomSource;
+    shouldStop?: () => boolean; // Polled between samples; true ends sampling as if the time were up
+}
+
+/**
+ * Random `count` tiles of a pool (partial Fisher-Yates on a copy)
+ */
+function pick(pool: Tile[], count: number, random: RandomSource): { picked: Tile[]; rest: Tile[] } {
+    const tiles = [...pool];
+    const n = Math.min(count, tiles.length);
+    for (let i = 0; i < n; i++) {
+        const j = i + Math.floor(random() * (tiles.length - i));
+        [tiles[i], tiles[j]] = [tiles[j], tiles[i]];
+    }
+    return { picked: tiles.slice(0, n), rest: tiles.slice(n) };
+}
+
+/**
+ * Infer what a player kept after their last play
+ * @param board - Current board
+ * @param moveHistory - The game's moves so far
+ * @param playerId - Player whose rack to infer
+ * @param unseen - Tiles the inferring player cannot see (bag plus other racks)
+ * @param rackSize - Tiles on the player's rack now
+ * @param dawg - Lexicon
+ * @param leaves - Leave table the player is assumed to value leaves with
+ * @param options - Sample count, time budget and random source
+ */
+export function inferRack(
+    board: BoardState,
+    moveHistory: Move[],
+    playerId: string,
+    unseen: Tile[],
+    rackSize: number,
+    dawg: PackedDAWG,
+    leaves: LeaveTable,
+    options: InferenceOptions
+): RackInference {
+    const deadline = Date.now() + options.timeBudgetMs;
+
+    let index = -1;
+    for (let i = moveHistory.length - 1; i >= 0; i--) {
+        if (moveHistory[i].playerId === playerId && isBoardPlay(moveHistory[i])) {
+            index = i;
+            break;
+        }
+    }
+    const move = index >= 0 ? moveHistory[index] : undefined;
+    const played = move ? move.tiles.map(t => ({ ...t, tile: clearBlankDesignation(t.tile) })) : [];
+    const leaveSize = Math.min(rackSize, RACK_SIZE - played.length, unseen.length);
+
+    // Nothing kept, or nothing to read it from: every leave is as likely as its draw
+    const informative = !!move && leaveSize > 0;
+    const before = informative ? boardBeforeMove(board, moveHistory, index) : board;
+    const boardIndex = informative ? getBoardIndex(before, dawg) : null;
+    const anchors = boardIndex ? getIndexAnchors(boardIndex) : [];
+
+    const weightOf = new Map<string, number>(); // Leaves already weighed
+    const totals = new Map<string, number>();
+    let total = 0;
+    let samples = 0;
+
+    while (samples < options.samples && (samples === 0 || (Date.now() < deadline && !options.shouldStop?.()))) {
+        const kept = pick(unseen, leaveSize, options.random).picked;
+        const key = leaveKey(kept);
+        let weight = weightOf.get(key);
+
+        if (weight === undefined) {
+            weight = 1;
+            if (informative && move && boardIndex) {
+                // How much equity the play gave up against the best play of the whole rack
+                const rack = [...played.map(t => t.tile), ...kept];
+                const actual = move.score + getLeaveValue(leaves, kept);
+                let best = actual;
+                for (const option of generateMoves(before, rack, dawg, boardIndex.crossSets, anchors)) {
+                    const equity = calculateScore(before, option.tiles, boardIndex) + getLeaveValue(leaves, getRemainingRack(rack, option.tiles));
+                    if (equity > best) best = equity;
+                }
+                weight = Math.exp(-(best - actual) / INFERENCE_TEMPERATURE);
+            }
+            weightOf.set(key, weight);
+        }
+
+        totals.set(key, (totals.get(key) || 0) + weight);
+        total += weight;
+        samples++;
+    }
+
+    const inferred = Array.from(totals.entries())
+        .map(([leave, weight]) => ({ leave, probability: total > 0 ? weight / total : 0 }))
+        .sort((a, b) => b.probability - a.probability);
+
+    const letters: Record<string, number> = {};
+    for (const { leave, probability } of inferred) {
+        for (const letter of new Set(leave)) {
+            letters[letter] = (letters[letter] || 0) + probability;
+        }
+    }
+
+    return {
+        playerId,
+        move: informative && move ? { word: move.word, score: move.score } : undefined,
+        leaves: inferred,
+        letters,
+        rackSize,
+        samples,
+    };
+}
+
+/**
+ * Deal a plausible rack for the inferred player: a leave chosen by its
+ * probability, topped up at random from the other unseen tiles
+ * @returns The rack and the unseen tiles left over (the bag, in a two-player game)
+ */
+export function sampleRack(inference: RackInference, unseen: Tile[], random: RandomSource): { rack: Tile[]; rest: Tile[] } {
+    let roll = random();
+    let chosen = '';
+    for (const { leave, probability } of inference.leaves) {
+        chosen = leave;
+        roll -= probability;
+        if (roll < 0) break;
+    }
+
+    // Take the leave's tiles out of the pool; any that are gone by now are drawn instead
+    const rest = [...unseen];
+    const rack: Tile[] = [];
+    for (const letter of chosen) {
+        const at = rest.findIndex(t => (t.isBlank ? '?' : t.letter) === letter);
+        if (at >= 0) rack.push(...rest.splice(at, 1));
+    }
+
+    const drawn = pick(rest, inference.rackSize - rack.length, random);
+    return { rack: [...rack, ...drawn.picked], rest: drawn.rest };
+}
@@ -0,0 +1,65 @@
+/**
+ * Seeded randomness
+ * Games take every random number from mulberry32, a small PRNG whose whole
+ * state is one 32-bit integer. The state is kept on GameState, so a game
+ * started from the same seed with the same players replays identically.
+ */
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+export interface SeededRandom {
+    next: RandomSource;
+    getState: () => number; // Pass back to createRandom to continue the sequence
+}
+
+/**
+ * A fresh seed for a game started without one
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a generator starting at a seed (or a state saved with getState)
+ */
+export function createRandom(seed: number): SeededRandom {
+    let state = seed >>> 0;
+    return {
+        next: () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+        },
+        getState: () => state,
+    };
+}
+
+/**
+ * Derive an independent seed from a game seed, e.g. for one AI decision
+ * @param seed - Game seed
+ * @param salts - Whatever identifies the decision (turn number, purpose)
+ */
+export function deriveSeed(seed: number, ...salts: number[]): number {
+    let hash = seed >>> 0;
+    for (const salt of salts) {
+        hash = Math.imul(hash ^ (salt >>> 0), 0x9E3779B1) >>> 0;
+        hash = (hash ^ (hash >>> 16)) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Parse a seed typed by a player
+ * @returns The seed, or null if the text is not a whole number from 0 to 4294967295
+ */
+export function parseSeed(text: string): number | null {
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= 0xFFFFFFFF ? seed : null;
+}
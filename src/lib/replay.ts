@@ -0,0 +1,130 @@
+/**
+ * Game replay
+ * Rebuilds any position of a game from its final board and move history:
+ * the board after a given number of moves, the tiles the last of them
+ * placed, the words they formed and the scores so far. Works on any game
+ * state - one being played, resumed from a save or imported from GCG - and
+ * a play still open to challenge counts as the last move.
+ */
+
+import { BoardState, GameState, Move } from './types';
+import { PlacedTile } from './validation';
+import { boardBeforeMove, isBoardPlay, playStart, getTileLetter } from './gameUtils';
+
+export interface FormedWord {
+    word: string;
+    squares: Array<{ x: number; y: number }>;
+}
+
+export interface ReplayPosition {
+    index: number;          // Moves made, 0 for the empty board
+    board: BoardState;      // The board after those moves
+    move: Move | null;      // The last of them, null before the first
+    pending: boolean;       // The last move is a play still open to challenge
+    placed: PlacedTile[];   // Tiles the last move put on the board
+    words: FormedWord[];    // Words they formed, main word first
+    scores: Record<string, number>;         // Player id -> score after the move
+    teamScores?: Record<string, number>;    // Team id -> score after the move
+    final: boolean;         // End of a finished game: scores include the end adjustments
+}
+
+/**
+ * Moves to step through: the history, and a play awaiting challenge
+ */
+function replayMoves(state: GameState): Move[] {
+    const pending = state.pendingMove;
+    if (!pending) return state.moveHistory;
+    return [...state.moveHistory, {
+        type: 'PLAY',
+        playerId: pending.playerId,
+        word: pending.word,
+        score: pending.score,
+        tiles: pending.tiles,
+        rack: pending.rack,
+    }];
+}
+
+/**
+ * Number of moves in the replay; positions run from 0 to this
+ */
+export function replayLength(state: GameState): number {
+    return replayMoves(state).length;
+}
+
+/**
+ * The run of tiles through a square, in one direction
+ */
+function wordThrough(board: BoardState, x: number, y: number, across: boolean): FormedWord {
+    const [dx, dy] = across ? [1, 0] : [0, 1];
+    const occupied = (cx: number, cy: number) => !!board[cy]?.[cx]?.tile;
+
+    while (occupied(x - dx, y - dy)) {
+        x -= dx;
+        y -= dy;
+    }
+    const word: FormedWord = { word: '', squares: [] };
+    for (; occupied(x, y); x += dx, y += dy) {
+        word.word += getTileLetter(board[y][x].tile!);
+        word.squares.push({ x, y });
+    }
+    return word;
+}
+
+/**
+ * Every word a play formed on the board after it: the main word, then the
+ * words it made across the main word's line
+ */
+export function formedWords(boardBefore: BoardState, boardAfter: BoardState, tiles: PlacedTile[]): FormedWord[] {
+    if (tiles.length === 0) return [];
+    const { x, y, across } = playStart(boardBefore, tiles);
+    const words = [wordThrough(boardAfter, x, y, across)];
+    for (const tile of tiles) {
+        const cross = wordThrough(boardAfter, tile.x, tile.y, !across);
+        if (cross.squares.length > 1) words.push(cross);
+    }
+    return words.filter(w => w.squares.length > 1);
+}
+
+/**
+ * A position of the game
+ * @param index - Moves made, clamped to the moves there are
+ */
+export function replayPosition(state: GameState, index: number): ReplayPosition {
+    const moves = replayMoves(state);
+    index = Math.max(0, Math.min(index, moves.length));
+
+    const board = boardBeforeMove(state.board, moves, index);
+    const move = index > 0 ? moves[index - 1] : null;
+    const placed = move && isBoardPlay(move) ? move.tiles : [];
+    const before = placed.length > 0 ? boardBeforeMove(state.board, moves, index - 1) : board;
+
+    const final = !!state.finalTally && index === moves.length;
+    let scores: Record<string, number> = {};
+    let teamScores: Record<string, number> | undefined;
+    if (final) {
+        scores = { ...state.finalTally!.finalScores };
+        teamScores = state.finalTally!.teamScores;
+    } else {
+        state.players.forEach(p => scores[p.id] = 0);
+        moves.slice(0, index).forEach(m => scores[m.playerId] = (scores[m.playerId] || 0) + m.score);
+    }
+    if (state.teamScores && !teamScores) {
+        teamScores = {};
+        for (const teamId of Object.keys(state.teamScores)) teamScores[teamId] = 0;
+        state.players.forEach(p => {
+            if (p.teamId) teamScores![p.teamId] = (teamScores![p.teamId] || 0) + (scores[p.id] || 0);
+        });
+    }
+
+    return {
+        index,
+        board,
+        move,
+        pending: !!state.pendingMove && !state.gameOver && index === moves.length,
+        placed,
+        words: formedWords(before, board, placed),
+        scores,
+        teamScores,
+        final,
+    };
+}
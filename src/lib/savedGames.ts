@@ -0,0 +1,148 @@
+/**
+ * Saved games using localStorage
+ * Every game is saved whole after each turn - board, bag order, racks,
+ * seed and random state, settings and history - so it can be resumed
+ * exactly where it stopped, with the AI playing as it would have.
+ *
+ * Saves are versioned JSON. A save written by an older version is brought
+ * up to date on load by running the migrations from its version onwards;
+ * whenever GameState changes shape, bump SAVED_GAME_VERSION and add the
+ * migration from the previous version to MIGRATIONS.
+ */
+
+import { GameState, GameMode } from './types';
+import { SAVED_GAME_VERSION, MAX_SAVED_GAMES } from './constants';
+import { getWinnerName } from './gameEnd';
+
+const KEY_PREFIX = 'scrabble-saved-game:';
+
+// A save as stored, before migration to the current GameState
+interface SavedGameData {
+    version: number;
+    id: string;
+    savedAt: string;
+    state: Record<string, unknown>;
+}
+
+export interface SavedGame {
+    id: string;
+    savedAt: string;
+    state: GameState;
+}
+
+export interface SavedGameSummary {
+    id: string;
+    savedAt: string;
+    mode?: GameMode;
+    variant?: string;
+    players: Array<{ name: string; score: number }>;
+    moves: number;
+    toMove: string | null;      // Player whose turn it is, null once the game is over
+    winner: string | null;      // Name of the winner, null while playing or on a tie
+    gameOver: boolean;
+}
+
+const savedGameKeys = (): string[] => (
+    Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((key): key is string => !!key?.startsWith(KEY_PREFIX))
+);
+
+/**
+ * Upgrades from each save version to the next, keyed by the version they
+ * upgrade from
+ */
+const MIGRATIONS: Record<number, (save: SavedGameData) => SavedGameData> = {};
+
+/**
+ * A game as versioned JSON
+ * @param id - Identifies the game among the saves
+ */
+export function serializeGame(id: string, state: GameState, savedAt: Date = new Date()): string {
+    return JSON.stringify({ version: SAVED_GAME_VERSION, id, savedAt: savedAt.toISOString(), state });
+}
+
+/**
+ * Read a saved game, migrating it from the version it was saved with
+ * @throws Error if it is not a saved game, or comes from a newer version
+ */
+export function deserializeGame(json: string): SavedGame {
+    let save = JSON.parse(json) as SavedGameData;
+    if (!save || typeof save.version !== 'number' || typeof save.id !== 'string' || !save.state) {
+        throw new Error('Not a saved game.');
+    }
+    if (save.version > SAVED_GAME_VERSION) {
+        throw new Error(`Saved by a newer version (format ${save.version}); this version reads up to ${SAVED_GAME_VERSION}.`);
+    }
+
+    while (save.version < SAVED_GAME_VERSION) {
+        const migrate = MIGRATIONS[save.version];
+        if (!migrate) throw new Error(`No migration from save format ${save.version}.`);
+        save = migrate(save);
+    }
+
+    const state = save.state as unknown as GameState;
+    if (!Array.isArray(state.board) || !Array.isArray(state.players) || !Array.isArray(state.bag) || !Array.isArray(state.moveHistory)) {
+        throw new Error('The saved game is incomplete.');
+    }
+    return { id: save.id, savedAt: save.savedAt, state };
+}
+
+/**
+ * Save a game under its id, replacing its last save
+ * Only the MAX_SAVED_GAMES latest games are kept
+ */
+export function saveGame(id: string, state: GameState): void {
+    try {
+        localStorage.setItem(KEY_PREFIX + id, serializeGame(id, state));
+    } catch (error) {
+        console.error('Failed to save game:', error);
+    }
+
+    if (savedGameKeys().length > MAX_SAVED_GAMES) {
+        listSavedGames().slice(MAX_SAVED_GAMES).forEach(save => deleteSavedGame(save.id));
+    }
+}
+
+/**
+ * Load a saved game
+ * @throws Error if there is no such save or it cannot be read
+ */
+export function loadSavedGame(id: string): GameState {
+    const json = localStorage.getItem(KEY_PREFIX + id);
+    if (!json) throw new Error('That saved game no longer exists.');
+    return deserializeGame(json).state;
+}
+
+/**
+ * Every save that can be read, latest first
+ */
+export function listSavedGames(): SavedGameSummary[] {
+    const summaries: SavedGameSummary[] = [];
+
+    for (const key of savedGameKeys()) {
+        try {
+            const { id, savedAt, state } = deserializeGame(localStorage.getItem(key)!);
+            summaries.push({
+                id,
+                savedAt,
+                mode: state.gameMode,
+                variant: state.variant,
+                players: state.players.map(p => ({ name: p.name, score: p.score })),
+                moves: state.moveHistory.length,
+                toMove: state.gameOver ? null : state.players[state.currentPlayerIndex]?.name || null,
+                winner: state.gameOver ? getWinnerName(state) : null,
+                gameOver: state.gameOver,
+            });
+        } catch (error) {
+            console.error(`Failed to read saved game ${key}:`, error);
+        }
+    }
+
+    return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Remove a saved game
+ */
+export function deleteSavedGame(id: string): void {
+    localStorage.removeItem(KEY_PREFIX + id);
+}
@@ -1,9 +1,17 @@
 import { BoardState, Tile } from './types';
 import { PlacedTile } from './validation';
-
+import type { BoardIndex } from './board-index';
+
+/**
+ * Score a play
+ * @param board - Board before the play
+ * @param placedTiles - Tiles the play places
+ * @param index - Index of the same board; perpendicular words are then read from its cross-words instead of the board
+ */
 export const calculateScore = (
     board: BoardState,
-    placedTiles: PlacedTile[]
+    placedTiles: PlacedTile[],
+    index?: BoardIndex
 ): number => {
     let totalScore = 0;
 
@@ -62,6 +70,23 @@ export const calculateScore = (
         return tilesInWord > 1 ? wordScore * wordMultiplier : 0;
     };
 
+    // Same as scoreWord across a placed tile, with the existing letters' value from the index
+    const scoreCrossWord = (pt: PlacedTile): number => {
+        const crossWord = index?.crossWords.get(`${pt.x},${pt.y},${isRow ? 'V' : 'H'}`);
+        if (!crossWord) return 0;
+
+        const bonus = board[pt.y][pt.x].bonus;
+        let letterScore = pt.tile.score;
+        let wordMultiplier = 1;
+        if (bonus === 'DL') letterScore *= 2;
+        if (bonus === 'TL') letterScore *= 3;
+        if (bonus === 'DW' || bonus === 'START') wordMultiplier *= 2;
+        if (bonus === 'TW') wordMultiplier *= 3;
+        if (bonus === 'HAZARD') letterScore -= 10;
+
+        return (crossWord.score + letterScore) * wordMultiplier;
+    };
+
     // Score primary word
     if (placedTiles.length > 0) {
         const startX = placedTiles[0].x;
@@ -71,7 +96,7 @@ export const calculateScore = (
 
     // Score perpendicular words
     for (const pt of placedTiles) {
-        totalScore += scoreWord(pt.x, pt.y, isRow ? 0 : 1, isRow ? 1 : 0);
+        totalScore += index ? scoreCrossWord(pt) : scoreWord(pt.x, pt.y, isRow ? 0 : 1, isRow ? 1 : 0);
     }
 
     // Bingo bonus (using all 7 tiles)
@@ -0,0 +1,194 @@
+/**
+ * Monte Carlo look-ahead for the SIMULATION AI
+ * Each sample deals the opponent a plausible rack from the tiles this player
+ * cannot see (weighted by rack inference when available), plays a candidate,
+ * lets the opponent answer with a fast static player (best score plus leave)
+ * and scores the result. Candidates are sampled round-robin until the time
+ * budget runs out, and the one with the best average equity wins.
+ */
+
+import { Tile } from './types';
+import { PlacedTile } from './validation';
+import { RACK_SIZE } from './constants';
+import { BoardIndex, getIndexAnchors, updateBoardIndex } from './board-index';
+import { generateMoves } from './move-generator';
+import { calculateScore } from './scoring';
+import { evaluateRackLeave, getRemainingRack } from './heuristics';
+import { getRackValue } from './gameEnd';
+import { placeTiles } from './gameUtils';
+import { RandomSource } from './random';
+import { LeaveTable } from './leave-values';
+import { RackInference, sampleRack } from './rack-inference';
+
+export interface SimulationCandidate {
+    tiles: PlacedTile[];
+    score: number;
+}
+
+export interface SimulationOptions {
+    timeBudgetMs: number;
+    plies: number;          // 2: our play and the reply; 3: also our next play
+    random: RandomSource;
+    leaves: LeaveTable;     // Values the leaves of every simulated play
+    inference?: RackInference; // What the opponent probably kept; without it their rack is a random deal
+    shouldStop?: () => boolean; // Ends sampling early, e.g. when the move is cancelled
+}
+
+export interface CandidateEquity<T> {
+    candidate: T;
+    staticEquity: number;   // Score plus leave, before simulation
+    equity: number;         // Average simulated equity (staticEquity if never sampled)
+    samples: number;
+}
+
+export interface SimulationResult<T> {
+    best: T;
+    ranking: CandidateEquity<T>[]; // Best first
+    samples: number;
+    elapsedMs: number;
+}
+
+/**
+ * Static equity: what a play scores plus the value of the tiles it keeps
+ */
+export function staticEquity(rack: Tile[], candidate: SimulationCandidate, leaves: LeaveTable): number {
+    return candidate.score + evaluateRackLeave(getRemainingRack(rack, candidate.tiles), leaves);
+}
+
+/**
+ * Best play for a rack by static equity, or null if there is none
+ * @param index - Index of the board to play on
+ */
+export function bestStaticPlay(index: BoardIndex, rack: Tile[], leaves: LeaveTable): { tiles: PlacedTile[]; score: number; equity: number } | null {
+    if (rack.length === 0) return null;
+
+    const moves = generateMoves(index.board, rack, index.dawg, index.crossSets, getIndexAnchors(index));
+
+    let best: { tiles: PlacedTile[]; score: number; equity: number } | null = null;
+    for (const move of moves) {
+        const score = calculateScore(index.board, move.tiles, index);
+        const equity = score + evaluateRackLeave(getRemainingRack(rack, move.tiles), leaves);
+        if (!best || equity > best.equity) {
+            best = { tiles: move.tiles, score, equity };
+        }
+    }
+    return best;
+}
+
+/**
+ * Move `count` random tiles from the front of the pool's unused part
+ * (partial Fisher-Yates); the pool is shuffled in place
+ */
+function dealFrom(pool: Tile[], start: number, count: number, random: RandomSource): Tile[] {
+    const end = Math.min(pool.length, start + count);
+    for (let i = start; i < end; i++) {
+        const j = i + Math.floor(random() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(start, end);
+}
+
+/**
+ * Simulate one game continuation after a candidate play
+ * @returns The candidate's equity in this sample
+ */
+function simulateOnce(
+    index: BoardIndex,
+    rack: Tile[],
+    candidate: SimulationCandidate,
+    unseen: Tile[],
+    options: SimulationOptions
+): number {
+    // The opponent's rack: what inference says they kept plus draws, or a random deal
+    let pool: Tile[];
+    let opponentRack: Tile[];
+    if (options.inference) {
+        const sample = sampleRack(options.inference, unseen, options.random);
+        opponentRack = sample.rack;
+        pool = sample.rest;
+    } else {
+        pool = [...unseen];
+        opponentRack = dealFrom(pool, 0, RACK_SIZE, options.random);
+        pool = pool.slice(opponentRack.length);
+    }
+    const bagSize = pool.length;
+    const leave = getRemainingRack(rack, candidate.tiles);
+
+    // Going out ends the game: no reply, and we collect the opponent's tiles twice over
+    if (bagSize === 0 && leave.length === 0) {
+        return candidate.score + 2 * getRackValue(opponentRack);
+    }
+
+    const afterPlay = updateBoardIndex(index, placeTiles(index.board, candidate.tiles), candidate.tiles);
+    const reply = bestStaticPlay(afterPlay, opponentRack, options.leaves);
+    let equity = candidate.score - (reply ? reply.score : 0);
+
+    if (options.plies < 3) {
+        return equity + evaluateRackLeave(leave, options.leaves);
+    }
+
+    // Our next play, from the leave topped up out of the rest of the pool
+    const drawn = dealFrom(pool, 0, RACK_SIZE - leave.length, options.random);
+    const ourRack = [...leave, ...drawn];
+    const afterReply = reply ? updateBoardIndex(afterPlay, placeTiles(afterPlay.board, reply.tiles), reply.tiles) : afterPlay;
+    const next = bestStaticPlay(afterReply, ourRack, options.leaves);
+    equity += next ? next.equity : evaluateRackLeave(ourRack, options.leaves);
+    return equity;
+}
+
+/**
+ * Rank candidate plays by simulated equity
+ * @param index - Index of the current board, whose lexicon the replies are found with
+ * @param rack - Our rack
+ * @param candidates - Plays to compare (e.g. the top few by static equity)
+ * @param unseen - Tiles we cannot see: the bag plus the opponents' racks
+ * @param options - Time budget, look-ahead depth, random source and leave table
+ * @throws Error if there are no candidates
+ */
+export function simulateCandidates<T extends SimulationCandidate>(
+    index: BoardIndex,
+    rack: Tile[],
+    candidates: T[],
+    unseen: Tile[],
+    options: SimulationOptions
+): SimulationResult<T> {
+    if (candidates.length === 0) {
+        throw new Error('Nothing to simulate');
+    }
+
+    const start = Date.now();
+    const deadline = start + options.timeBudgetMs;
+    const stats = candidates.map(candidate => ({
+        candidate,
+        staticEquity: staticEquity(rack, candidate, options.leaves),
+        total: 0,
+        samples: 0,
+    }));
+
+    // Round-robin so every candidate gets a similar number of samples
+    let samples = 0;
+    while (candidates.length > 1 && Date.now() < deadline && !options.shouldStop?.()) {
+        const entry = stats[samples % stats.length];
+        entry.total += simulateOnce(index, rack, entry.candidate, unseen, options);
+        entry.samples++;
+        samples++;
+    }
+
+    // Without one full round there is nothing fair to compare: keep static equity
+    const fullRounds = Math.floor(samples / stats.length);
+    const ranking: CandidateEquity<T>[] = stats
+        .map(entry => ({
+            candidate: entry.candidate,
+            staticEquity: entry.staticEquity,
+            equity: fullRounds > 0 ? entry.total / entry.samples : entry.staticEquity,
+            samples: entry.samples,
+        }))
+        .sort((a, b) => b.equity - a.equity);
+
+    return {
+        best: ranking[0].candidate,
+        ranking,
+        samples,
+        elapsedMs: Date.now() - start,
+    };
+}
@@ -0,0 +1,296 @@
+/**
+ * Headless AI-vs-AI tournaments
+ * Plays two-player games between configured AIs through the game engine as
+ * fast as the move generator allows, and summarizes the results.
+ *
+ * Seats alternate every game and each pair of games shares a seed, so both
+ * AIs play the same bag from both seats (duplicate style).
+ */
+
+import { GameState, MoveGeneratorType, ChallengeRule, Move, AiPersonality } from './types';
+import { BoardVariant, RACK_SIZE, DEFAULT_LEAVE_TABLE } from './constants';
+import { createGame } from './gameEngine';
+import { playAiTurn, AiActions } from './ai-turn';
+import { deriveSeed } from './random';
+
+// Safety net for games that neither finish nor stall into six scoreless turns
+const MAX_TURNS_PER_GAME = 500;
+
+// z for two-sided 95% intervals
+const Z_95 = 1.96;
+
+export interface TournamentPlayer {
+    name: string;
+    personality: AiPersonality;
+    useHeuristics: boolean;
+    moveGenerator: MoveGeneratorType;
+    leaveTable?: string;             // Default table when not given
+}
+
+export interface TournamentConfig {
+    games: number;
+    players: [TournamentPlayer, TournamentPlayer];
+    variant: BoardVariant;
+    lexicon: string;
+    challengeRule: ChallengeRule;
+    seed: number;
+}
+
+export interface GameRecord {
+    game: number;
+    seed: number;
+    firstPlayer: number;             // Index into config.players
+    winner: number | null;           // Index into config.players, null on a tie
+    reason: string;
+    turns: number;
+    scores: [number, number];        // Final scores, by config.players index
+    bingos: [number, number];        // Plays using a full rack
+    plays: [number, number];
+    moveMs: [number[], number[]];    // Time to choose each move
+}
+
+export interface Interval {
+    value: number;
+    low: number;
+    high: number;
+}
+
+export interface PlayerSummary {
+    name: string;
+    wins: number;
+    losses: number;
+    ties: number;
+    winRate: Interval;               // Ties count as half a win; Wilson 95% interval
+    averageScore: Interval;          // Normal 95% interval
+    averageSpread: Interval;         // Own score minus the opponent's
+    bingosPerGame: number;
+    bingoRate: number;               // Share of plays that were bingos
+    moveMs: { mean: number; median: number; p95: number; max: number };
+}
+
+export interface TournamentReport {
+    config: TournamentConfig;
+    startedAt: string;
+    elapsedMs: number;
+    summary: [PlayerSummary, PlayerSummary];
+    games: GameRecord[];
+}
+
+/**
+ * Play one game; `firstPlayer` takes the first seat
+ */
+export async function playTournamentGame(
+    config: TournamentConfig,
+    game: number,
+    firstPlayer: number,
+    seed: number,
+    ai: AiActions
+): Promise<GameRecord> {
+    const seats = firstPlayer === 0 ? [0, 1] : [1, 0];
+    const dealt = createGame({
+        variant: config.variant,
+        mode: 'AI_VS_AI',
+        lexicon: config.lexicon,
+        challengeRule: config.challengeRule,
+        seed,
+    });
+
+    let state: GameState = {
+        ...dealt,
+        players: dealt.players.map((player, seat) => {
+            const { name, personality, useHeuristics, moveGenerator, leaveTable } = config.players[seats[seat]];
+            return { ...player, name, personality, useHeuristics, moveGenerator, leaveTable };
+        }),
+    };
+
+    const moveMs: [number[], number[]] = [[], []];
+    let turns = 0;
+    while (!state.gameOver && turns < MAX_TURNS_PER_GAME) {
+        const seat = state.currentPlayerIndex;
+        const turn = await playAiTurn(state, ai);
+
+        // Turns lost to a failed challenge never got as far as choosing a move
+        const last = turn.steps[turn.steps.length - 1];
+        if (last && last.action.type !== 'CHALLENGE' && last.action.type !== 'ACCEPT') {
+            moveMs[seats[seat]].push(turn.thinkMs);
+        }
+        state = turn.state;
+        turns++;
+    }
+
+    const scores: [number, number] = [0, 0];
+    const bingos: [number, number] = [0, 0];
+    const plays: [number, number] = [0, 0];
+    state.players.forEach((player, seat) => {
+        const index = seats[seat];
+        scores[index] = player.score;
+        const own = state.moveHistory.filter(move => move.playerId === player.id && isScoringPlay(move));
+        plays[index] = own.length;
+        bingos[index] = own.filter(move => move.tiles.length === RACK_SIZE).length;
+    });
+
+    const winner = scores[0] === scores[1] ? null : scores[0] > scores[1] ? 0 : 1;
+
+    return {
+        game,
+        seed,
+        firstPlayer,
+        winner,
+        reason: state.finalTally?.reason || 'TURN_LIMIT',
+        turns,
+        scores,
+        bingos,
+        plays,
+        moveMs,
+    };
+}
+
+/**
+ * Play every game of a tournament
+ * @param onGame - Called after each game, e.g. for progress output
+ */
+export async function runTournament(
+    config: TournamentConfig,
+    ai: AiActions,
+    onGame?: (record: GameRecord) => void
+): Promise<TournamentReport> {
+    const startedAt = new Date().toISOString();
+    const start = Date.now();
+    const games: GameRecord[] = [];
+
+    for (let game = 0; game < config.games; game++) {
+        const firstPlayer = game % 2;
+        const seed = deriveSeed(config.seed, Math.floor(game / 2));
+        const record = await playTournamentGame(config, game, firstPlayer, seed, ai);
+        games.push(record);
+        onGame?.(record);
+    }
+
+    return {
+        config,
+        startedAt,
+        elapsedMs: Date.now() - start,
+        summary: [summarizePlayer(config, games, 0), summarizePlayer(config, games, 1)],
+        games,
+    };
+}
+
+function isScoringPlay(move: Move): boolean {
+    return (move.type === undefined || move.type === 'PLAY') && !move.withdrawn;
+}
+
+function summarizePlayer(config: TournamentConfig, games: GameRecord[], index: 0 | 1): PlayerSummary {
+    const opponent = 1 - index;
+    const wins = games.filter(g => g.winner === index).length;
+    const ties = games.filter(g => g.winner === null).length;
+    const plays = games.reduce((sum, g) => sum + g.plays[index], 0);
+    const bingos = games.reduce((sum, g) => sum + g.bingos[index], 0);
+    const times = games.flatMap(g => g.moveMs[index]).sort((a, b) => a - b);
+
+    return {
+        name: config.players[index].name,
+        wins,
+        losses: games.length - wins - ties,
+        ties,
+        winRate: wilsonInterval(wins + ties / 2, games.length),
+        averageScore: meanInterval(games.map(g => g.scores[index])),
+        averageSpread: meanInterval(games.map(g => g.scores[index] - g.scores[opponent])),
+        bingosPerGame: games.length > 0 ? bingos / games.length : 0,
+        bingoRate: plays > 0 ? bingos / plays : 0,
+        moveMs: {
+            mean: times.length > 0 ? times.reduce((sum, t) => sum + t, 0) / times.length : 0,
+            median: percentile(times, 0.5),
+            p95: percentile(times, 0.95),
+            max: times.length > 0 ? times[times.length - 1] : 0,
+        },
+    };
+}
+
+/**
+ * Wilson score interval for a proportion
+ */
+export function wilsonInterval(successes: number, trials: number): Interval {
+    if (trials === 0) return { value: 0, low: 0, high: 0 };
+    const p = successes / trials;
+    const z2 = Z_95 * Z_95;
+    const centre = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+    const margin = (Z_95 / (1 + z2 / trials)) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+    return { value: p, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
+
+/**
+ * Mean with a normal-approximation interval
+ */
+export function meanInterval(values: number[]): Interval {
+    if (values.length === 0) return { value: 0, low: 0, high: 0 };
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    if (values.length === 1) return { value: mean, low: mean, high: mean };
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    const margin = Z_95 * Math.sqrt(variance / values.length);
+    return { value: mean, low: mean - margin, high: mean + margin };
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number>>): string {
+    const cell = (value: string | number) => {
+        const text = String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [header, ...rows].map(row => row.map(cell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * One row per game
+ */
+export function gamesToCsv(report: TournamentReport): string {
+    const [a, b] = report.config.players.map(p => p.name);
+    return toCsv(
+        ['game', 'seed', 'first', 'winner', 'reason', 'turns', `${a} score`, `${b} score`, `${a} bingos`, `${b} bingos`, `${a} avg move ms`, `${b} avg move ms`],
+        report.games.map(g => [
+            g.game,
+            g.seed,
+            report.config.players[g.firstPlayer].name,
+            g.winner === null ? 'tie' : report.config.players[g.winner].name,
+            g.reason,
+            g.turns,
+            g.scores[0],
+            g.scores[1],
+            g.bingos[0],
+            g.bingos[1],
+            average(g.moveMs[0]).toFixed(1),
+            average(g.moveMs[1]).toFixed(1),
+        ])
+    );
+}
+
+/**
+ * One row per player
+ */
+export function summaryToCsv(report: TournamentReport): string {
+    return toCsv(
+        ['player', 'personality', 'heuristics', 'generator', 'leaves', 'games', 'wins', 'losses', 'ties',
+            'win rate', 'win rate low', 'win rate high', 'avg score', 'avg score low', 'avg score high',
+            'avg spread', 'avg spread low', 'avg spread high', 'bingos per game', 'bingo rate',
+            'move ms mean', 'move ms median', 'move ms p95', 'move ms max'],
+        report.summary.map((s, i) => {
+            const player = report.config.players[i];
+            return [
+                s.name, player.personality.name, String(player.useHeuristics), player.moveGenerator, player.leaveTable || DEFAULT_LEAVE_TABLE, report.games.length, s.wins, s.losses, s.ties,
+                s.winRate.value.toFixed(4), s.winRate.low.toFixed(4), s.winRate.high.toFixed(4),
+                s.averageScore.value.toFixed(1), s.averageScore.low.toFixed(1), s.averageScore.high.toFixed(1),
+                s.averageSpread.value.toFixed(1), s.averageSpread.low.toFixed(1), s.averageSpread.high.toFixed(1),
+                s.bingosPerGame.toFixed(3), s.bingoRate.toFixed(4),
+                s.moveMs.mean.toFixed(1), s.moveMs.median, s.moveMs.p95, s.moveMs.max,
+            ];
+        })
+    );
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
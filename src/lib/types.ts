@@ -1,4 +1,4 @@
-import { BonusType } from './constants';
+import { BonusType, BoardVariant } from './constants';
 
 export interface Tile {
     id: string;
@@ -18,23 +18,65 @@ export interface Square {
 
 export type BoardState = Square[][];
 
+export type MoveGeneratorType = 'DAWG' | 'GADDAG';
+
+export interface LexiconInfo {
+    id: string;
+    name: string;
+    description?: string;
+    custom: boolean;     // Defined by a manifest in lexicons/
+    available: boolean;  // Word lists present and loadable
+    error?: string;      // Why the lexicon cannot be used
+}
+
+/**
+ * Built-in AI personality presets: EASY/MEDIUM pick randomly among the better
+ * plays, HARD takes the best play, SIMULATION looks ahead by simulating the
+ * opponent's reply (see AI_PERSONALITIES)
+ */
+export type AiDifficulty = 'EASY' | 'MEDIUM' | 'HARD' | 'SIMULATION';
+
+/**
+ * How an AI plays. The built-in presets are AI_PERSONALITIES; others are
+ * saved in personalities/ and can be picked like a difficulty
+ */
+export interface AiPersonality {
+    name: string;                // Preset this profile is, or was edited from
+    vocabulary: number;          // Share of words over 3 letters the AI knows (0-1)
+    maxWordLength: number;       // Longest word it will form (0 for no limit)
+    bingoAwareness: number;      // Chance it spots a play using its whole rack (0-1)
+    defensiveness: number;       // Points given up per premium square a play opens (TW counts 3, DW 2)
+    exchangeWillingness: number; // Points an exchange is credited with against the best play (negative: reluctant)
+    blunderRate: number;         // Chance of picking at random instead of taking the best play (0-1)
+    blunderRange: number;        // Share of the plays, best first, a blunder picks from (0-1)
+    thinkTimeMs: number;         // Simulation budget per move, or for other AIs the pause before moving
+    simulate: boolean;           // Look ahead by simulating the opponent's reply
+    solveEndgames: boolean;      // Search the rest of the game once the bag is empty
+    challengeRate: number;       // Chance of challenging a play it knows is invalid (0-1)
+    phonyRate: number;           // Chance of bluffing with a phony when plays can be challenged (0-1)
+}
+
 export interface Player {
     id: string;
     name: string;
     rack: Tile[];
     score: number;
     isAi: boolean;
-    difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+    personality?: AiPersonality;
     useHeuristics?: boolean; // Enable strategic heuristics for this AI
+    moveGenerator?: MoveGeneratorType; // Lexicon structure used for this AI's move generation
     resigned?: boolean;
     teamId?: string;
     movesMade?: number; // Track number of moves made by this player
+    leaveTable?: string; // Leave table this AI values its rack with (see leaves/)
+    hintsUsed?: number; // Times a human player asked for the best plays
 }
 
-export type GameMode = 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS';
+export type GameMode = 'HUMAN_VS_AI' | 'AI_VS_AI' | 'TEAMS' | 'ONLINE' | 'HOT_SEAT';
 
 export interface GameState {
     board: BoardState;
+    variant?: BoardVariant; // Board layout the game was dealt with (random layouts come from the seed)
     players: Player[];
     currentPlayerIndex: number;
     bag: Tile[];
@@ -44,11 +86,186 @@ export interface GameState {
     gameMode?: GameMode;
     teamScores?: Record<string, number>;
     mustStartOnStar?: boolean; // Mega Board rule: first move of each player must be on a star
+    lexicon?: string; // Lexicon id used for word validation and AI moves
+    finalTally?: FinalTally; // Set once the game is over
+    challengeRule?: ChallengeRule; // Defaults to VOID
+    pendingMove?: PendingMove | null;
+    seed?: number; // Seed the game was dealt from; same seed and players replay the same game
+    rngState?: number; // Random generator state after the last action (see random.ts)
+    hintsAllowed?: boolean; // Whether human players may ask for the best plays; defaults to true
 }
 
+export type GameEndReason = 'WENT_OUT' | 'SCORELESS_TURNS' | 'RESIGNED';
+
+export interface FinalTally {
+    reason: GameEndReason;
+    wentOutPlayerId?: string;
+    rackPenalties: Record<string, number>;     // Player id -> value of unplayed tiles
+    scoreAdjustments: Record<string, number>;  // Player id -> points gained or lost at the end
+    teamAdjustments?: Record<string, number>;  // Team id -> points gained or lost at the end
+    finalScores: Record<string, number>;       // Player id -> score after adjustments
+    teamScores?: Record<string, number>;       // Team id -> score after adjustments
+    winner: string | null;                     // Player or team id, null on a tie
+}
+
+export type MoveType = 'PLAY' | 'PASS' | 'EXCHANGE' | 'CHALLENGE';
+
 export interface Move {
+    type?: MoveType; // Defaults to PLAY
+    playerId: string;
+    word: string;
+    score: number;
+    tiles: { x: number; y: number; tile: Tile }[];
+    exchangedCount?: number; // Tiles returned to the bag by an EXCHANGE
+    exchanged?: Tile[]; // EXCHANGE: the tiles returned (for analysis)
+    rack?: Tile[]; // The mover's rack at the start of the turn (for analysis; not on CHALLENGE)
+    withdrawn?: boolean; // PLAY taken back after a successful challenge (scores 0; tiles are those taken back)
+    challengedPlayerId?: string; // CHALLENGE: player whose play was challenged
+    challengeUpheld?: boolean; // CHALLENGE: the play contained an invalid word
+    turnLost?: boolean; // CHALLENGE: the challenger lost their turn (double challenge)
+}
+
+/**
+ * Challenge rules:
+ *   VOID   - every play is checked on submission, invalid words are refused
+ *   SINGLE - plays are provisional; a failed challenge costs the challenger points
+ *   DOUBLE - plays are provisional; a failed challenge costs the challenger their turn
+ */
+export type ChallengeRule = 'VOID' | 'SINGLE' | 'DOUBLE';
+
+/**
+ * A play on the board awaiting the next player's challenge or acceptance
+ * Its tiles are on the board and its score is counted provisionally; the
+ * player draws replacements only once it is accepted
+ */
+export interface PendingMove {
     playerId: string;
     word: string;
+    words: string[]; // Every word formed, as checked by a challenge
     score: number;
     tiles: { x: number; y: number; tile: Tile }[];
+    rack?: Tile[]; // The player's rack before the play
 }
+
+/**
+ * A seat of a TEAMS game: an AI, or a human when isHuman is set
+ */
+export interface TeamSeatConfig {
+    personality: AiPersonality;
+    useHeuristics: boolean;
+    moveGenerator?: MoveGeneratorType;
+    leaveTable?: string;
+    isHuman?: boolean;
+}
+
+/**
+ * A player of an ONLINE or HOT_SEAT game, in turn order
+ */
+export interface SeatConfig {
+    name: string;
+    isAi: boolean;
+    personality?: AiPersonality; // AI seats; defaults to MEDIUM
+    moveGenerator?: MoveGeneratorType; // AI seats; defaults to DAWG
+    leaveTable?: string; // AI seats
+}
+
+/**
+ * Settings for a new game
+ * TEAMS on the MEGA board is the 4x4 AI battle, ONLINE seats the players
+ * given in seats; otherwise two players
+ */
+export interface GameConfig {
+    variant?: BoardVariant;
+    mode?: GameMode;
+    personality?: AiPersonality;  // The AI opponent, or AI 1 in AI vs AI
+    personality2?: AiPersonality; // AI 2 in AI vs AI
+    moveGenerator?: MoveGeneratorType;
+    moveGenerator2?: MoveGeneratorType;
+    teamAiConfigs?: TeamSeatConfig[]; // TEAMS: the eight seats in turn order (Red 1, Blue 1, Red 2...)
+    mustStartOnStar?: boolean;
+    lexicon?: string;
+    challengeRule?: ChallengeRule;
+    seed?: number; // Random when not given
+    leaveTable?: string;  // Leave table of the AI opponent, or AI 1 in AI vs AI
+    leaveTable2?: string; // Leave table of AI 2 in AI vs AI
+    hintsAllowed?: boolean; // Defaults to true; turn off for competitive games
+    seats?: SeatConfig[]; // ONLINE and HOT_SEAT: the players, MIN_SEATS to MAX_SEATS of them
+}
+
+/**
+ * Everything a player can do on their turn, as applied by the game engine
+ *   PLACE     - play tiles from the rack (words are checked by the caller or a challenge)
+ *   PASS      - skip the turn
+ *   EXCHANGE  - swap rack tiles with the bag
+ *   RESIGN    - stop playing; the turn counts as a pass
+ *   CHALLENGE - challenge the pending play; invalidWords is the lexicon's verdict
+ *   ACCEPT    - accept the pending play and keep the turn
+ */
+export type GameAction =
+    | { type: 'PLACE'; playerId: string; tiles: { x: number; y: number; tile: Tile }[] }
+    | { type: 'PASS'; playerId: string }
+    | { type: 'EXCHANGE'; playerId: string; tiles: Tile[] }
+    | { type: 'RESIGN'; playerId: string }
+    | { type: 'CHALLENGE'; playerId: string; invalidWords: string[] }
+    | { type: 'ACCEPT'; playerId: string };
+
+/**
+ * Online games: what the host sets when opening a room
+ * Seats no one has taken when the game starts are filled by AIs. There is
+ * no seed: the server deals from one of its own, which no player sees until
+ * the game is over, since it would give away every rack and draw
+ */
+export interface OnlineSettings {
+    seats: number;                  // Players, humans and AIs
+    variant?: BoardVariant;
+    lexicon?: string;
+    challengeRule?: ChallengeRule;
+    aiPersonality?: AiPersonality;  // AIs filling empty seats
+}
+
+export interface RoomSeat {
+    playerId: string;       // The seat's player in the game (p0, p1...)
+    name: string | null;    // null while no one has taken the seat
+    isAi: boolean;
+    connected: boolean;     // A human seat's player is connected now
+    host: boolean;          // Starts the game
+}
+
+export interface RoomInfo {
+    code: string;           // Players join with it
+    settings: OnlineSettings;
+    seats: RoomSeat[];
+    started: boolean;
+}
+
+/**
+ * Messages to the multiplayer server, as JSON over a WebSocket
+ *   CREATE - open a room and take its first seat as the host
+ *   JOIN   - take a free seat of a room that has not started
+ *   REJOIN - take back a seat after a dropped connection, with its token
+ *   START  - (host) fill empty seats with AIs and deal
+ *   ACTION - act on the game as the seat's player; the server checks the
+ *            words and the turn, and rules on challenges itself
+ *   LEAVE  - give up the seat before the game starts, or disconnect from it after
+ */
+export type ClientMessage =
+    | { type: 'CREATE'; name: string; settings: OnlineSettings }
+    | { type: 'JOIN'; code: string; name: string }
+    | { type: 'REJOIN'; code: string; token: string }
+    | { type: 'START' }
+    | { type: 'ACTION'; action: GameAction }
+    | { type: 'LEAVE' };
+
+/**
+ * Messages from the multiplayer server
+ *   JOINED - the seat taken, and the token that takes it back on reconnection
+ *   ROOM   - who sits where, sent on every change
+ *   STATE  - the game as the seat's player may see it: other racks and the
+ *            bag are hidden until the game is over
+ *   ERROR  - a message or action was refused; when fatal the seat is gone
+ */
+export type ServerMessage =
+    | { type: 'JOINED'; code: string; playerId: string; token: string }
+    | { type: 'ROOM'; room: RoomInfo }
+    | { type: 'STATE'; state: GameState; message: string | null }
+    | { type: 'ERROR'; message: string; fatal?: boolean };
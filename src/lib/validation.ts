@@ -1,4 +1,6 @@
 import { BoardState, Tile, Square } from './types';
+import { getTileLetter } from './gameUtils';
+import type { BoardIndex } from './board-index';
 
 export interface PlacedTile {
     x: number;
@@ -6,17 +8,26 @@ export interface PlacedTile {
     tile: Tile;
 }
 
+/**
+ * Check a play's placement and collect the words it forms
+ * @param index - Index of the same board; perpendicular words are then read from its cross-words instead of the board
+ */
 export const validateMove = (
     board: BoardState,
     placedTiles: PlacedTile[],
     isFirstMove: boolean,
     currentPlayer?: { movesMade?: number },
-    mustStartOnStar?: boolean
+    mustStartOnStar?: boolean,
+    index?: BoardIndex
 ): { isValid: boolean; message?: string; words?: string[] } => {
     if (placedTiles.length === 0) {
         return { isValid: false, message: 'No tiles placed.' };
     }
 
+    if (placedTiles.some((t) => t.tile.isBlank && !t.tile.letterOverride)) {
+        return { isValid: false, message: 'Choose a letter for the blank tile.' };
+    }
+
     // 1. Check if tiles are in a straight line (row or column)
     const xs = placedTiles.map((t) => t.x);
     const ys = placedTiles.map((t) => t.y);
@@ -169,7 +180,7 @@ export const validateMove = (
         while (currentX >= 0 && currentY >= 0 && currentX < cols && currentY < rows) {
             const tile = board[currentY][currentX].tile || placedTiles.find(t => t.x === currentX && t.y === currentY)?.tile;
             if (!tile) break;
-            word += tile.letter;
+            word += getTileLetter(tile);
             currentX += dx;
             currentY += dy;
         }
@@ -183,7 +194,13 @@ export const validateMove = (
 
     // Check perpendicular words for each placed tile
     for (const pt of placedTiles) {
-        const perpWord = getWordAt(pt.x, pt.y, isRow ? 0 : 1, isRow ? 1 : 0);
+        let perpWord: string | null;
+        if (index) {
+            const crossWord = index.crossWords.get(`${pt.x},${pt.y},${isRow ? 'V' : 'H'}`);
+            perpWord = crossWord ? crossWord.prefix + getTileLetter(pt.tile) + crossWord.suffix : null;
+        } else {
+            perpWord = getWordAt(pt.x, pt.y, isRow ? 0 : 1, isRow ? 1 : 0);
+        }
         if (perpWord) words.push(perpWord);
     }
 
@@ -0,0 +1,186 @@
+/**
+ * Server side of the WebSocket protocol (RFC 6455), enough for the
+ * multiplayer server: the opening handshake on an HTTP upgrade, text
+ * messages in both directions (fragmented or not), ping/pong and the
+ * closing handshake. Binary messages are refused.
+ */
+
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { createHash } from 'crypto';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Close codes
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED = 1003;
+const CLOSE_TOO_BIG = 1009;
+
+export interface WebSocketConnection {
+    send: (text: string) => void;
+    ping: () => void;
+    close: (code?: number, reason?: string) => void;
+}
+
+export interface WebSocketHandlers {
+    onMessage: (text: string) => void;
+    onClose: () => void;     // Called once, however the connection ends
+    onPong?: () => void;
+}
+
+/**
+ * A frame as sent by the server: final, unmasked
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    const length = payload.length;
+    let header: Buffer;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Complete the handshake of an HTTP upgrade request and start reading frames
+ * @param request - The upgrade request
+ * @param socket - Its socket, as passed to the server's 'upgrade' event
+ * @returns The connection, or null if the request was not a WebSocket
+ *          handshake (it is answered with 400 and closed)
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, handlers: WebSocketHandlers): WebSocketConnection | null {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+        return null;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+
+    let buffered: Buffer = Buffer.alloc(0);
+    let fragments: Buffer[] = [];   // Parts of a fragmented text message so far
+    let closing = false;
+    let closed = false;
+
+    const write = (opcode: number, payload: Buffer) => {
+        if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+    };
+
+    const close = (code: number = CLOSE_NORMAL, reason: string = '') => {
+        if (closing) return;
+        closing = true;
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        write(OPCODE_CLOSE, payload);
+        socket.end();
+    };
+
+    const finish = () => {
+        if (closed) return;
+        closed = true;
+        handlers.onClose();
+    };
+
+    // Read every complete frame buffered so far
+    const readFrames = () => {
+        while (!closing) {
+            if (buffered.length < 2) return;
+            const fin = (buffered[0] & 0x80) !== 0;
+            const opcode = buffered[0] & 0x0f;
+            const masked = (buffered[1] & 0x80) !== 0;
+            let length = buffered[1] & 0x7f;
+            let offset = 2;
+
+            if (length === 126) {
+                if (buffered.length < 4) return;
+                length = buffered.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffered.length < 10) return;
+                const long = buffered.readBigUInt64BE(2);
+                if (long > BigInt(MAX_MESSAGE_BYTES)) return close(CLOSE_TOO_BIG, 'Message too big');
+                length = Number(long);
+                offset = 10;
+            }
+            if (!masked) return close(CLOSE_PROTOCOL_ERROR, 'Client frames must be masked');
+            if (length > MAX_MESSAGE_BYTES) return close(CLOSE_TOO_BIG, 'Message too big');
+            if (buffered.length < offset + 4 + length) return;
+
+            const mask = buffered.subarray(offset, offset + 4);
+            const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+            buffered = buffered.subarray(offset + 4 + length);
+
+            switch (opcode) {
+                case OPCODE_TEXT:
+                case OPCODE_CONTINUATION: {
+                    if ((opcode === OPCODE_TEXT) !== (fragments.length === 0)) {
+                        return close(CLOSE_PROTOCOL_ERROR, 'Unexpected continuation');
+                    }
+                    fragments.push(payload);
+                    if (fragments.reduce((sum, part) => sum + part.length, 0) > MAX_MESSAGE_BYTES) {
+                        return close(CLOSE_TOO_BIG, 'Message too big');
+                    }
+                    if (fin) {
+                        const text = Buffer.concat(fragments).toString('utf8');
+                        fragments = [];
+                        handlers.onMessage(text);
+                    }
+                    break;
+                }
+                case OPCODE_BINARY:
+                    return close(CLOSE_UNSUPPORTED, 'Only text messages are accepted');
+                case OPCODE_PING:
+                    write(OPCODE_PONG, payload);
+                    break;
+                case OPCODE_PONG:
+                    handlers.onPong?.();
+                    break;
+                case OPCODE_CLOSE:
+                    return close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL);
+                default:
+                    return close(CLOSE_PROTOCOL_ERROR, 'Unknown opcode');
+            }
+        }
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+        buffered = buffered.length > 0 ? Buffer.concat([buffered, chunk]) : chunk;
+        readFrames();
+    });
+    socket.on('close', finish);
+    socket.on('end', finish);
+    socket.on('error', finish);
+
+    return {
+        send: text => write(OPCODE_TEXT, Buffer.from(text, 'utf8')),
+        ping: () => write(OPCODE_PING, Buffer.alloc(0)),
+        close,
+    };
+}
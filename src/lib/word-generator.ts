@@ -4,18 +4,18 @@
  */
 
 import { Tile } from './types';
-import { DAWGNode, isValidWord, getNodeAtPrefix } from './dawg';
+import { PackedDAWG, DAWGNodeIndex, DAWG_ROOT, getChild, isEndOfWord } from './dawg';
 
 /**
  * Generate all valid words that can be formed from the rack
  * @param rack - Current tiles in the player's rack
- * @param dawg - DAWG root node for word validation
+ * @param dawg - Packed DAWG for word validation
  * @param maxLength - Maximum word length to generate (default: 7)
  * @returns Array of valid words (uppercase)
  */
 export function generateWordsFromRack(
     rack: Tile[],
-    dawg: DAWGNode,
+    dawg: PackedDAWG,
     maxLength: number = 7
 ): string[] {
     const words = new Set<string>();
@@ -26,10 +26,10 @@ export function generateWordsFromRack(
         currentWord: string,
         remainingLetters: string[],
         usedIndices: Set<number>,
-        currentNode: DAWGNode
+        currentNode: DAWGNodeIndex
     ) {
         // If current word is valid, add it
-        if (currentWord.length > 1 && currentNode.isEndOfWord) {
+        if (currentWord.length > 1 && isEndOfWord(dawg, currentNode)) {
             words.add(currentWord);
         }
 
@@ -48,9 +48,9 @@ export function generateWordsFromRack(
             if (letter === '_') {
                 for (let charCode = 65; charCode <= 90; charCode++) {
                     const blankLetter = String.fromCharCode(charCode);
-                    const childNode = currentNode.children.get(blankLetter);
+                    const childNode = getChild(dawg, currentNode, blankLetter);
 
-                    if (childNode) {
+                    if (childNode !== null) {
                         const newUsed = new Set(usedIndices);
                         newUsed.add(i);
                         backtrack(
@@ -63,9 +63,9 @@ export function generateWordsFromRack(
                 }
             } else {
                 // Regular letter
-                const childNode = currentNode.children.get(letter);
+                const childNode = getChild(dawg, currentNode, letter);
 
-                if (childNode) {
+                if (childNode !== null) {
                     const newUsed = new Set(usedIndices);
                     newUsed.add(i);
                     backtrack(
@@ -79,7 +79,7 @@ export function generateWordsFromRack(
         }
     }
 
-    backtrack('', letters, new Set(), dawg);
+    backtrack('', letters, new Set(), DAWG_ROOT);
 
     return Array.from(words);
 }
@@ -89,14 +89,14 @@ export function generateWordsFromRack(
  * Used for finding words that can be extended with board letters
  * @param rack - Current tiles in the player's rack
  * @param boardLetter - Letter already on the board
- * @param dawg - DAWG root node
+ * @param dawg - Packed DAWG
  * @param maxLength - Maximum word length
  * @returns Array of valid words
  */
 export function generateWordsWithBoardLetter(
     rack: Tile[],
     boardLetter: string,
-    dawg: DAWGNode,
+    dawg: PackedDAWG,
     maxLength: number = 15
 ): string[] {
     const words = new Set<string>();
@@ -107,9 +107,9 @@ export function generateWordsWithBoardLetter(
         remainingRack: string[],
         usedIndices: Set<number>,
         usedBoardLetter: boolean,
-        currentNode: DAWGNode
+        currentNode: DAWGNodeIndex
     ) {
-        if (currentWord.length > 1 && currentNode.isEndOfWord && usedBoardLetter) {
+        if (currentWord.length > 1 && isEndOfWord(dawg, currentNode) && usedBoardLetter) {
             words.add(currentWord);
         }
 
@@ -119,8 +119,8 @@ export function generateWordsWithBoardLetter(
 
         // Try board letter if not used yet
         if (!usedBoardLetter) {
-            const childNode = currentNode.children.get(boardLetter);
-            if (childNode) {
+            const childNode = getChild(dawg, currentNode, boardLetter);
+            if (childNode !== null) {
                 backtrack(
                     currentWord + boardLetter,
                     remainingRack,
@@ -140,9 +140,9 @@ export function generateWordsWithBoardLetter(
             if (letter === '_') {
                 for (let charCode = 65; charCode <= 90; charCode++) {
                     const blankLetter = String.fromCharCode(charCode);
-                    const childNode = currentNode.children.get(blankLetter);
+                    const childNode = getChild(dawg, currentNode, blankLetter);
 
-                    if (childNode) {
+                    if (childNode !== null) {
                         const newUsed = new Set(usedIndices);
                         newUsed.add(i);
                         backtrack(
@@ -155,9 +155,9 @@ export function generateWordsWithBoardLetter(
                     }
                 }
             } else {
-                const childNode = currentNode.children.get(letter);
+                const childNode = getChild(dawg, currentNode, letter);
 
-                if (childNode) {
+                if (childNode !== null) {
                     const newUsed = new Set(usedIndices);
                     newUsed.add(i);
                     backtrack(
@@ -172,7 +172,7 @@ export function generateWordsWithBoardLetter(
         }
     }
 
-    backtrack('', rackLetters, new Set(), false, dawg);
+    backtrack('', rackLetters, new Set(), false, DAWG_ROOT);
 
     return Array.from(words);
 }
@@ -204,14 +204,14 @@ export function canFormWord(word: string, rack: Tile[]): boolean {
  * @param board - Current board state
  * @param rack - Player's rack
  * @param anchors - Anchor positions (empty squares adjacent to tiles)
- * @param dawg - DAWG root node
+ * @param dawg - Packed DAWG
  * @returns Array of possible words with their board letter usage
  */
 export function generateBoardAwareWords(
     board: any[][],
     rack: Tile[],
     anchors: Array<{ x: number; y: number }>,
-    dawg: DAWGNode
+    dawg: PackedDAWG
 ): Array<{ word: string; usedBoardLetters: string }> {
     const words = new Set<string>();
     const rows = board.length;